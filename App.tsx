@@ -1,8 +1,59 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Camera, RefreshCw, AlertCircle, Settings2, Video, Lock } from 'lucide-react';
-import { CameraDevice, CameraCapabilities, CameraSettings } from './types';
+import { Camera, RefreshCw, AlertCircle, Settings2, Video, Lock, Focus, BoxSelect, X, LayoutGrid, Loader2, Link, Contrast, Aperture, GalleryHorizontal, Keyboard, Gamepad2 } from 'lucide-react';
+import { CameraDevice, CameraCapabilities, CameraSettings, RegionOfInterest, SettingsProfile, SettingsSchedule, Snapshot } from './types';
 import { ControlSlider } from './components/ControlSlider';
 import { ScriptGenerator } from './components/ScriptGenerator';
+import { FocusAssistOverlay } from './components/FocusAssistOverlay';
+import { FocusSweepPanel } from './components/FocusSweepPanel';
+import { ExposureAssistOverlay } from './components/ExposureAssistOverlay';
+import { HistogramPanel } from './components/HistogramPanel';
+import { SnapshotGallery } from './components/SnapshotGallery';
+import { SchedulePanel } from './components/SchedulePanel';
+import { RecorderPanel } from './components/RecorderPanel';
+import { NativeAgentPanel } from './components/NativeAgentPanel';
+import { RoiSelector } from './components/RoiSelector';
+import { ProfileMenu } from './components/ProfileMenu';
+import { CameraControl } from './components/CameraControl';
+import { ControlStatusBadge } from './components/ControlStatusBadge';
+import { DriftMonitor } from './components/DriftMonitor';
+import { CameraDashboard } from './components/CameraDashboard';
+import { NativeImportPanel } from './components/NativeImportPanel';
+import { DEFAULT_SETTINGS, buildConstraintSet, readHardwareSettings, supportedControls } from './services/cameraControls';
+import { clampSettings } from './services/settingsValidation';
+import { KEYBOARD_SHORTCUTS } from './services/fineControl';
+import { useFineControl } from './hooks/useFineControl';
+import { ControlStatusMap, DriftedControl, detectDrift } from './services/constraintReadback';
+import {
+  deleteProfile,
+  exportProfiles,
+  getLastProfile,
+  importProfiles,
+  loadProfiles,
+  profilesForDevice,
+  saveProfile,
+  setLastProfile,
+} from './services/profileStore';
+import { runFocusSweep, SweepSample } from './services/focusSweep';
+import { Histogram, histogramStats, sampleHistogram, sampleSharpness } from './services/frameAnalysis';
+import { runExposureSuggest } from './services/exposureSuggest';
+import { Recording, readTrackValues, runRecorder } from './services/settingsRecorder';
+import { captureStill } from './services/snapshotCapture';
+import { deleteSnapshot, loadSnapshots, saveSnapshot } from './services/snapshotStore';
+import { activeEntry, loadSchedule, saveSchedule, scheduleSlots } from './services/scheduleStore';
+import { AgentInfo } from './services/agentProtocol';
+import { detectAgent } from './services/agentClient';
+import { NativeImport } from './services/nativeImport';
+import { formatUsbId } from './services/deviceIdentity';
+import { SharedConfig, decodeShareFragment, sharedConfigMatchesDevice } from './services/shareLink';
+import { downloadFile } from './services/download';
+import { applyConstraintSet, initialSettings, openCamera } from './services/cameraStream';
+
+// How often the track is read back to detect drift
+const DRIFT_POLL_MS = 2000;
+// How often the schedule is checked for a new time window
+const SCHEDULE_POLL_MS = 30000;
+// How often the recorder chart redraws while samples come in
+const RECORDER_REDRAW_MS = 500;
 
 const App: React.FC = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -10,131 +61,600 @@ const App: React.FC = () => {
   const [devices, setDevices] = useState<CameraDevice[]>([]);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
+  const [isDashboard, setIsDashboard] = useState(false);
   
   // Capabilities supported by the hardware
   const [capabilities, setCapabilities] = useState<CameraCapabilities>({});
+  const capabilitiesRef = useRef<CameraCapabilities>({});
   
   // Current active settings
-  const [settings, setSettings] = useState<CameraSettings>({
-    focusMode: 'continuous',
-    focusDistance: 0,
-    zoom: 1,
-    brightness: 100,
-    contrast: 100,
-  });
+  const [settings, setSettings] = useState<CameraSettings>(DEFAULT_SETTINGS);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  // Readback of what the camera actually did with our constraints
+  const [controlStatus, setControlStatus] = useState<ControlStatusMap>({});
+  const [drift, setDrift] = useState<DriftedControl[]>([]);
+  const [autoReapply, setAutoReapply] = useState(false);
+
+  // Saved profiles
+  const [profiles, setProfiles] = useState<SettingsProfile[]>(() => loadProfiles());
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+
+  // Companion agent on localhost, if one is running
+  const [agent, setAgent] = useState<AgentInfo | null>(null);
+
+  const checkAgent = useCallback(() => detectAgent().then(info => {
+    setAgent(info);
+    return info;
+  }), []);
+
+  // Look for it at start and whenever the user comes back to the tab (e.g. after starting it)
+  useEffect(() => {
+    checkAgent();
+    window.addEventListener('focus', checkAgent);
+    return () => window.removeEventListener('focus', checkAgent);
+  }, [checkAgent]);
+
+  // Time-of-day schedule of the selected camera
+  const [schedule, setSchedule] = useState<SettingsSchedule | null>(null);
+  // Window (and profile) last applied by the schedule, so each is applied once
+  const appliedWindowRef = useRef<string | null>(null);
+
+  // Focus assist: live sharpness score and optional edge-peaking overlay
+  const [sharpness, setSharpness] = useState<number>(0);
+  const [showPeaking, setShowPeaking] = useState(false);
+  const [isDrawingRoi, setIsDrawingRoi] = useState(false);
+
+  // Automated focus sweep
+  const sweepAbortRef = useRef<AbortController | null>(null);
+  const [sweepSamples, setSweepSamples] = useState<SweepSample[]>([]);
+  const [isSweeping, setIsSweeping] = useState(false);
+  const [sweepBest, setSweepBest] = useState<number | null>(null);
+
+  // Settings + sharpness time series
+  const recordAbortRef = useRef<AbortController | null>(null);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordRate, setRecordRate] = useState(5);
+
+  // Exposure assist
+  const [histogram, setHistogram] = useState<Histogram | null>(null);
+  const [showZebras, setShowZebras] = useState(false);
+  const suggestAbortRef = useRef<AbortController | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+
+  // What the camera had when it was opened; sliders can reset to these
+  const [hardwareDefaults, setHardwareDefaults] = useState<Partial<CameraSettings>>({});
+  // Keyboard shortcuts are always on; the gamepad only once enabled
+  const [gamepadEnabled, setGamepadEnabled] = useState(false);
+
+  // Captured stills for A/B comparison
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [showGallery, setShowGallery] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  useEffect(() => {
+    loadSnapshots().then(setSnapshots).catch(err => console.warn("Could not load snapshots:", err));
+  }, []);
+
+  // Camera state pasted from v4l2-ctl / uvc-util; while set, scripts are generated from it
+  const [imported, setImported] = useState<NativeImport | null>(null);
+
+  // Hot-plug: while the selected camera is gone we remember what it was and
+  // which settings to push back once it reappears
+  const [connection, setConnection] = useState<'live' | 'reconnecting'>('live');
+  const lostDeviceRef = useRef<CameraDevice | null>(null);
+  const restoreSettingsRef = useRef<CameraSettings | null>(null);
+
+  // Settings from a share link, applied once the matching camera is streaming
+  const [shared, setShared] = useState<SharedConfig | null>(null);
+  const sharedRef = useRef<SharedConfig | null>(null);
+  const [sharedTarget, setSharedTarget] = useState<SharedConfig | undefined>(undefined);
+  const [shareError, setShareError] = useState<string | null>(null);
+
+  useEffect(() => {
+    try {
+      const config = decodeShareFragment(window.location.hash);
+      if (!config) return;
+      sharedRef.current = config;
+      setShared(config);
+      setSharedTarget(config);
+    } catch (err) {
+      setShareError((err as Error).message);
+    }
+  }, []);
+
+  // The link has been used (or dismissed); drop it so a reload doesn't reapply it
+  const clearShared = useCallback(() => {
+    sharedRef.current = null;
+    setShared(null);
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }, []);
+
+  // Re-read the device list without touching permissions or streams
+  const refreshDevices = useCallback(async (): Promise<CameraDevice[]> => {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    const videoDevices = devices
+      .filter(device => device.kind === 'videoinput')
+      .map(device => ({
+        deviceId: device.deviceId,
+        label: device.label || `Camera ${device.deviceId.slice(0, 5)}...`
+      }));
+    setDevices(videoDevices);
+    return videoDevices;
+  }, []);
 
   // Get list of cameras
   const getCameras = useCallback(async () => {
     try {
-      await navigator.mediaDevices.getUserMedia({ video: true }); // Request perm first
-      const devices = await navigator.mediaDevices.enumerateDevices();
-      const videoDevices = devices
-        .filter(device => device.kind === 'videoinput')
-        .map(device => ({
-          deviceId: device.deviceId,
-          label: device.label || `Camera ${device.deviceId.slice(0, 5)}...`
-        }));
-      setDevices(videoDevices);
+      const permissionStream = await navigator.mediaDevices.getUserMedia({ video: true }); // Request perm first
+      permissionStream.getTracks().forEach(track => track.stop());
+      const videoDevices = await refreshDevices();
       if (videoDevices.length > 0 && !selectedDeviceId) {
         setSelectedDeviceId(videoDevices[0].deviceId);
       }
     } catch (err) {
       setError("Failed to access camera permissions. Please allow camera access.");
     }
-  }, [selectedDeviceId]);
+  }, [selectedDeviceId, refreshDevices]);
 
   useEffect(() => {
     getCameras();
   }, [getCameras]);
 
+  // Switch to the camera a share link was made for, if it's connected
+  useEffect(() => {
+    if (!shared) return;
+    const match = devices.find(d => sharedConfigMatchesDevice(shared, d));
+    if (match && match.deviceId !== selectedDeviceId) setSelectedDeviceId(match.deviceId);
+  }, [shared, devices, selectedDeviceId]);
+
+  // Apply constraints when settings change
+  const applyConstraint = useCallback(async (constraint: any) => {
+    if (!streamRef.current) return;
+    const track = streamRef.current.getVideoTracks()[0];
+    const status = await applyConstraintSet(track, constraint, capabilitiesRef.current);
+    setControlStatus(prev => ({ ...prev, ...status }));
+  }, []);
+
+  // Push a complete settings object to the camera, skipping unsupported controls
+  const applyAllSettings = useCallback(async (next: CameraSettings, caps: CameraCapabilities) => {
+    await applyConstraint(buildConstraintSet(next, caps));
+  }, [applyConstraint]);
+
+  // Profiles, share links and snapshots may have been made with another camera;
+  // fit them to this one's ranges before showing and applying them
+  const loadSettings = useCallback((next: CameraSettings, caps: CameraCapabilities) => {
+    const fitted = clampSettings(next, caps).settings;
+    setSettings(fitted);
+    return applyAllSettings(fitted, caps);
+  }, [applyAllSettings]);
+
   // Start stream and read capabilities
   const startStream = useCallback(async () => {
     if (!selectedDeviceId) return;
 
-    // Stop previous stream
+    // Stop previous stream (and any sweep, exposure suggestion or recording using it)
+    sweepAbortRef.current?.abort();
+    suggestAbortRef.current?.abort();
+    recordAbortRef.current?.abort();
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
     }
 
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          deviceId: { exact: selectedDeviceId },
-          width: { ideal: 1920 },
-          height: { ideal: 1080 },
-          // Try to request capabilities immediately if possible
-          advanced: [{ focusMode: 'continuous' } as any] 
-        }
-      });
+      const { stream, track, capabilities: caps, trackSettings: currentSettings } = await openCamera(
+        selectedDeviceId,
+        { width: 1920, height: 1080 },
+        // Try to request capabilities immediately if possible
+        [{ focusMode: 'continuous' } as MediaTrackConstraintSet]
+      );
 
       streamRef.current = stream;
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
       }
 
-      const track = stream.getVideoTracks()[0];
-      const caps = track.getCapabilities() as CameraCapabilities;
-      const currentSettings = track.getSettings();
+      // 'ended' fires when the camera is unplugged (not when we stop() it ourselves)
+      track.addEventListener('ended', () => {
+        lostDeviceRef.current = { deviceId: selectedDeviceId, label: track.label };
+        restoreSettingsRef.current = settingsRef.current;
+        setConnection('reconnecting');
+      });
+      track.addEventListener('mute', () => setConnection('reconnecting'));
+      track.addEventListener('unmute', () => {
+        setConnection('live');
+        applyAllSettings(settingsRef.current, capabilitiesRef.current);
+      });
 
+      capabilitiesRef.current = caps;
       setCapabilities(caps);
+      setControlStatus({});
+      setDrift([]);
       
-      // Initialize state with current hardware values
-      setSettings(prev => ({
-        ...prev,
-        // @ts-ignore
-        focusMode: currentSettings.focusMode || 'continuous',
-        // @ts-ignore
-        focusDistance: currentSettings.focusDistance || caps.focusDistance?.min || 0,
-        // @ts-ignore
-        zoom: currentSettings.zoom || caps.zoom?.min || 1,
-        // @ts-ignore
-        brightness: currentSettings.brightness || caps.brightness?.min || 100,
-        // @ts-ignore
-        contrast: currentSettings.contrast || caps.contrast?.min || 100,
-      }));
+      // A reconnect reads back our own values, not the camera's
+      if (!restoreSettingsRef.current) setHardwareDefaults(readHardwareSettings(currentSettings, caps));
+
+      // Initialize state with current hardware values; anything the camera
+      // doesn't report keeps its previous value, fitted to this camera's range
+      setSettings(prev => initialSettings(prev, currentSettings, caps));
       
+      // After a reconnect, put back exactly what was set before the camera dropped;
+      // otherwise apply a share link made for this camera, or restore the last
+      // profile used with it
+      const restore = restoreSettingsRef.current;
+      const share = sharedRef.current;
+      const lastProfile = getLastProfile({ deviceId: selectedDeviceId, label: track.label });
+      if (restore) {
+        restoreSettingsRef.current = null;
+        lostDeviceRef.current = null;
+        await loadSettings(restore, caps);
+      } else if (share && sharedConfigMatchesDevice(share, { deviceId: selectedDeviceId, label: track.label })) {
+        clearShared();
+        setActiveProfileId(null);
+        await loadSettings(share.settings, caps);
+      } else if (lastProfile) {
+        setActiveProfileId(lastProfile.id);
+        await loadSettings(lastProfile.settings, caps);
+      } else {
+        setActiveProfileId(null);
+      }
+
+      setConnection('live');
       setError(null);
 
     } catch (err) {
       console.error(err);
+      // Still waiting for the camera to come back; devicechange will retry
+      if (restoreSettingsRef.current) return;
       setError("Failed to start video stream. The camera might be in use by another app.");
     }
-  }, [selectedDeviceId]);
+  }, [selectedDeviceId, applyAllSettings, loadSettings, clearShared]);
 
   useEffect(() => {
-    if (selectedDeviceId) {
+    // The dashboard opens its own streams; release the camera for it
+    if (selectedDeviceId && !isDashboard) {
       startStream();
     }
     return () => {
+      recordAbortRef.current?.abort();
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
       }
     };
-  }, [selectedDeviceId, startStream]);
+  }, [selectedDeviceId, isDashboard, startStream]);
 
-  // Apply constraints when settings change
-  const applyConstraint = async (constraint: any) => {
-    if (!streamRef.current) return;
-    const track = streamRef.current.getVideoTracks()[0];
-    try {
-      await track.applyConstraints({
-        advanced: [constraint]
-      });
-    } catch (err) {
-      console.warn("Failed to apply constraint:", constraint, err);
-    }
-  };
+  // Keep the device list live and bring a dropped camera back when it reappears
+  useEffect(() => {
+    const handleDeviceChange = async () => {
+      const videoDevices = await refreshDevices();
+      const lost = lostDeviceRef.current;
+      if (!lost) return;
+      const back = videoDevices.find(d => d.deviceId === lost.deviceId)
+        ?? videoDevices.find(d => !!lost.label && d.label === lost.label);
+      if (!back) return;
+      if (back.deviceId === selectedDeviceId) {
+        startStream();
+      } else {
+        // Same camera, new deviceId (e.g. different USB port): the effect above restarts the stream
+        setSelectedDeviceId(back.deviceId);
+      }
+    };
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [refreshDevices, selectedDeviceId, startStream]);
+
+  // Poll the track so silent driver resets don't go unnoticed
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const track = streamRef.current?.getVideoTracks()[0];
+      if (!track || track.readyState !== 'live' || sweepAbortRef.current || suggestAbortRef.current) return;
+      const drifted = detectDrift(settingsRef.current, track.getSettings(), capabilitiesRef.current);
+      setDrift(prev => (prev.length === 0 && drifted.length === 0 ? prev : drifted));
+      if (drifted.length > 0 && autoReapply) {
+        applyAllSettings(settingsRef.current, capabilitiesRef.current);
+      }
+    }, DRIFT_POLL_MS);
+    return () => clearInterval(timer);
+  }, [autoReapply, applyAllSettings]);
+
+  // Apply the profile of the current time window whenever a new window starts
+  useEffect(() => {
+    appliedWindowRef.current = null;
+  }, [schedule?.deviceId, schedule?.enabled]);
+
+  useEffect(() => {
+    if (!schedule?.enabled) return;
+    const check = () => {
+      // Don't interfere with a running sweep or exposure suggestion; the next check catches up
+      if (!streamRef.current || sweepAbortRef.current || suggestAbortRef.current) return;
+      const entry = activeEntry(schedule.entries);
+      const profile = entry && profiles.find(p => p.id === entry.profileId);
+      const key = entry && `${entry.id}:${entry.profileId}`;
+      if (!profile || key === appliedWindowRef.current) return;
+      appliedWindowRef.current = key;
+      setActiveProfileId(profile.id);
+      setLastProfile({ deviceId: schedule.deviceId, label: schedule.cameraLabel }, profile.id);
+      loadSettings(profile.settings, capabilitiesRef.current);
+    };
+    check();
+    const timer = setInterval(check, SCHEDULE_POLL_MS);
+    return () => clearInterval(timer);
+  }, [schedule, profiles, capabilities, loadSettings]);
 
   const updateSetting = (key: keyof CameraSettings, value: any) => {
     setSettings(prev => ({ ...prev, [key]: value }));
     applyConstraint({ [key]: value });
   };
 
+  // Live Adjustments panel; keyboard fine control works while focus is inside it
+  const adjustmentsRef = useRef<HTMLDivElement>(null);
+
+  const fineControl = useFineControl({
+    controls: supportedControls(capabilities),
+    settings,
+    capabilities,
+    defaults: hardwareDefaults,
+    onChange: updateSetting,
+    enabled: !isDashboard && !showGallery && !isDrawingRoi,
+    gamepad: gamepadEnabled,
+    scope: adjustmentsRef,
+  });
+
   const toggleFocusMode = () => {
     const newMode = settings.focusMode === 'continuous' ? 'manual' : 'continuous';
     updateSetting('focusMode', newMode);
   };
 
+  const setRegionOfInterest = (roi: RegionOfInterest | undefined) => {
+    setSettings(prev => ({ ...prev, regionOfInterest: roi }));
+    setIsDrawingRoi(false);
+    if (roi && capabilities.pointsOfInterest) {
+      applyConstraint({ pointsOfInterest: [{ x: roi.x + roi.width / 2, y: roi.y + roi.height / 2 }] });
+    }
+  };
+
+  const selectedDevice = devices.find(d => d.deviceId === selectedDeviceId);
+  const deviceProfiles = selectedDevice ? profilesForDevice(profiles, selectedDevice) : [];
+
+  useEffect(() => {
+    setSchedule(selectedDevice ? loadSchedule(selectedDevice) : null);
+  }, [selectedDevice?.deviceId, selectedDevice?.label]);
+
+  const updateSchedule = (next: Pick<SettingsSchedule, 'enabled' | 'entries'>) => {
+    if (!selectedDevice) return;
+    try {
+      setSchedule(saveSchedule(selectedDevice, next));
+    } catch (err) {
+      alert(`Schedule not saved: ${(err as Error).message}`);
+    }
+  };
+
+  // Same "Name (vendor:product)" shape as browser labels, so USB ID pinning picks it up
+  const importedLabel = imported
+    ? `${imported.cameraName ?? 'Imported Camera'}${imported.usbId ? ` (${formatUsbId(imported.usbId)})` : ''}`
+    : '';
+
+  // A share link whose camera isn't connected can still be applied to this one
+  const applySharedHere = () => {
+    if (!shared) return;
+    setActiveProfileId(null);
+    loadSettings(shared.settings, capabilities);
+    clearShared();
+  };
+
+  const selectProfile = (profile: SettingsProfile) => {
+    setActiveProfileId(profile.id);
+    if (selectedDevice) setLastProfile(selectedDevice, profile.id);
+    loadSettings(profile.settings, capabilities);
+  };
+
+  const handleSaveProfile = (name: string) => {
+    if (!selectedDevice) return;
+    const profile = saveProfile(name, selectedDevice, settings);
+    setProfiles(loadProfiles());
+    setActiveProfileId(profile.id);
+  };
+
+  const handleDeleteProfile = (profile: SettingsProfile) => {
+    deleteProfile(profile.id);
+    setProfiles(loadProfiles());
+    setActiveProfileId(null);
+    if (selectedDevice) setLastProfile(selectedDevice, null);
+  };
+
+  const handleExportProfiles = () => {
+    downloadFile(exportProfiles(profiles), 'application/json', 'focuslock-profiles.json');
+  };
+
+  const handleImportProfiles = (text: string) => {
+    try {
+      importProfiles(text);
+      setProfiles(loadProfiles());
+    } catch (err) {
+      alert(`Import failed: ${(err as Error).message}`);
+    }
+  };
+
+  const startFocusSweep = async () => {
+    const range = capabilities.focusDistance;
+    const video = videoRef.current;
+    if (!range || !video || isSweeping) return;
+
+    const controller = new AbortController();
+    sweepAbortRef.current = controller;
+    const previous = { focusMode: settings.focusMode, focusDistance: settings.focusDistance };
+    setSweepSamples([]);
+    setSweepBest(null);
+    setIsSweeping(true);
+
+    const moveTo = async (focusDistance: number) => {
+      setSettings(prev => ({ ...prev, focusMode: 'manual', focusDistance }));
+      await applyConstraint({ focusMode: 'manual', focusDistance });
+    };
+
+    try {
+      const best = await runFocusSweep({
+        range,
+        apply: moveTo,
+        measure: () => sampleSharpness(video, 3, settings.regionOfInterest),
+        onSample: sample => setSweepSamples(prev => [...prev, sample]),
+        signal: controller.signal,
+      });
+      await moveTo(best);
+      setSweepBest(best);
+    } catch (err) {
+      if (!controller.signal.aborted) console.error("Focus sweep failed:", err);
+      setSettings(prev => ({ ...prev, ...previous }));
+      await applyConstraint(previous);
+    } finally {
+      sweepAbortRef.current = null;
+      setIsSweeping(false);
+    }
+  };
+
+  const cancelFocusSweep = () => {
+    sweepAbortRef.current?.abort();
+  };
+
+  const startRecording = async () => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    const video = videoRef.current;
+    if (!track || !video || isRecording) return;
+
+    const controller = new AbortController();
+    recordAbortRef.current = controller;
+    // Samples are appended in place; a new object each redraw re-renders the chart
+    const current: Recording = {
+      deviceId: selectedDeviceId,
+      cameraLabel: track.label,
+      startedAt: new Date().toISOString(),
+      rateHz: recordRate,
+      samples: [],
+    };
+    const redraw = () => setRecording(prev => (prev?.samples === current.samples ? { ...current } : prev));
+    let lastRedraw = 0;
+    setRecording(current);
+    setIsRecording(true);
+
+    try {
+      await runRecorder({
+        rateHz: recordRate,
+        // One frame per sample keeps up at high rates; the plot shows the noise anyway
+        read: async () => ({
+          sharpness: await sampleSharpness(video, 1, settingsRef.current.regionOfInterest),
+          values: readTrackValues(track.getSettings()),
+        }),
+        onSample: sample => {
+          current.samples.push(sample);
+          if (sample.t - lastRedraw >= RECORDER_REDRAW_MS) {
+            lastRedraw = sample.t;
+            redraw();
+          }
+        },
+        signal: controller.signal,
+      });
+    } catch (err) {
+      console.error("Recording failed:", err);
+    } finally {
+      recordAbortRef.current = null;
+      redraw();
+      setIsRecording(false);
+    }
+  };
+
+  const startExposureSuggest = async () => {
+    const video = videoRef.current;
+    if (!video || isSuggesting || (!capabilities.brightness && !capabilities.contrast)) return;
+
+    const controller = new AbortController();
+    suggestAbortRef.current = controller;
+    const previous = { brightness: settings.brightness, contrast: settings.contrast };
+    setIsSuggesting(true);
+
+    const applyExposure = async (values: typeof previous) => {
+      const constraint = {
+        ...(capabilities.brightness ? { brightness: values.brightness } : {}),
+        ...(capabilities.contrast ? { contrast: values.contrast } : {}),
+      };
+      setSettings(prev => ({ ...prev, ...constraint }));
+      await applyConstraint(constraint);
+    };
+
+    try {
+      const best = await runExposureSuggest({
+        start: previous,
+        brightnessRange: capabilities.brightness,
+        contrastRange: capabilities.contrast,
+        apply: applyExposure,
+        measure: async () => histogramStats(await sampleHistogram(video)),
+        signal: controller.signal,
+      });
+      await applyExposure(best);
+    } catch (err) {
+      if (!controller.signal.aborted) console.error("Exposure suggestion failed:", err);
+      await applyExposure(previous);
+    } finally {
+      suggestAbortRef.current = null;
+      setIsSuggesting(false);
+    }
+  };
+
+  const captureSnapshot = async () => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    const video = videoRef.current;
+    if (!track || !video || !selectedDevice || isCapturing) return;
+
+    setIsCapturing(true);
+    try {
+      // Read everything describing the frame before takePhoto, which may briefly reconfigure the camera
+      const captured = {
+        settings: { ...settings },
+        trackSettings: { ...track.getSettings() } as Record<string, unknown>,
+        sharpness: await sampleSharpness(video, 3, settings.regionOfInterest),
+        capturedAt: new Date().toISOString(),
+      };
+      const still = await captureStill(track, video);
+      const snapshot: Snapshot = {
+        id: crypto.randomUUID(),
+        deviceId: selectedDevice.deviceId,
+        cameraLabel: selectedDevice.label,
+        ...captured,
+        ...still,
+      };
+      await saveSnapshot(snapshot);
+      setSnapshots(prev => [...prev, snapshot]);
+    } catch (err) {
+      console.error("Snapshot failed:", err);
+      alert(`Snapshot failed: ${(err as Error).message}`);
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const restoreSnapshot = (snapshot: Snapshot) => {
+    setActiveProfileId(null);
+    loadSettings(snapshot.settings, capabilities);
+    setShowGallery(false);
+  };
+
+  const removeSnapshot = async (snapshot: Snapshot) => {
+    try {
+      await deleteSnapshot(snapshot.id);
+      setSnapshots(prev => prev.filter(s => s.id !== snapshot.id));
+    } catch (err) {
+      console.warn("Could not delete snapshot:", err);
+    }
+  };
+
+  const sharpnessBadge = (
+    <span className="text-xs font-mono px-1.5 py-0.5 rounded bg-gray-900 text-fuchsia-400" title="Sharpness (variance of Laplacian)">
+      {settings.regionOfInterest ? 'ROI ' : ''}Sharpness {sharpness.toFixed(0)}
+    </span>
+  );
+
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 p-4 md:p-8 font-sans">
       
@@ -148,127 +668,389 @@ const App: React.FC = () => {
           <p className="text-gray-400 mt-1 text-sm">Webcam Control & Persistence Utility</p>
         </div>
         
-        <div className="flex items-center gap-3 bg-gray-800 p-2 rounded-lg border border-gray-700 shadow-sm">
-          <Video className="w-5 h-5 text-gray-400" />
-          <select 
-            value={selectedDeviceId} 
-            onChange={(e) => setSelectedDeviceId(e.target.value)}
-            className="bg-transparent border-none focus:ring-0 text-sm font-medium text-white max-w-[200px] truncate"
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => setIsDashboard(d => !d)}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+              isDashboard
+                ? 'bg-primary-600 border-primary-500 text-white'
+                : 'bg-gray-800 border-gray-700 text-gray-300 hover:text-white'
+            }`}
+            title="Show every camera at once"
           >
-            {devices.map(d => (
-              <option key={d.deviceId} value={d.deviceId} className="bg-gray-800">
-                {d.label}
-              </option>
-            ))}
-          </select>
-          <button onClick={getCameras} className="p-1 hover:bg-gray-700 rounded-full transition-colors" title="Refresh Devices">
-            <RefreshCw className="w-4 h-4 text-gray-400" />
+            <LayoutGrid className="w-4 h-4" />
+            Dashboard
           </button>
+          {!isDashboard && (
+            <ProfileMenu
+              profiles={deviceProfiles}
+              activeProfileId={activeProfileId}
+              onSelect={selectProfile}
+              onSave={handleSaveProfile}
+              onDelete={handleDeleteProfile}
+              onExport={handleExportProfiles}
+              onImport={handleImportProfiles}
+            />
+          )}
+          <div className="flex items-center gap-3 bg-gray-800 p-2 rounded-lg border border-gray-700 shadow-sm">
+            <Video className="w-5 h-5 text-gray-400" />
+            <select 
+              value={selectedDeviceId} 
+              onChange={(e) => setSelectedDeviceId(e.target.value)}
+              className="bg-transparent border-none focus:ring-0 text-sm font-medium text-white max-w-[200px] truncate"
+            >
+              {devices.map(d => (
+                <option key={d.deviceId} value={d.deviceId} className="bg-gray-800">
+                  {d.label}
+                </option>
+              ))}
+            </select>
+            <button onClick={getCameras} className="p-1 hover:bg-gray-700 rounded-full transition-colors" title="Refresh Devices">
+              <RefreshCw className="w-4 h-4 text-gray-400" />
+            </button>
+          </div>
         </div>
       </header>
 
+      {shareError && (
+        <div className="max-w-7xl mx-auto mb-6 px-4 py-3 bg-red-900/30 border border-red-800 rounded-lg text-sm text-red-300 flex items-center justify-between gap-3">
+          <span className="flex items-center gap-2">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            {shareError}
+          </span>
+          <button onClick={() => setShareError(null)} className="p-1 hover:bg-red-900/50 rounded transition-colors" title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {shared && devices.length > 0 && !devices.some(d => sharedConfigMatchesDevice(shared, d)) && (
+        <div className="max-w-7xl mx-auto mb-6 px-4 py-3 bg-amber-900/30 border border-amber-800 rounded-lg text-sm text-amber-200 flex flex-col md:flex-row md:items-center justify-between gap-3">
+          <span className="flex items-center gap-2">
+            <Link className="w-4 h-4 shrink-0" />
+            This link has settings for {shared.cameraLabel || 'another camera'}, which isn't connected.
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={applySharedHere}
+              disabled={!selectedDevice || isDashboard}
+              className="px-3 py-1 rounded bg-amber-600 hover:bg-amber-500 text-white text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Apply to this camera
+            </button>
+            <button
+              onClick={clearShared}
+              className="px-3 py-1 rounded bg-gray-800 hover:bg-gray-700 text-gray-300 text-xs transition-colors"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Main Grid */}
-      <main className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-12 gap-6 h-[calc(100vh-140px)]">
+      {isDashboard ? (
+        <CameraDashboard devices={devices} />
+      ) : (
+        <main className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-12 gap-6 h-[calc(100vh-140px)]">
         
-        {/* Left Col: Preview & Live Controls */}
-        <div className="lg:col-span-7 flex flex-col gap-6 h-full">
+          {/* Left Col: Preview & Live Controls */}
+          <div className="lg:col-span-7 flex flex-col gap-6 h-full">
           
-          {/* Video Preview */}
-          <div className="bg-black rounded-xl overflow-hidden border border-gray-700 shadow-2xl relative aspect-video flex items-center justify-center group">
-            <video 
-              ref={videoRef} 
-              autoPlay 
-              playsInline 
-              className="w-full h-full object-contain"
-            />
-            {error && (
-              <div className="absolute inset-0 bg-black/80 flex flex-col items-center justify-center text-red-400 p-6 text-center">
-                <AlertCircle className="w-12 h-12 mb-2" />
-                <p>{error}</p>
-                <button 
-                  onClick={() => window.location.reload()} 
-                  className="mt-4 px-4 py-2 bg-red-900/50 rounded hover:bg-red-900 transition"
+            {/* Video Preview */}
+            <div className="bg-black rounded-xl overflow-hidden border border-gray-700 shadow-2xl relative aspect-video flex items-center justify-center group">
+              <video 
+                ref={videoRef} 
+                autoPlay 
+                playsInline 
+                className="w-full h-full object-contain"
+              />
+              <FocusAssistOverlay
+                videoRef={videoRef}
+                showPeaking={showPeaking}
+                regionOfInterest={settings.regionOfInterest}
+                onScore={setSharpness}
+              />
+              <ExposureAssistOverlay
+                videoRef={videoRef}
+                showZebras={showZebras}
+                onHistogram={setHistogram}
+              />
+              <RoiSelector
+                videoRef={videoRef}
+                regionOfInterest={settings.regionOfInterest}
+                isDrawing={isDrawingRoi}
+                onChange={setRegionOfInterest}
+              />
+              {connection === 'reconnecting' && !error && (
+                <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center text-amber-300 p-6 text-center">
+                  <Loader2 className="w-10 h-10 mb-2 animate-spin" />
+                  <p className="font-medium">Camera disconnected. Waiting for it to reconnect...</p>
+                  <p className="text-xs text-gray-400 mt-1">Locked settings will be re-applied automatically.</p>
+                </div>
+              )}
+              {error && (
+                <div className="absolute inset-0 bg-black/80 flex flex-col items-center justify-center text-red-400 p-6 text-center">
+                  <AlertCircle className="w-12 h-12 mb-2" />
+                  <p>{error}</p>
+                  <button 
+                    onClick={() => window.location.reload()} 
+                    className="mt-4 px-4 py-2 bg-red-900/50 rounded hover:bg-red-900 transition"
+                  >
+                    Reload App
+                  </button>
+                </div>
+              )}
+              <div className="absolute top-4 left-4 px-2 py-1 bg-black/50 backdrop-blur rounded text-xs text-gray-300 font-mono">
+                LIVE PREVIEW
+              </div>
+              <div className="absolute top-4 right-4 flex gap-2">
+                {settings.regionOfInterest && (
+                  <button
+                    onClick={() => setRegionOfInterest(undefined)}
+                    className="px-2 py-1 bg-black/50 backdrop-blur rounded text-xs font-mono text-amber-300 hover:text-white flex items-center gap-1 transition-colors"
+                    title="Clear region of interest"
+                  >
+                    <X className="w-3 h-3" />
+                    CLEAR ROI
+                  </button>
+                )}
+                <button
+                  onClick={() => setIsDrawingRoi(d => !d)}
+                  className={`px-2 py-1 backdrop-blur rounded text-xs font-mono flex items-center gap-1 transition-colors ${
+                    isDrawingRoi ? 'bg-amber-500/80 text-black' : 'bg-black/50 text-gray-300 hover:text-white'
+                  }`}
+                  title="Drag a rectangle on the preview to choose what must be sharp"
+                >
+                  <BoxSelect className="w-3 h-3" />
+                  ROI
+                </button>
+                <button
+                  onClick={() => setShowPeaking(p => !p)}
+                  className={`px-2 py-1 backdrop-blur rounded text-xs font-mono flex items-center gap-1 transition-colors ${
+                    showPeaking ? 'bg-fuchsia-600/80 text-white' : 'bg-black/50 text-gray-300 hover:text-white'
+                  }`}
+                  title="Toggle focus peaking overlay"
+                >
+                  <Focus className="w-3 h-3" />
+                  PEAKING
+                </button>
+                <button
+                  onClick={() => setShowZebras(z => !z)}
+                  className={`px-2 py-1 backdrop-blur rounded text-xs font-mono flex items-center gap-1 transition-colors ${
+                    showZebras ? 'bg-red-600/80 text-white' : 'bg-black/50 text-gray-300 hover:text-white'
+                  }`}
+                  title="Stripe clipped highlights (red) and shadows (blue)"
+                >
+                  <Contrast className="w-3 h-3" />
+                  ZEBRAS
+                </button>
+                <button
+                  onClick={captureSnapshot}
+                  disabled={isCapturing || !!error}
+                  className="px-2 py-1 bg-black/50 backdrop-blur rounded text-xs font-mono text-gray-300 hover:text-white flex items-center gap-1 transition-colors disabled:opacity-50"
+                  title="Capture a full-resolution still with the current settings"
+                >
+                  {isCapturing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Aperture className="w-3 h-3" />}
+                  SNAP
+                </button>
+                <button
+                  onClick={() => setShowGallery(true)}
+                  className="px-2 py-1 bg-black/50 backdrop-blur rounded text-xs font-mono text-gray-300 hover:text-white flex items-center gap-1 transition-colors"
+                  title="Compare captured snapshots"
                 >
-                  Reload App
+                  <GalleryHorizontal className="w-3 h-3" />
+                  {snapshots.length}
                 </button>
               </div>
-            )}
-            <div className="absolute top-4 left-4 px-2 py-1 bg-black/50 backdrop-blur rounded text-xs text-gray-300 font-mono">
-              LIVE PREVIEW
-            </div>
-          </div>
-
-          {/* Quick Controls */}
-          <div className="bg-gray-800 rounded-xl p-6 border border-gray-700 flex-1">
-            <div className="flex items-center gap-2 mb-6">
-              <Settings2 className="w-5 h-5 text-primary-500" />
-              <h2 className="text-xl font-bold">Live Adjustments</h2>
             </div>
 
-            <div className="space-y-6">
-              {/* Autofocus Toggle */}
-              <div className="flex items-center justify-between p-4 bg-gray-900/50 rounded-lg border border-gray-700">
-                <div>
-                  <h3 className="font-medium text-white">Autofocus</h3>
-                  <p className="text-xs text-gray-400">
-                    {settings.focusMode === 'continuous' ? 'Camera is adjusting focus automatically' : 'Focus is locked to manual value'}
-                  </p>
-                </div>
+            {/* Quick Controls; tabIndex lets a click anywhere in it take focus for the shortcuts */}
+            <div
+              ref={adjustmentsRef}
+              tabIndex={-1}
+              className="bg-gray-800 rounded-xl p-6 border border-gray-700 flex-1 overflow-y-auto scrollbar-thin outline-none"
+            >
+              <div className="flex items-center gap-2 mb-6">
+                <Settings2 className="w-5 h-5 text-primary-500" />
+                <h2 className="text-xl font-bold">Live Adjustments</h2>
+                <span
+                  className="ml-auto p-1.5 text-gray-500 hover:text-gray-300 cursor-help"
+                  title={['Click a control in this panel, then:', ...KEYBOARD_SHORTCUTS.map(s => `${s.keys}: ${s.description}`)].join('\n')}
+                >
+                  <Keyboard className="w-4 h-4" />
+                </span>
                 <button
-                  onClick={toggleFocusMode}
-                  className={`px-4 py-2 rounded-lg text-sm font-bold transition-all ${
-                    settings.focusMode === 'continuous'
-                      ? 'bg-primary-600 hover:bg-primary-500 text-white shadow-[0_0_15px_rgba(14,165,233,0.3)]'
-                      : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                  onClick={() => setGamepadEnabled(g => !g)}
+                  className={`p-1.5 rounded-md transition-colors ${
+                    gamepadEnabled ? 'bg-primary-600 text-white' : 'bg-gray-900 text-gray-400 hover:text-white'
                   }`}
+                  title={`Gamepad fine control${fineControl.gamepadConnected ? '' : ' (press a button on the controller to connect it)'}: left stick nudges the active control, A toggles AUTO, X resets, bumpers cycle controls`}
                 >
-                  {settings.focusMode === 'continuous' ? 'AUTO' : 'MANUAL'}
+                  <Gamepad2 className={`w-4 h-4 ${gamepadEnabled && !fineControl.gamepadConnected ? 'opacity-50' : ''}`} />
                 </button>
               </div>
 
-              {/* Manual Focus Slider - Only enabled if manual mode OR if user forces it */}
-              <ControlSlider
-                label="Manual Focus Distance"
-                value={settings.focusDistance}
-                min={capabilities.focusDistance?.min ?? 0}
-                max={capabilities.focusDistance?.max ?? 1}
-                step={capabilities.focusDistance?.step ?? 0.01}
-                onChange={(val) => updateSetting('focusDistance', val)}
-                disabled={settings.focusMode === 'continuous'}
-              />
+              <div className="space-y-6">
+                <DriftMonitor
+                  drift={drift}
+                  autoReapply={autoReapply}
+                  onAutoReapplyChange={setAutoReapply}
+                  onReapply={() => applyAllSettings(settings, capabilities)}
+                />
+
+                {agent && (
+                  <NativeAgentPanel
+                    agent={agent}
+                    device={selectedDevice}
+                    settings={settings}
+                    capabilities={capabilities}
+                    onPaired={checkAgent}
+                  />
+                )}
+
+                {/* Autofocus Toggle */}
+                <div
+                  className={`flex items-center justify-between p-4 bg-gray-900/50 rounded-lg border transition-colors ${
+                    fineControl.activeKey === 'focusMode' ? 'border-primary-500/60' : 'border-gray-700'
+                  }`}
+                  onPointerDown={() => fineControl.setActiveKey('focusMode')}
+                >
+                  <div>
+                    <h3 className="font-medium text-white flex items-center gap-2">
+                      Autofocus
+                      <ControlStatusBadge status={controlStatus.focusMode} />
+                    </h3>
+                    <p className="text-xs text-gray-400">
+                      {settings.focusMode === 'continuous' ? 'Camera is adjusting focus automatically' : 'Focus is locked to manual value'}
+                    </p>
+                  </div>
+                  <button
+                    onClick={toggleFocusMode}
+                    className={`px-4 py-2 rounded-lg text-sm font-bold transition-all ${
+                      settings.focusMode === 'continuous'
+                        ? 'bg-primary-600 hover:bg-primary-500 text-white shadow-[0_0_15px_rgba(14,165,233,0.3)]'
+                        : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                    }`}
+                  >
+                    {settings.focusMode === 'continuous' ? 'AUTO' : 'MANUAL'}
+                  </button>
+                </div>
+
+                {/* Manual Focus Slider - Only enabled if manual mode OR if user forces it */}
+                {capabilities.focusDistance ? (
+                  <ControlSlider
+                    label="Manual Focus Distance"
+                    value={settings.focusDistance}
+                    min={capabilities.focusDistance.min}
+                    max={capabilities.focusDistance.max}
+                    step={capabilities.focusDistance.step}
+                    onChange={(val) => updateSetting('focusDistance', val)}
+                    disabled={settings.focusMode === 'continuous'}
+                    defaultValue={hardwareDefaults.focusDistance}
+                    active={fineControl.activeKey === 'focusDistance'}
+                    onActivate={() => fineControl.setActiveKey('focusDistance')}
+                    badge={
+                      <>
+                        <ControlStatusBadge status={controlStatus.focusDistance} />
+                        {sharpnessBadge}
+                      </>
+                    }
+                  />
+                ) : (
+                  <div className="flex justify-between items-center mb-4">
+                    <span className="text-sm font-medium text-gray-600">Manual focus not supported by this camera</span>
+                    {sharpnessBadge}
+                  </div>
+                )}
+
+                <FocusSweepPanel
+                  samples={sweepSamples}
+                  isRunning={isSweeping}
+                  bestDistance={sweepBest}
+                  disabled={!capabilities.focusDistance}
+                  onStart={startFocusSweep}
+                  onCancel={cancelFocusSweep}
+                />
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <ControlSlider
-                  label="Zoom"
-                  value={settings.zoom}
-                  min={capabilities.zoom?.min ?? 1}
-                  max={capabilities.zoom?.max ?? 5}
-                  step={capabilities.zoom?.step ?? 0.1}
-                  onChange={(val) => updateSetting('zoom', val)}
-                  unit="x"
+                <RecorderPanel
+                  recording={recording}
+                  isRecording={isRecording}
+                  rateHz={recordRate}
+                  onRateChange={setRecordRate}
+                  onStart={startRecording}
+                  onStop={() => recordAbortRef.current?.abort()}
+                  onClear={() => setRecording(null)}
+                  disabled={!!error}
                 />
-                <ControlSlider
-                  label="Brightness"
-                  value={settings.brightness}
-                  min={capabilities.brightness?.min ?? 0}
-                  max={capabilities.brightness?.max ?? 255}
-                  step={capabilities.brightness?.step ?? 1}
-                  onChange={(val) => updateSetting('brightness', val)}
+
+                {schedule && (
+                  <SchedulePanel
+                    schedule={schedule}
+                    profiles={deviceProfiles}
+                    onChange={updateSchedule}
+                  />
+                )}
+
+                <HistogramPanel
+                  histogram={histogram}
+                  isSuggesting={isSuggesting}
+                  disabled={!capabilities.brightness && !capabilities.contrast}
+                  onSuggest={startExposureSuggest}
+                  onCancel={() => suggestAbortRef.current?.abort()}
                 />
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6">
+                  {supportedControls(capabilities)
+                    .filter(control => control.group !== 'focus')
+                    .map(control => (
+                      <CameraControl
+                        key={control.key}
+                        control={control}
+                        capabilities={capabilities}
+                        settings={settings}
+                        onChange={updateSetting}
+                        badge={<ControlStatusBadge status={controlStatus[control.key]} />}
+                        defaultValue={hardwareDefaults[control.key]}
+                        active={fineControl.activeKey === control.key}
+                        onActivate={() => fineControl.setActiveKey(control.key)}
+                      />
+                    ))}
+                </div>
               </div>
             </div>
           </div>
-        </div>
 
-        {/* Right Col: Script Generator */}
-        <div className="lg:col-span-5 h-full">
-           <ScriptGenerator 
-             currentSettings={settings} 
-             cameraLabel={devices.find(d => d.deviceId === selectedDeviceId)?.label || ''} 
-           />
-        </div>
+          {/* Right Col: Script Generator */}
+          <div className="lg:col-span-5 h-full flex flex-col gap-6">
+             <NativeImportPanel
+               imported={imported}
+               onImport={setImported}
+               onClear={() => setImported(null)}
+             />
+             <div className="flex-1 min-h-0">
+               <ScriptGenerator 
+                 currentSettings={imported?.settings ?? settings} 
+                 capabilities={imported?.capabilities ?? capabilities}
+            nativeRanges={imported?.capabilities}
+                 cameraLabel={imported ? importedLabel : selectedDevice?.label || ''} 
+                 sharedTarget={sharedTarget}
+                 schedule={!imported && schedule?.enabled ? scheduleSlots(schedule.entries, deviceProfiles) : undefined}
+               />
+             </div>
+          </div>
+
+        </main>
+      )}
 
-      </main>
+      {showGallery && (
+        <SnapshotGallery
+          snapshots={snapshots}
+          onRestore={restoreSnapshot}
+          onDelete={removeSnapshot}
+          onClose={() => setShowGallery(false)}
+        />
+      )}
     </div>
   );
 };
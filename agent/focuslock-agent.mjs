@@ -0,0 +1,129 @@
+#!/usr/bin/env node
+// FocusLock companion agent (reference implementation, Linux).
+// Serves the agent protocol on 127.0.0.1 and applies settings with v4l2-ctl,
+// so they outlive the browser tab. Settings saved with "persist" are written
+// to ~/.config/focuslock/agent-state.json and re-applied when the agent
+// starts and whenever the camera is plugged back in. Run it at login (see
+// focuslock-agent.service) to keep them across reboots.
+//
+// Requirements: Node.js 18+ and v4l-utils (sudo apt-get install v4l-utils).
+// The pairing token the app asks for is printed at start and kept in
+// ~/.config/focuslock/agent-token.
+//
+// Usage: node focuslock-agent.mjs [--port 47821] [--state PATH | --no-state]
+//          [--token-file PATH] [--origin URL]...
+
+import { execFile } from 'node:child_process';
+import { readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { DEFAULT_PORT, parseArgs, startAgentServer } from './server.mjs';
+
+const run = promisify(execFile);
+
+const v4l2ctl = async (...args) => (await run('v4l2-ctl', args, { timeout: 5000 })).stdout;
+
+// "brightness 0x00980900 (int)    : min=0 max=255 step=1 default=128 value=128"
+// (older v4l2-ctl leaves out the control ID)
+const CONTROL_LINE = /^\s*([a-z0-9_]+)(?:\s+0x[0-9a-f]+)?\s+\((\w+)\)\s*:\s*(.*)$/i;
+
+const parseControls = text => {
+  const controls = {};
+  for (const line of text.split('\n')) {
+    const match = line.match(CONTROL_LINE);
+    if (!match) continue;
+    const fields = Object.fromEntries([...match[3].matchAll(/(\w+)=(-?\d+)/g)].map(([, k, v]) => [k, Number(v)]));
+    if (fields.value === undefined) continue;
+    const isBool = match[2] === 'bool';
+    controls[match[1]] = {
+      min: fields.min ?? (isBool ? 0 : fields.value),
+      max: fields.max ?? (isBool ? 1 : fields.value),
+      step: fields.step ?? 1,
+      default: fields.default,
+      value: fields.value,
+    };
+  }
+  return controls;
+};
+
+// "HD Pro Webcam C920 (usb-0000:00:14.0-1):" followed by its tab-indented device nodes
+const parseDeviceList = text => {
+  const devices = [];
+  let current = null;
+  for (const line of text.split('\n')) {
+    if (line && !line.startsWith('\t')) {
+      current = { name: line.replace(/\s*\([^()]*\):\s*$/, '').replace(/:\s*$/, '').trim(), nodes: [] };
+      devices.push(current);
+    } else if (current && line.trim().startsWith('/dev/video')) {
+      current.nodes.push(line.trim());
+    }
+  }
+  // The first video node of a UVC camera is the capture node with the controls
+  return devices.filter(d => d.nodes.length > 0).map(d => ({ name: d.name, devicePath: d.nodes[0] }));
+};
+
+const usbIdOf = async devicePath => {
+  const sys = `/sys/class/video4linux/${devicePath.replace('/dev/', '')}/device/..`;
+  try {
+    const [vendor, product] = await Promise.all(['idVendor', 'idProduct'].map(f => readFile(`${sys}/${f}`, 'utf8')));
+    return `${vendor.trim()}:${product.trim()}`;
+  } catch {
+    return undefined;
+  }
+};
+
+const backend = {
+  info: { name: 'FocusLock Agent', version: '1.0.0', platform: process.platform, backend: 'v4l2-ctl' },
+
+  async listCameras() {
+    let list;
+    try {
+      list = await v4l2ctl('--list-devices');
+    } catch (error) {
+      // v4l2-ctl exits non-zero when there are no devices at all
+      if (error.code === 'ENOENT') throw new Error('v4l2-ctl not found. Install v4l-utils.');
+      list = error.stdout ?? '';
+    }
+    const cameras = [];
+    for (const { name, devicePath } of parseDeviceList(list)) {
+      try {
+        const controls = parseControls(await v4l2ctl('-d', devicePath, '--list-ctrls'));
+        if (Object.keys(controls).length === 0) continue;
+        const usbId = await usbIdOf(devicePath);
+        cameras.push({ id: devicePath.replace('/dev/', ''), name, ...(usbId ? { usbId } : {}), devicePath, controls });
+      } catch {
+        // Busy or vanished between listing and querying; it shows up on the next poll
+      }
+    }
+    return cameras;
+  },
+
+  async setControl(camera, ctrl, value) {
+    try {
+      await v4l2ctl('-d', camera.devicePath, `--set-ctrl=${ctrl}=${value}`);
+    } catch (error) {
+      throw new Error((error.stderr || error.message).trim());
+    }
+  },
+
+  async readControls(camera) {
+    const controls = parseControls(await v4l2ctl('-d', camera.devicePath, '--list-ctrls'));
+    return Object.fromEntries(Object.entries(controls).map(([ctrl, c]) => [ctrl, c.value]));
+  },
+};
+
+if (process.platform !== 'linux') {
+  console.error('The reference agent drives cameras through v4l2-ctl and only runs on Linux. Try mock-agent.mjs elsewhere.');
+  process.exit(1);
+}
+
+const options = parseArgs(process.argv.slice(2), {
+  port: DEFAULT_PORT,
+  statePath: join(homedir(), '.config', 'focuslock', 'agent-state.json'),
+  tokenPath: join(homedir(), '.config', 'focuslock', 'agent-token'),
+});
+startAgentServer(backend, options).catch(error => {
+  console.error(`Could not start the agent: ${error.message}`);
+  process.exit(1);
+});
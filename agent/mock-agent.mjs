@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+// FocusLock mock agent: speaks the agent protocol with two simulated
+// cameras, so the app and other clients can be tested without hardware.
+// Controls behave like a typical UVC driver: values are clamped and snapped
+// to the step, and values locked by an auto mode are refused.
+//
+// Usage: node mock-agent.mjs [--port 47821] [--state PATH] [--token-file PATH] [--origin URL]...
+// Without --state nothing is written; persisted settings last until exit.
+// Without --token-file the pairing token changes on every start.
+
+import { DEFAULT_PORT, parseArgs, startAgentServer } from './server.mjs';
+
+const range = (min, max, step, value) => ({ min, max, step, default: value, value });
+
+const cameras = [
+  {
+    id: 'video0',
+    name: 'HD Pro Webcam C920',
+    usbId: '046d:082d',
+    devicePath: '/dev/video0',
+    controls: {
+      brightness: range(0, 255, 1, 128),
+      contrast: range(0, 255, 1, 128),
+      saturation: range(0, 255, 1, 128),
+      sharpness: range(0, 255, 1, 128),
+      white_balance_automatic: range(0, 1, 1, 1),
+      white_balance_temperature: range(2000, 6500, 1, 4000),
+      auto_exposure: range(0, 3, 1, 3),
+      exposure_time_absolute: range(3, 2047, 1, 250),
+      focus_automatic_continuous: range(0, 1, 1, 1),
+      focus_absolute: range(0, 250, 5, 0),
+      zoom_absolute: range(100, 500, 1, 100),
+      pan_absolute: range(-36000, 36000, 3600, 0),
+      tilt_absolute: range(-36000, 36000, 3600, 0),
+    },
+  },
+  {
+    id: 'video2',
+    name: 'Integrated Camera',
+    usbId: '04f2:b6dd',
+    devicePath: '/dev/video2',
+    controls: {
+      brightness: range(-64, 64, 1, 0),
+      contrast: range(0, 95, 1, 32),
+      saturation: range(0, 100, 1, 64),
+      sharpness: range(0, 7, 1, 2),
+      white_balance_automatic: range(0, 1, 1, 1),
+      white_balance_temperature: range(2800, 6500, 10, 4600),
+      auto_exposure: range(0, 3, 1, 3),
+      exposure_time_absolute: range(1, 5000, 1, 156),
+    },
+  },
+];
+
+// Controls a driver refuses to set while their auto mode is on
+const LOCKED_BY = {
+  focus_absolute: ['focus_automatic_continuous', 1],
+  white_balance_temperature: ['white_balance_automatic', 1],
+  exposure_time_absolute: ['auto_exposure', 3],
+};
+
+const backend = {
+  info: { name: 'FocusLock Mock Agent', version: '1.0.0', platform: process.platform, backend: 'mock' },
+
+  async listCameras() {
+    return cameras.map(camera => ({ ...camera, controls: structuredClone(camera.controls) }));
+  },
+
+  async setControl({ id }, ctrl, value) {
+    const control = cameras.find(c => c.id === id).controls[ctrl];
+    const lock = LOCKED_BY[ctrl];
+    if (lock && cameras.find(c => c.id === id).controls[lock[0]]?.value === lock[1]) {
+      throw new Error(`VIDIOC_S_EXT_CTRLS: failed: Permission denied (${ctrl} is inactive while ${lock[0]}=${lock[1]})`);
+    }
+    const snapped = control.min + Math.round((value - control.min) / control.step) * control.step;
+    control.value = Math.min(control.max, Math.max(control.min, snapped));
+  },
+
+  async readControls({ id }) {
+    const { controls } = cameras.find(c => c.id === id);
+    return Object.fromEntries(Object.entries(controls).map(([ctrl, c]) => [ctrl, c.value]));
+  },
+};
+
+const options = parseArgs(process.argv.slice(2), { port: DEFAULT_PORT });
+startAgentServer(backend, options).catch(error => {
+  console.error(`Could not start the mock agent: ${error.message}`);
+  process.exit(1);
+});
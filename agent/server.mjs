@@ -0,0 +1,302 @@
+// HTTP side of the FocusLock agent protocol (services/agentProtocol.ts),
+// shared by the v4l2-ctl agent and the mock agent. A backend only lists
+// cameras and reads/sets native controls; this module does routing, CORS,
+// pairing, read-back reports and persistence.
+//
+// Only pages from an allowlisted origin get an answer, and everything but
+// GET /v1/agent needs the pairing token the agent prints when it starts.
+// Without both, any website the user visits could reconfigure their cameras.
+//
+// Backend interface:
+//   info                     { name, version, platform, backend }
+//   listCameras()            -> [{ id, name, usbId?, devicePath?, controls }]
+//   setControl(camera, ctrl, value)
+//   readControls(camera)     -> { [ctrl]: value }
+
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+import { chmod, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+export const PROTOCOL_VERSION = 1;
+export const DEFAULT_PORT = 47821;
+
+// Where FocusLock is served from by `npm run dev` and `npm run preview`;
+// add a hosted copy with --origin
+export const DEFAULT_ORIGINS = [
+  'http://localhost:3000',
+  'http://127.0.0.1:3000',
+  'http://localhost:4173',
+  'http://127.0.0.1:4173',
+];
+
+// How often cameras are re-listed so re-plugged ones get their settings back
+const REAPPLY_POLL_MS = 10000;
+
+const log = (...args) => console.error(new Date().toISOString(), ...args);
+
+// Persisted settings match cameras by USB ID and name, not by the id, which
+// can change between boots (e.g. /dev/video0 becoming /dev/video2)
+const cameraKey = camera => `${camera.usbId ?? ''}|${camera.name}`;
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const loadState = async statePath => {
+  if (!statePath) return {};
+  try {
+    return JSON.parse(await readFile(statePath, 'utf8'));
+  } catch (error) {
+    if (error.code !== 'ENOENT') log(`Ignoring unreadable state file ${statePath}: ${error.message}`);
+    return {};
+  }
+};
+
+const saveState = async (statePath, state) => {
+  if (!statePath) return;
+  await mkdir(dirname(statePath), { recursive: true });
+  await writeFile(statePath, JSON.stringify(state, null, 2));
+};
+
+// Reuses the saved token so the app stays paired across agent restarts
+const loadToken = async tokenPath => {
+  if (tokenPath) {
+    try {
+      const saved = (await readFile(tokenPath, 'utf8')).trim();
+      if (saved) return saved;
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+  const token = randomBytes(24).toString('base64url');
+  if (tokenPath) {
+    await mkdir(dirname(tokenPath), { recursive: true });
+    await writeFile(tokenPath, `${token}\n`, { mode: 0o600 });
+    await chmod(tokenPath, 0o600);
+  }
+  return token;
+};
+
+const tokenMatches = (request, token) => {
+  const header = request.headers.authorization ?? '';
+  const given = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '');
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+const readBody = request => new Promise((resolve, reject) => {
+  let data = '';
+  request.on('data', chunk => {
+    data += chunk;
+    if (data.length > 1e6) reject(new HttpError(413, 'Request body too large.'));
+  });
+  request.on('end', () => {
+    try {
+      resolve(data ? JSON.parse(data) : {});
+    } catch {
+      reject(new HttpError(400, 'Request body is not valid JSON.'));
+    }
+  });
+  request.on('error', reject);
+});
+
+/**
+ * Starts the agent server on 127.0.0.1. `statePath` is where persisted
+ * settings are saved; without it they only last until the agent exits.
+ * `tokenPath` keeps the pairing token; without it a new one is made per run.
+ * Browsers are only answered for pages on one of `origins`.
+ */
+export const startAgentServer = async (
+  backend,
+  { port = DEFAULT_PORT, statePath, tokenPath, origins = DEFAULT_ORIGINS } = {}
+) => {
+  const state = await loadState(statePath);
+  const token = await loadToken(tokenPath);
+  // Guards against DNS rebinding: a rebound name arrives with its own Host
+  const hosts = new Set([`127.0.0.1:${port}`, `localhost:${port}`]);
+
+  // Sets controls in order, then reads every one back
+  const apply = async (camera, controls) => {
+    const errors = new Map();
+    for (const { ctrl, value } of controls) {
+      try {
+        await backend.setControl(camera, ctrl, value);
+      } catch (error) {
+        errors.set(ctrl, error.message);
+      }
+    }
+    let actual = {};
+    try {
+      actual = await backend.readControls(camera);
+    } catch (error) {
+      log(`Read-back failed for ${camera.name}: ${error.message}`);
+    }
+    const results = controls.map(({ ctrl, value }) => {
+      const read = actual[ctrl] ?? null;
+      const step = camera.controls[ctrl]?.step || 1;
+      return {
+        ctrl,
+        expected: value,
+        actual: read,
+        ok: !errors.has(ctrl) && read !== null && Math.abs(read - value) < step,
+        ...(errors.has(ctrl) ? { error: errors.get(ctrl) } : {}),
+      };
+    });
+    return { ok: results.every(r => r.ok), results };
+  };
+
+  const findCamera = async id => {
+    const camera = (await backend.listCameras()).find(c => c.id === id);
+    if (!camera) throw new HttpError(404, `No camera with id "${id}".`);
+    return camera;
+  };
+
+  const handle = async (method, path, request) => {
+    const authorized = tokenMatches(request, token);
+    if (method === 'GET' && path === '/v1/agent') {
+      return { ...backend.info, protocol: PROTOCOL_VERSION, authorized };
+    }
+    if (!authorized) {
+      throw new HttpError(401, 'Not paired: enter the pairing token the agent printed when it started.');
+    }
+    if (method === 'GET' && path === '/v1/cameras') {
+      const cameras = await backend.listCameras();
+      return cameras.map(camera => ({ ...camera, persisted: cameraKey(camera) in state }));
+    }
+    const match = path.match(/^\/v1\/cameras\/([^/]+)\/(controls|persisted)$/);
+    if (!match) throw new HttpError(404, `Unknown endpoint ${method} ${path}.`);
+    const camera = await findCamera(decodeURIComponent(match[1]));
+
+    if (match[2] === 'controls' && method === 'GET') {
+      return backend.readControls(camera);
+    }
+    if (match[2] === 'controls' && method === 'PUT') {
+      const body = await readBody(request);
+      const controls = body.controls;
+      if (!Array.isArray(controls) || !controls.every(c => typeof c?.ctrl === 'string' && typeof c?.value === 'number')) {
+        throw new HttpError(400, 'Expected { controls: [{ ctrl, value }], persist? }.');
+      }
+      const unknown = controls.filter(c => !(c.ctrl in camera.controls)).map(c => c.ctrl);
+      if (unknown.length > 0) throw new HttpError(400, `${camera.name} has no control(s): ${unknown.join(', ')}.`);
+
+      const result = await apply(camera, controls);
+      if (body.persist) {
+        state[cameraKey(camera)] = { name: camera.name, usbId: camera.usbId, controls, savedAt: new Date().toISOString() };
+        await saveState(statePath, state);
+      }
+      log(`Applied ${controls.length} control(s) to ${camera.name}${body.persist ? ' (persisted)' : ''}: ${result.ok ? 'ok' : 'with errors'}`);
+      return { ...result, persisted: cameraKey(camera) in state };
+    }
+    if (match[2] === 'persisted' && method === 'DELETE') {
+      delete state[cameraKey(camera)];
+      await saveState(statePath, state);
+      return { ok: true };
+    }
+    throw new HttpError(405, `${method} is not supported on ${path}.`);
+  };
+
+  const server = createServer(async (request, response) => {
+    const { origin, host } = request.headers;
+    // Requests without an Origin come from local programs, not web pages
+    if ((origin !== undefined && !origins.includes(origin)) || !hosts.has(host)) {
+      log(`Refused ${request.method} ${request.url} from origin ${origin ?? '-'} (host ${host ?? '-'})`);
+      response.writeHead(403, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify({ error: 'Origin not allowed. Start the agent with --origin for this page.' }));
+      return;
+    }
+    const headers = {
+      ...(origin ? {
+        'Access-Control-Allow-Origin': origin,
+        'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        // Chrome's Private Network Access preflight for pages on public origins
+        'Access-Control-Allow-Private-Network': 'true',
+      } : {}),
+      Vary: 'Origin',
+      'Content-Type': 'application/json',
+    };
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, headers).end();
+      return;
+    }
+    const { pathname } = new URL(request.url, 'http://localhost');
+    try {
+      const body = await handle(request.method, pathname, request);
+      response.writeHead(200, headers).end(JSON.stringify(body));
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) log(error);
+      response.writeHead(status, headers).end(JSON.stringify({ error: error.message }));
+    }
+  });
+
+  // Re-apply persisted settings to cameras as they appear: at start (after a
+  // reboot) and whenever one is plugged back in
+  const applied = new Set();
+  const reapply = async () => {
+    let cameras;
+    try {
+      cameras = await backend.listCameras();
+    } catch (error) {
+      log(`Listing cameras failed: ${error.message}`);
+      return;
+    }
+    const present = new Set(cameras.map(c => `${c.id}|${cameraKey(c)}`));
+    for (const seen of applied) if (!present.has(seen)) applied.delete(seen);
+    for (const camera of cameras) {
+      const saved = state[cameraKey(camera)];
+      const seen = `${camera.id}|${cameraKey(camera)}`;
+      if (!saved || applied.has(seen)) continue;
+      applied.add(seen);
+      // A malformed state entry or a failing backend must not take the agent down
+      try {
+        const result = await apply(camera, saved.controls.filter(c => c.ctrl in camera.controls));
+        log(`Re-applied saved settings to ${camera.name}: ${result.ok ? 'ok' : 'with errors'}`);
+      } catch (error) {
+        log(`Re-applying saved settings to ${camera.name} failed: ${error.message}`);
+      }
+    }
+  };
+  await reapply();
+  const timer = setInterval(reapply, REAPPLY_POLL_MS);
+
+  await new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', resolve);
+  });
+  log(`${backend.info.name} ${backend.info.version} (${backend.info.backend}) listening on http://127.0.0.1:${port}`);
+  log(`Accepting pages from ${origins.join(', ')}`);
+  log(`Pairing token: ${token}${tokenPath ? ` (saved in ${tokenPath})` : ''}`);
+
+  return {
+    server,
+    close: () => {
+      clearInterval(timer);
+      return new Promise(resolve => server.close(resolve));
+    },
+  };
+};
+
+// --port N, --state PATH, --token-file PATH and --origin URL (repeatable,
+// replaces the default origins), shared by both agents
+export const parseArgs = (argv, defaults) => {
+  const options = { ...defaults };
+  const origins = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--port') options.port = Number(argv[++i]);
+    else if (argv[i] === '--state') options.statePath = argv[++i];
+    else if (argv[i] === '--no-state') options.statePath = undefined;
+    else if (argv[i] === '--token-file') options.tokenPath = argv[++i];
+    else if (argv[i] === '--origin') origins.push(new URL(argv[++i]).origin);
+    else {
+      console.error(`Unknown argument: ${argv[i]}\nUsage: [--port N] [--state PATH | --no-state] [--token-file PATH] [--origin URL]...`);
+      process.exit(2);
+    }
+  }
+  if (origins.length > 0) options.origins = origins;
+  return options;
+};
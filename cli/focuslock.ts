@@ -0,0 +1,243 @@
+// Headless script generation for provisioning: the same generators and
+// settings model as the Script Generator panel, driven by a profile file
+// and/or one flag per setting.
+//
+//   npm run cli -- --os linux --type v4l2-preset --camera "HD Pro Webcam C920 (046d:082d)" \
+//     --focus-mode manual --focus-distance 40 --out focuslock-apply.sh
+
+import { chmod, readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { CameraCapabilities, CameraSettings, OS, ScriptGenerationParams, SettingsProfile } from '../types';
+import { CAMERA_CONTROLS, DEFAULT_SETTINGS, RangeControlKey } from '../services/cameraControls';
+import { parseUsbId, parseUsbIdInput } from '../services/deviceIdentity';
+import { PROFILE_FORMAT, parseProfileExport } from '../services/profileStore';
+import { generateSystemScript, getGenerator, listGenerators } from '../services/scriptGenerators';
+import { validateCapabilities, validateSettings } from '../services/settingsValidation';
+import { uvcRanges } from '../services/valueMapping';
+
+class UsageError extends Error {}
+
+// focusDistance -> focus-distance
+const flagName = (key: string) => key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+
+const SETTING_FLAGS = [...CAMERA_CONTROLS.map(c => c.key), 'regionOfInterest' as const];
+
+const USAGE = `Usage: focuslock --os <windows|linux|macos> --type <id> [options] [settings]
+
+Options:
+  --camera NAME          Camera name as the browser shows it; a "(vvvv:pppp)" suffix is used for driver quirks
+  --usb-id VVVV:PPPP     Pin the script to one USB model
+  --profile FILE         FocusLock profile export, a single profile, or a settings object
+  --profile-name NAME    Profile to use when FILE holds several (name or id)
+  --capabilities FILE    Browser capabilities the settings were tuned in (JSON)
+  --option KEY[=BOOL]    Generator option, e.g. --option verify; repeatable
+  --out FILE             Write the script to FILE instead of stdout
+  --list                 List script types per OS
+  --help
+
+Settings (override the profile):
+${SETTING_FLAGS.map(key => `  --${flagName(key)}`).join('\n')}
+
+Without --capabilities, values are raw UVC values and checked against UVC ranges.`;
+
+const parseOS = (value: string | undefined): OS => {
+  const os = Object.values(OS).find(o => o.toLowerCase() === value?.toLowerCase());
+  if (!os) throw new UsageError(`--os must be one of ${Object.values(OS).map(o => o.toLowerCase()).join(', ')}.`);
+  return os;
+};
+
+const readJsonFile = async (path: string, what: 'profile' | 'capabilities'): Promise<unknown> => {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (error) {
+    const { code, message } = error as NodeJS.ErrnoException;
+    throw new UsageError(`Cannot read ${what} file ${path} (${code ?? message}).`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new UsageError(`${path} is not valid JSON.`);
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Capabilities file or a profile's capabilities; the generators trust their ranges
+const checkCapabilities = (value: unknown, source: string): CameraCapabilities => {
+  const issues = validateCapabilities(value);
+  if (issues.length > 0) {
+    throw new UsageError(`Invalid capabilities in ${source}:\n${issues.map(i => `  ${i.message}`).join('\n')}`);
+  }
+  return value as CameraCapabilities;
+};
+
+interface ProfileInput {
+  settings: Record<string, unknown>;
+  cameraLabel?: string;
+  capabilities?: CameraCapabilities;
+}
+
+// An export picks one profile; anything with `settings` is a profile-like
+// object; otherwise the file is the settings themselves
+const loadProfile = async (path: string, profileName?: string): Promise<ProfileInput> => {
+  const data = await readJsonFile(path, 'profile');
+  if (!isObject(data)) {
+    throw new UsageError(`${path} is not a profile or settings object.`);
+  }
+  if (data.format === PROFILE_FORMAT) {
+    const profiles = parseProfileExport(JSON.stringify(data));
+    const pick = (p: SettingsProfile) => !profileName || p.name === profileName || p.id === profileName;
+    const matches = profiles.filter(pick);
+    if (matches.length !== 1) {
+      const names = profiles.map(p => `"${p.name}"`).join(', ') || 'none';
+      throw new UsageError(profileName
+        ? `No profile "${profileName}" in ${path} (found ${names}).`
+        : `${path} holds several profiles; choose one with --profile-name (found ${names}).`);
+    }
+    return { settings: { ...matches[0].settings }, cameraLabel: matches[0].cameraLabel };
+  }
+  if (isObject(data.settings)) {
+    return {
+      settings: data.settings,
+      cameraLabel: typeof data.cameraLabel === 'string' ? data.cameraLabel : undefined,
+      capabilities: data.capabilities === undefined ? undefined : checkCapabilities(data.capabilities, path),
+    };
+  }
+  return { settings: data };
+};
+
+const parseSettingFlag = (key: string, raw: string): unknown => {
+  const control = CAMERA_CONTROLS.find(c => c.key === key);
+  if (!control) {
+    const parts = raw.split(',').map(Number);
+    if (parts.length !== 4) throw new UsageError(`--${flagName(key)} takes x,y,width,height (0-1).`);
+    const [x, y, width, height] = parts;
+    return { x, y, width, height };
+  }
+  if (control.kind === 'toggle') {
+    if (['true', 'on', '1'].includes(raw)) return true;
+    if (['false', 'off', '0'].includes(raw)) return false;
+    throw new UsageError(`--${flagName(key)} takes true or false.`);
+  }
+  if (control.kind === 'mode') return raw;
+  const value = Number(raw);
+  if (raw.trim() === '' || !Number.isFinite(value)) throw new UsageError(`--${flagName(key)} must be a number, got "${raw}".`);
+  return value;
+};
+
+const parseOptions = (entries: string[]): Record<string, boolean> =>
+  Object.fromEntries(entries.map(entry => {
+    const [key, value = 'true'] = entry.split('=');
+    if (value !== 'true' && value !== 'false') throw new UsageError(`--option ${entry}: value must be true or false.`);
+    return [key, value === 'true'];
+  }));
+
+const listTypes = (): string =>
+  Object.values(OS).map(os => {
+    const rows = listGenerators(os).map(g => `  ${g.id.padEnd(12)} ${g.name}${g.options.length ? ` (options: ${g.options.map(o => o.key).join(', ')})` : ''}`);
+    return `${os}:\n${rows.join('\n')}`;
+  }).join('\n\n');
+
+const main = async (argv: string[]): Promise<void> => {
+  const { values } = parseArgs({
+    args: argv,
+    strict: true,
+    options: {
+      os: { type: 'string' },
+      type: { type: 'string' },
+      camera: { type: 'string' },
+      'usb-id': { type: 'string' },
+      profile: { type: 'string' },
+      'profile-name': { type: 'string' },
+      capabilities: { type: 'string' },
+      option: { type: 'string', multiple: true, default: [] },
+      out: { type: 'string' },
+      list: { type: 'boolean' },
+      help: { type: 'boolean' },
+      ...Object.fromEntries(SETTING_FLAGS.map(key => [flagName(key), { type: 'string' as const }])),
+    },
+  });
+  const flags = values as Record<string, string | string[] | boolean | undefined>;
+
+  if (flags.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (flags.list) {
+    console.log(listTypes());
+    return;
+  }
+
+  const os = parseOS(flags.os as string | undefined);
+  if (!listGenerators().some(g => g.id === flags.type)) {
+    throw new UsageError(flags.type ? `Unknown script type "${flags.type}"; see --list.` : '--type is required; see --list.');
+  }
+  const plugin = getGenerator(flags.type as string);
+  if (!plugin.supportedOS.includes(os)) {
+    throw new UsageError(`${plugin.name} scripts are not available for ${os}; see --list.`);
+  }
+  const options = parseOptions(flags.option as string[]);
+  const unknownOptions = Object.keys(options).filter(k => !plugin.options.some(o => o.key === k));
+  if (unknownOptions.length > 0) {
+    throw new UsageError(`${plugin.name} has no option(s) ${unknownOptions.join(', ')}.`);
+  }
+
+  const profile: ProfileInput = flags.profile
+    ? await loadProfile(flags.profile as string, flags['profile-name'] as string | undefined)
+    : { settings: {} };
+  const cameraName = (flags.camera as string | undefined) ?? profile.cameraLabel ?? 'Default Camera';
+  let usbId = parseUsbId(cameraName) ?? undefined;
+  if (flags['usb-id']) {
+    usbId = parseUsbIdInput(flags['usb-id'] as string) ?? undefined;
+    if (!usbId) throw new UsageError('--usb-id must look like 046d:082d (vendor:product, hex).');
+  }
+
+  const capabilities: CameraCapabilities | undefined = flags.capabilities
+    ? checkCapabilities(await readJsonFile(flags.capabilities as string, 'capabilities'), flags.capabilities as string)
+    : profile.capabilities;
+  // DEFAULT_SETTINGS are browser values (zoom 1x); pull them into the ranges in use
+  const ranges = capabilities ?? uvcRanges(usbId);
+  const defaults = Object.fromEntries(Object.entries(DEFAULT_SETTINGS).map(([key, value]) => {
+    const range = typeof value === 'number' ? ranges[key as RangeControlKey] : undefined;
+    return [key, range ? Math.min(range.max, Math.max(range.min, value as number)) : value];
+  }));
+  const settings: Record<string, unknown> = { ...defaults, ...profile.settings };
+  for (const key of SETTING_FLAGS) {
+    const raw = flags[flagName(key)];
+    if (typeof raw === 'string') settings[key] = parseSettingFlag(key, raw);
+  }
+
+  const issues = validateSettings(settings, ranges);
+  if (issues.length > 0) {
+    throw new UsageError(`Invalid settings:\n${issues.map(i => `  ${i.message}`).join('\n')}`);
+  }
+
+  const params: ScriptGenerationParams = {
+    os,
+    cameraName,
+    settings: settings as unknown as CameraSettings,
+    scriptType: plugin.id,
+    usbId: flags['usb-id'] ? usbId : undefined,
+    capabilities,
+    options,
+  };
+  const script = await generateSystemScript(params);
+
+  if (!flags.out) {
+    process.stdout.write(script);
+    return;
+  }
+  await writeFile(flags.out as string, script);
+  if (os !== OS.WINDOWS) await chmod(flags.out as string, 0o755);
+  console.error(`Wrote ${plugin.name} script for ${os} to ${flags.out}`);
+};
+
+main(process.argv.slice(2)).catch(error => {
+  // parseArgs rejects unknown flags with ERR_PARSE_ARGS_* codes
+  const usage = error instanceof UsageError || String(error.code ?? '').startsWith('ERR_PARSE_ARGS');
+  console.error(`focuslock: ${error.message}`);
+  if (usage) console.error('Run with --help for usage.');
+  process.exit(usage ? 2 : 1);
+});
@@ -0,0 +1,71 @@
+import React from 'react';
+import { CameraCapabilities, CameraSettings } from '../types';
+import { ControlDescriptor, getControlRange, isControlLocked } from '../services/cameraControls';
+import { ControlSlider } from './ControlSlider';
+
+interface CameraControlProps {
+  control: ControlDescriptor;
+  capabilities: CameraCapabilities;
+  settings: CameraSettings;
+  onChange: (key: keyof CameraSettings, value: CameraSettings[keyof CameraSettings]) => void;
+  badge?: React.ReactNode;
+  defaultValue?: CameraSettings[keyof CameraSettings];
+  active?: boolean;
+  onActivate?: () => void;
+}
+
+// Renders a single entry of CAMERA_CONTROLS as a slider, AUTO/MANUAL switch or toggle
+export const CameraControl: React.FC<CameraControlProps> = ({ control, capabilities, settings, onChange, badge, defaultValue, active = false, onActivate }) => {
+  if (control.kind === 'range') {
+    const range = getControlRange(control, capabilities);
+    if (!range) return null;
+    return (
+      <ControlSlider
+        label={control.label}
+        value={settings[control.key] ?? range.min}
+        min={range.min}
+        max={range.max}
+        step={range.step}
+        onChange={(val) => onChange(control.key, val)}
+        disabled={isControlLocked(control, settings)}
+        unit={control.unit}
+        badge={badge}
+        defaultValue={typeof defaultValue === 'number' ? defaultValue : undefined}
+        active={active}
+        onActivate={onActivate}
+      />
+    );
+  }
+
+  const isOn = control.kind === 'mode'
+    ? (settings[control.key] ?? 'continuous') === 'continuous'
+    : !!settings[control.key];
+
+  const toggle = () => {
+    if (control.kind === 'mode') {
+      onChange(control.key, isOn ? 'manual' : 'continuous');
+    } else {
+      onChange(control.key, !isOn);
+    }
+  };
+
+  return (
+    <div
+      className={`flex items-center justify-between mb-4 -mx-2 px-2 rounded-lg transition-colors ${active ? 'bg-primary-500/10 ring-1 ring-primary-500/40' : ''}`}
+      onPointerDown={onActivate}
+    >
+      <label className="text-sm font-medium text-gray-300">{control.label}</label>
+      <div className="flex items-center gap-2">
+        {badge}
+        <button
+          onClick={toggle}
+          className={`px-3 py-1 rounded-md text-xs font-bold transition-all ${
+            isOn ? 'bg-primary-600 hover:bg-primary-500 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+          }`}
+        >
+          {control.kind === 'mode' ? (isOn ? 'AUTO' : 'MANUAL') : (isOn ? 'ON' : 'OFF')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React, { useCallback, useState } from 'react';
+import { CameraCapabilities, CameraDevice, CameraScriptTarget, CameraSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../services/cameraControls';
+import { CameraTile } from './CameraTile';
+import { ScriptGenerator } from './ScriptGenerator';
+
+interface CameraDashboardProps {
+  devices: CameraDevice[];
+}
+
+export const CameraDashboard: React.FC<CameraDashboardProps> = ({ devices }) => {
+  const [stateByDevice, setStateByDevice] = useState<Record<string, { settings: CameraSettings; capabilities: CameraCapabilities }>>({});
+
+  const handleSettingsChange = useCallback((device: CameraDevice, settings: CameraSettings, capabilities: CameraCapabilities) => {
+    setStateByDevice(prev => ({ ...prev, [device.deviceId]: { settings, capabilities } }));
+  }, []);
+
+  const cameras: CameraScriptTarget[] = devices
+    .filter(d => stateByDevice[d.deviceId])
+    .map(d => ({ cameraName: d.label, ...stateByDevice[d.deviceId] }));
+
+  return (
+    <main className="max-w-7xl mx-auto grid grid-cols-1 lg:grid-cols-12 gap-6 h-[calc(100vh-140px)]">
+      <div className="lg:col-span-7 h-full overflow-y-auto scrollbar-thin pr-1">
+        {devices.length === 0 ? (
+          <div className="h-full flex items-center justify-center border border-dashed border-gray-700 rounded-lg text-gray-500 text-sm">
+            No cameras found.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {devices.map(device => (
+              <CameraTile key={device.deviceId} device={device} onSettingsChange={handleSettingsChange} />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="lg:col-span-5 h-full">
+        <ScriptGenerator
+          currentSettings={cameras[0]?.settings ?? DEFAULT_SETTINGS}
+          cameraLabel={cameras[0]?.cameraName ?? ''}
+          cameras={cameras}
+        />
+      </div>
+    </main>
+  );
+};
@@ -0,0 +1,52 @@
+import React, { useEffect } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { CameraCapabilities, CameraDevice, CameraSettings } from '../types';
+import { useCameraTrack } from '../hooks/useCameraTrack';
+import { supportedControls } from '../services/cameraControls';
+import { CameraControl } from './CameraControl';
+import { ControlStatusBadge } from './ControlStatusBadge';
+
+interface CameraTileProps {
+  device: CameraDevice;
+  onSettingsChange: (device: CameraDevice, settings: CameraSettings, capabilities: CameraCapabilities) => void;
+}
+
+export const CameraTile: React.FC<CameraTileProps> = ({ device, onSettingsChange }) => {
+  const { videoRef, capabilities, settings, controlStatus, error, updateSetting } = useCameraTrack(device);
+
+  useEffect(() => {
+    onSettingsChange(device, settings, capabilities);
+  }, [device, settings, capabilities, onSettingsChange]);
+
+  return (
+    <div className="bg-gray-800 rounded-xl border border-gray-700 overflow-hidden flex flex-col">
+      <div className="bg-black relative aspect-video flex items-center justify-center">
+        <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-contain" />
+        {error && (
+          <div className="absolute inset-0 bg-black/80 flex flex-col items-center justify-center text-red-400 p-4 text-center text-sm">
+            <AlertCircle className="w-8 h-8 mb-2" />
+            <p>{error}</p>
+          </div>
+        )}
+        <div className="absolute top-2 left-2 px-2 py-1 bg-black/50 backdrop-blur rounded text-xs text-gray-300 font-mono max-w-[90%] truncate">
+          {device.label}
+        </div>
+      </div>
+      <div className="p-4 max-h-72 overflow-y-auto scrollbar-thin">
+        {supportedControls(capabilities).map(control => (
+          <CameraControl
+            key={control.key}
+            control={control}
+            capabilities={capabilities}
+            settings={settings}
+            onChange={updateSetting}
+            badge={<ControlStatusBadge status={controlStatus[control.key]} />}
+          />
+        ))}
+        {!error && supportedControls(capabilities).length === 0 && (
+          <p className="text-xs text-gray-500">This camera exposes no adjustable controls to the browser.</p>
+        )}
+      </div>
+    </div>
+  );
+};
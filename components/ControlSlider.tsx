@@ -1,4 +1,5 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
 
 interface ControlSliderProps {
   label: string;
@@ -9,8 +10,16 @@ interface ControlSliderProps {
   onChange: (value: number) => void;
   disabled?: boolean;
   unit?: string;
+  badge?: React.ReactNode;
+  // Shows a reset button while the value differs from it
+  defaultValue?: number;
+  // Target of keyboard / gamepad fine control
+  active?: boolean;
+  onActivate?: () => void;
 }
 
+const formatValue = (value: number) => parseFloat(value.toFixed(3)).toString();
+
 export const ControlSlider: React.FC<ControlSliderProps> = ({
   label,
   value,
@@ -19,17 +28,68 @@ export const ControlSlider: React.FC<ControlSliderProps> = ({
   step,
   onChange,
   disabled = false,
-  unit = ''
+  unit = '',
+  badge,
+  defaultValue,
+  active = false,
+  onActivate
 }) => {
+  // Typed text, kept apart from `value` until it is committed
+  const [draft, setDraft] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(null);
+  }, [value]);
+
+  // Typed values may fall between steps (fine focus) but not outside the range
+  const commitDraft = () => {
+    if (draft === null) return;
+    const typed = parseFloat(draft);
+    setDraft(null);
+    if (Number.isFinite(typed)) onChange(Math.min(max, Math.max(min, typed)));
+  };
+
   return (
-    <div className="mb-4">
+    <div
+      className={`mb-4 -mx-2 px-2 rounded-lg transition-colors ${active ? 'bg-primary-500/10 ring-1 ring-primary-500/40' : ''}`}
+      onPointerDown={onActivate}
+    >
       <div className="flex justify-between items-center mb-1">
         <label className={`text-sm font-medium ${disabled ? 'text-gray-600' : 'text-gray-300'}`}>
           {label}
         </label>
-        <span className={`text-xs font-mono ${disabled ? 'text-gray-600' : 'text-primary-500'}`}>
-          {value.toFixed(2)}{unit}
-        </span>
+        <div className="flex items-center gap-2">
+          {badge}
+          {defaultValue !== undefined && defaultValue !== value && (
+            <button
+              onClick={() => onChange(defaultValue)}
+              disabled={disabled}
+              className="text-gray-500 hover:text-white transition-colors disabled:opacity-50"
+              title={`Reset to ${formatValue(defaultValue)}${unit}`}
+            >
+              <RotateCcw className="w-3 h-3" />
+            </button>
+          )}
+          <span className={`text-xs font-mono flex items-center ${disabled ? 'text-gray-600' : 'text-primary-500'}`}>
+            <input
+              type="number"
+              value={draft ?? formatValue(value)}
+              min={min}
+              max={max}
+              step="any"
+              disabled={disabled}
+              onFocus={onActivate}
+              onChange={(e) => setDraft(e.target.value)}
+              onBlur={commitDraft}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitDraft();
+                if (e.key === 'Escape') setDraft(null);
+              }}
+              className="w-16 bg-transparent text-right font-mono outline-none border-b border-transparent hover:border-gray-600 focus:border-primary-500 disabled:cursor-not-allowed [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none"
+            />
+            {unit}
+          </span>
+        </div>
       </div>
       <input
         type="range"
@@ -38,11 +98,12 @@ export const ControlSlider: React.FC<ControlSliderProps> = ({
         step={step}
         value={value}
         onChange={(e) => onChange(parseFloat(e.target.value))}
+        onFocus={onActivate}
         disabled={disabled}
-        className={`w-full h-2 rounded-lg appearance-none cursor-pointer 
+        className={`w-full h-2 rounded-lg appearance-none cursor-pointer
           ${disabled ? 'bg-gray-800' : 'bg-gray-700 hover:bg-gray-600'}
           accent-primary-500`}
       />
     </div>
   );
-};
\ No newline at end of file
+};
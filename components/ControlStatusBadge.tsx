@@ -0,0 +1,27 @@
+import React from 'react';
+import { ApplyStatus, ControlStatus } from '../services/constraintReadback';
+
+interface ControlStatusBadgeProps {
+  status?: ControlStatus;
+}
+
+const STYLES: Record<ApplyStatus, string> = {
+  applied: 'bg-green-900/40 text-green-400',
+  clamped: 'bg-amber-900/40 text-amber-400',
+  rejected: 'bg-red-900/40 text-red-400',
+  unsupported: 'bg-gray-700 text-gray-400',
+};
+
+const format = (value: unknown) => (typeof value === 'number' ? value.toFixed(2) : String(value));
+
+export const ControlStatusBadge: React.FC<ControlStatusBadgeProps> = ({ status }) => {
+  if (!status) return null;
+  const detail = status.actual === undefined
+    ? `Requested ${format(status.requested)}, camera reports nothing`
+    : `Requested ${format(status.requested)}, camera reports ${format(status.actual)}`;
+  return (
+    <span className={`text-[10px] uppercase font-bold px-1.5 py-0.5 rounded ${STYLES[status.status]}`} title={detail}>
+      {status.status}
+    </span>
+  );
+};
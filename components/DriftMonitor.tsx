@@ -0,0 +1,50 @@
+import React from 'react';
+import { RotateCcw, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { DriftedControl } from '../services/constraintReadback';
+
+interface DriftMonitorProps {
+  drift: DriftedControl[];
+  autoReapply: boolean;
+  onAutoReapplyChange: (enabled: boolean) => void;
+  onReapply: () => void;
+}
+
+const format = (value: unknown) => (typeof value === 'number' ? value.toFixed(2) : String(value));
+
+export const DriftMonitor: React.FC<DriftMonitorProps> = ({ drift, autoReapply, onAutoReapplyChange, onReapply }) => {
+  const hasDrift = drift.length > 0;
+  return (
+    <div className={`flex items-center justify-between gap-4 p-3 rounded-lg border text-xs ${
+      hasDrift ? 'bg-red-900/30 border-red-800 text-red-200' : 'bg-gray-900/50 border-gray-700 text-gray-400'
+    }`}>
+      <div className="flex items-center gap-2 min-w-0">
+        {hasDrift ? <ShieldAlert className="w-4 h-4 shrink-0" /> : <ShieldCheck className="w-4 h-4 shrink-0 text-green-400" />}
+        <span className="truncate">
+          {hasDrift
+            ? `Drift: ${drift.map(d => `${d.key} ${format(d.expected)} → ${format(d.actual)}`).join(', ')}`
+            : 'All locked controls are holding their values'}
+        </span>
+      </div>
+      <div className="flex items-center gap-3 shrink-0">
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={autoReapply}
+            onChange={(e) => onAutoReapplyChange(e.target.checked)}
+            className="accent-primary-500"
+          />
+          Auto re-apply
+        </label>
+        {hasDrift && (
+          <button
+            onClick={onReapply}
+            className="px-2 py-1 rounded bg-red-900/60 hover:bg-red-900 text-red-100 flex items-center gap-1 transition-colors"
+          >
+            <RotateCcw className="w-3 h-3" />
+            Re-apply
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
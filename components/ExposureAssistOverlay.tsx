@@ -0,0 +1,59 @@
+import React, { useEffect, useRef } from 'react';
+import { Histogram, computeHistogram, grabFrame, renderClippingMask } from '../services/frameAnalysis';
+
+interface ExposureAssistOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  showZebras: boolean;
+  onHistogram: (histogram: Histogram) => void;
+}
+
+// The histogram doesn't need the focus-assist rate; zebras still look live at this rate
+const ANALYSIS_INTERVAL_MS = 250;
+const HIGHLIGHT_COLOR: [number, number, number] = [255, 60, 60];
+const SHADOW_COLOR: [number, number, number] = [60, 140, 255];
+
+export const ExposureAssistOverlay: React.FC<ExposureAssistOverlayProps> = ({ videoRef, showZebras, onHistogram }) => {
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const onHistogramRef = useRef(onHistogram);
+  onHistogramRef.current = onHistogram;
+
+  useEffect(() => {
+    const workCanvas = document.createElement('canvas');
+    let frameId = 0;
+    let lastRun = 0;
+
+    const tick = (now: number) => {
+      frameId = requestAnimationFrame(tick);
+      if (now - lastRun < ANALYSIS_INTERVAL_MS) return;
+      lastRun = now;
+
+      const video = videoRef.current;
+      if (!video) return;
+      const image = grabFrame(video, workCanvas);
+      if (!image) return;
+      onHistogramRef.current(computeHistogram(image));
+
+      const overlay = overlayRef.current;
+      if (!showZebras || !overlay) return;
+      if (overlay.width !== image.width) overlay.width = image.width;
+      if (overlay.height !== image.height) overlay.height = image.height;
+      const ctx = overlay.getContext('2d');
+      if (!ctx) return;
+      const mask = ctx.createImageData(image.width, image.height);
+      renderClippingMask(image, mask, HIGHLIGHT_COLOR, SHADOW_COLOR);
+      ctx.putImageData(mask, 0, 0);
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [videoRef, showZebras]);
+
+  if (!showZebras) return null;
+
+  return (
+    <canvas
+      ref={overlayRef}
+      className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+    />
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useEffect, useRef } from 'react';
+import { RegionOfInterest } from '../types';
+import { grabFrame, laplacianVariance, renderPeakingMask, toGrayscale } from '../services/frameAnalysis';
+
+interface FocusAssistOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  showPeaking: boolean;
+  regionOfInterest?: RegionOfInterest;
+  onScore: (score: number) => void;
+}
+
+// Analysis rate. The preview keeps running at full rate; only scoring is throttled.
+const ANALYSIS_INTERVAL_MS = 100;
+const PEAKING_THRESHOLD = 40;
+const PEAKING_COLOR: [number, number, number] = [255, 40, 200];
+
+export const FocusAssistOverlay: React.FC<FocusAssistOverlayProps> = ({ videoRef, showPeaking, regionOfInterest, onScore }) => {
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const onScoreRef = useRef(onScore);
+  onScoreRef.current = onScore;
+  const roiRef = useRef(regionOfInterest);
+  roiRef.current = regionOfInterest;
+
+  useEffect(() => {
+    const workCanvas = document.createElement('canvas');
+    let frameId = 0;
+    let lastRun = 0;
+
+    const tick = (now: number) => {
+      frameId = requestAnimationFrame(tick);
+      if (now - lastRun < ANALYSIS_INTERVAL_MS) return;
+      lastRun = now;
+
+      const video = videoRef.current;
+      if (!video) return;
+      const image = grabFrame(video, workCanvas);
+      if (!image) return;
+
+      const gray = toGrayscale(image);
+      onScoreRef.current(laplacianVariance(gray, roiRef.current));
+
+      const overlay = overlayRef.current;
+      if (!showPeaking || !overlay) return;
+      if (overlay.width !== image.width) overlay.width = image.width;
+      if (overlay.height !== image.height) overlay.height = image.height;
+      const ctx = overlay.getContext('2d');
+      if (!ctx) return;
+      const mask = ctx.createImageData(image.width, image.height);
+      renderPeakingMask(gray, mask, PEAKING_THRESHOLD, PEAKING_COLOR);
+      ctx.putImageData(mask, 0, 0);
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [videoRef, showPeaking]);
+
+  if (!showPeaking) return null;
+
+  return (
+    <canvas
+      ref={overlayRef}
+      className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+    />
+  );
+};
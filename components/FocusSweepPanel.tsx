@@ -0,0 +1,85 @@
+import React from 'react';
+import { Crosshair, Loader2, X } from 'lucide-react';
+import { SweepSample } from '../services/focusSweep';
+
+interface FocusSweepPanelProps {
+  samples: SweepSample[];
+  isRunning: boolean;
+  bestDistance: number | null;
+  disabled?: boolean;
+  onStart: () => void;
+  onCancel: () => void;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 80;
+
+export const FocusSweepPanel: React.FC<FocusSweepPanelProps> = ({
+  samples,
+  isRunning,
+  bestDistance,
+  disabled = false,
+  onStart,
+  onCancel
+}) => {
+  const sorted = [...samples].sort((a, b) => a.focusDistance - b.focusDistance);
+  const minX = sorted[0]?.focusDistance ?? 0;
+  const maxX = sorted[sorted.length - 1]?.focusDistance ?? 1;
+  const maxY = Math.max(1, ...sorted.map(s => s.score));
+  const x = (d: number) => (maxX === minX ? CHART_WIDTH / 2 : ((d - minX) / (maxX - minX)) * CHART_WIDTH);
+  const y = (score: number) => CHART_HEIGHT - (score / maxY) * (CHART_HEIGHT - 4);
+  const path = sorted.map((s, i) => `${i === 0 ? 'M' : 'L'}${x(s.focusDistance).toFixed(1)},${y(s.score).toFixed(1)}`).join(' ');
+
+  return (
+    <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-700">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="font-medium text-white">Find Best Focus</h3>
+          <p className="text-xs text-gray-400">
+            {isRunning
+              ? `Sweeping... ${samples.length} positions scored`
+              : bestDistance !== null
+                ? `Locked at ${bestDistance.toFixed(2)}`
+                : disabled
+                  ? 'This camera does not expose a manual focus range'
+                  : 'Coarse + fine sweep of the focus range, locks the sharpest position'}
+          </p>
+        </div>
+        {isRunning ? (
+          <button
+            onClick={onCancel}
+            className="px-3 py-2 rounded-lg text-sm font-bold bg-red-900/50 hover:bg-red-900 text-red-200 flex items-center gap-2 transition-colors"
+          >
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <X className="w-4 h-4" />
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={onStart}
+            disabled={disabled}
+            className="px-3 py-2 rounded-lg text-sm font-bold bg-primary-600 hover:bg-primary-500 text-white flex items-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Crosshair className="w-4 h-4" />
+            Sweep
+          </button>
+        )}
+      </div>
+
+      {samples.length > 0 && (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-20 bg-gray-950 rounded">
+          <path d={path} fill="none" stroke="#0ea5e9" strokeWidth={1.5} />
+          {sorted.map(s => (
+            <circle
+              key={s.focusDistance}
+              cx={x(s.focusDistance)}
+              cy={y(s.score)}
+              r={s.focusDistance === bestDistance ? 3.5 : 2}
+              fill={s.focusDistance === bestDistance ? '#e879f9' : s.pass === 'coarse' ? '#0ea5e9' : '#a5f3fc'}
+            />
+          ))}
+        </svg>
+      )}
+    </div>
+  );
+};
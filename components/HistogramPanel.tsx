@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { BarChart3, Loader2, Wand2, X } from 'lucide-react';
+import { Histogram, histogramStats } from '../services/frameAnalysis';
+import { isWellExposed } from '../services/exposureSuggest';
+
+interface HistogramPanelProps {
+  histogram: Histogram | null;
+  isSuggesting: boolean;
+  // Set when neither brightness nor contrast can be controlled
+  disabled?: boolean;
+  onSuggest: () => void;
+  onCancel: () => void;
+}
+
+const CHART_WIDTH = 256;
+const CHART_HEIGHT = 80;
+
+const CHANNELS = [
+  { key: 'r', color: '#ef4444' },
+  { key: 'g', color: '#22c55e' },
+  { key: 'b', color: '#3b82f6' },
+] as const;
+
+// Filled outline of one channel. Scaled to the tallest bin that isn't a
+// clipping spike, so a blown-out window doesn't flatten the rest of the chart.
+const channelPath = (bins: Uint32Array): string => {
+  let peak = 1;
+  for (let i = 1; i < 255; i++) peak = Math.max(peak, bins[i]);
+  let path = `M0,${CHART_HEIGHT}`;
+  for (let i = 0; i < 256; i++) {
+    const y = CHART_HEIGHT - Math.min(1, bins[i] / peak) * (CHART_HEIGHT - 2);
+    path += ` L${i},${y.toFixed(1)}`;
+  }
+  return `${path} L255,${CHART_HEIGHT} Z`;
+};
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+
+export const HistogramPanel: React.FC<HistogramPanelProps> = ({
+  histogram,
+  isSuggesting,
+  disabled = false,
+  onSuggest,
+  onCancel
+}) => {
+  const [showRgb, setShowRgb] = useState(false);
+  const stats = histogram ? histogramStats(histogram) : null;
+
+  return (
+    <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-700">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="font-medium text-white flex items-center gap-2">
+            <BarChart3 className="w-4 h-4 text-gray-400" />
+            Histogram
+          </h3>
+          <p className="text-xs text-gray-400">
+            {isSuggesting
+              ? 'Adjusting brightness and contrast...'
+              : disabled
+                ? 'This camera does not expose brightness or contrast'
+                : stats && isWellExposed(stats)
+                  ? 'Well distributed'
+                  : 'Suggest adjusts brightness and contrast until the histogram is well distributed'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowRgb(v => !v)}
+            className="px-2 py-1 rounded text-xs font-mono bg-gray-800 hover:bg-gray-700 text-gray-300 transition-colors"
+            title="Switch between luminance and RGB channels"
+          >
+            {showRgb ? 'RGB' : 'LUMA'}
+          </button>
+          {isSuggesting ? (
+            <button
+              onClick={onCancel}
+              className="px-3 py-2 rounded-lg text-sm font-bold bg-red-900/50 hover:bg-red-900 text-red-200 flex items-center gap-2 transition-colors"
+            >
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <X className="w-4 h-4" />
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={onSuggest}
+              disabled={disabled || !histogram}
+              className="px-3 py-2 rounded-lg text-sm font-bold bg-primary-600 hover:bg-primary-500 text-white flex items-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Wand2 className="w-4 h-4" />
+              Suggest
+            </button>
+          )}
+        </div>
+      </div>
+
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-20 bg-gray-950 rounded">
+        {histogram && (showRgb
+          ? CHANNELS.map(c => (
+              <path key={c.key} d={channelPath(histogram[c.key])} fill={c.color} fillOpacity={0.35} stroke={c.color} strokeWidth={0.5} />
+            ))
+          : <path d={channelPath(histogram.luma)} fill="#e5e7eb" fillOpacity={0.6} />)}
+      </svg>
+
+      {stats && (
+        <div className="mt-2 flex justify-between text-xs font-mono">
+          <span className={stats.shadowClip > 0.005 ? 'text-blue-400' : 'text-gray-500'}>
+            Shadows clipped {percent(stats.shadowClip)}
+          </span>
+          <span className="text-gray-400">Mean {stats.mean.toFixed(0)}</span>
+          <span className={stats.highlightClip > 0.005 ? 'text-red-400' : 'text-gray-500'}>
+            Highlights clipped {percent(stats.highlightClip)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { Cpu, KeyRound, Loader2 } from 'lucide-react';
+import { CameraCapabilities, CameraDevice, CameraSettings } from '../types';
+import { AgentCamera, AgentInfo, ApplyResult } from '../services/agentProtocol';
+import {
+  agentCameraMatches,
+  applyViaAgent,
+  forgetAgentCamera,
+  listAgentCameras,
+  setAgentToken,
+  toAgentControls,
+} from '../services/agentClient';
+
+interface NativeAgentPanelProps {
+  agent: AgentInfo;
+  device?: CameraDevice;
+  settings: CameraSettings;
+  capabilities: CameraCapabilities;
+  // Called after a pairing token was entered, to detect the agent again
+  onPaired: () => Promise<AgentInfo | null>;
+}
+
+export const NativeAgentPanel: React.FC<NativeAgentPanelProps> = ({ agent, device, settings, capabilities, onPaired }) => {
+  const [cameras, setCameras] = useState<AgentCamera[]>([]);
+  const [cameraId, setCameraId] = useState('');
+  const [persist, setPersist] = useState(true);
+  const [isApplying, setIsApplying] = useState(false);
+  const [result, setResult] = useState<ApplyResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [token, setToken] = useState('');
+
+  // Re-list when the browser camera changes and preselect the agent's view of it.
+  // App re-detects the agent on every window focus; only pairing matters here.
+  useEffect(() => {
+    if (!agent.authorized) return;
+    listAgentCameras()
+      .then(list => {
+        setCameras(list);
+        const match = device && list.find(c => agentCameraMatches(c, device));
+        setCameraId(match?.id ?? list[0]?.id ?? '');
+        setError(null);
+      })
+      .catch(err => setError((err as Error).message));
+    setResult(null);
+  }, [agent.authorized, device?.deviceId, device?.label]);
+
+  const camera = cameras.find(c => c.id === cameraId);
+
+  const applyNatively = async () => {
+    if (!camera) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      const controls = toAgentControls(settings, capabilities, camera);
+      const applied = await applyViaAgent(camera.id, { controls, persist });
+      setResult(applied);
+      setCameras(prev => prev.map(c => (c.id === camera.id ? { ...c, persisted: applied.persisted } : c)));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const forget = async () => {
+    if (!camera) return;
+    try {
+      await forgetAgentCamera(camera.id);
+      setCameras(prev => prev.map(c => (c.id === camera.id ? { ...c, persisted: false } : c)));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const failed = result?.results.filter(r => !r.ok) ?? [];
+
+  if (!agent.authorized) {
+    return (
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setAgentToken(token);
+          setToken('');
+          onPaired().then(info => setError(info && !info.authorized ? 'The agent rejected this pairing token.' : null));
+        }}
+        className="p-3 rounded-lg border bg-gray-900/50 border-gray-700 text-xs text-gray-400 space-y-2"
+      >
+        <span className="flex items-center gap-2">
+          <Cpu className="w-4 h-4 shrink-0 text-amber-400" />
+          {agent.name} {agent.version} found. Enter the pairing token it printed when it started.
+        </span>
+        <div className="flex items-center gap-2">
+          <input
+            type="password"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            placeholder="Pairing token"
+            autoComplete="off"
+            className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-200 font-mono"
+          />
+          <button
+            type="submit"
+            disabled={!token.trim()}
+            className="px-2 py-1 rounded bg-green-700 hover:bg-green-600 text-white flex items-center gap-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <KeyRound className="w-3 h-3" />
+            Pair
+          </button>
+        </div>
+        {error && <p className="text-red-300">{error}</p>}
+      </form>
+    );
+  }
+
+  return (
+    <div className="p-3 rounded-lg border bg-gray-900/50 border-gray-700 text-xs text-gray-400 space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <span className="flex items-center gap-2 min-w-0">
+          <Cpu className="w-4 h-4 shrink-0 text-green-400" />
+          <span className="truncate">{agent.name} {agent.version} ({agent.backend})</span>
+        </span>
+        <select
+          value={cameraId}
+          onChange={(e) => { setCameraId(e.target.value); setResult(null); }}
+          className="bg-gray-800 border border-gray-700 rounded px-2 py-0.5 text-gray-200 max-w-[180px] truncate"
+        >
+          {cameras.length === 0 && <option value="">No cameras</option>}
+          {cameras.map(c => (
+            <option key={c.id} value={c.id}>
+              {c.name}{c.devicePath ? ` (${c.devicePath})` : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <label className="flex items-center gap-1 cursor-pointer" title="The agent re-applies these settings when it starts and when the camera is plugged in">
+          <input
+            type="checkbox"
+            checked={persist}
+            onChange={(e) => setPersist(e.target.checked)}
+            className="accent-primary-500"
+          />
+          Keep after reboot
+        </label>
+        <div className="flex items-center gap-2">
+          {camera?.persisted && (
+            <button onClick={forget} className="text-gray-500 hover:text-white transition-colors" title="Stop re-applying saved settings to this camera">
+              Forget saved
+            </button>
+          )}
+          <button
+            onClick={applyNatively}
+            disabled={!camera || isApplying}
+            className="px-2 py-1 rounded bg-green-700 hover:bg-green-600 text-white flex items-center gap-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isApplying ? <Loader2 className="w-3 h-3 animate-spin" /> : <Cpu className="w-3 h-3" />}
+            Apply natively
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-red-300">{error}</p>}
+      {result && (
+        <p className={result.ok ? 'text-green-400' : 'text-amber-300'} title={failed.map(r => r.error ?? `${r.ctrl}: ${r.expected} → ${r.actual}`).join('\n')}>
+          {result.ok
+            ? `All ${result.results.length} controls applied and read back${result.persisted ? ', saved for reboot' : ''}.`
+            : `${failed.length} of ${result.results.length} controls did not stick: ${failed.map(r => `${r.ctrl} ${r.expected} → ${r.actual ?? '?'}`).join(', ')}`}
+        </p>
+      )}
+    </div>
+  );
+};
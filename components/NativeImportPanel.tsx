@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, ClipboardPaste, X } from 'lucide-react';
+import { CAMERA_CONTROLS } from '../services/cameraControls';
+import { formatUsbId } from '../services/deviceIdentity';
+import { NativeImport, parseNativeDump } from '../services/nativeImport';
+
+interface NativeImportPanelProps {
+  imported: NativeImport | null;
+  onImport: (imported: NativeImport) => void;
+  onClear: () => void;
+}
+
+const PLACEHOLDER = `Paste the output of one of:
+  v4l2-ctl -d /dev/video0 --list-ctrls
+  v4l2-ctl -d /dev/video0 --all
+  uvc-util -d; uvc-util -I 0 -S '*'`;
+
+export const NativeImportPanel: React.FC<NativeImportPanelProps> = ({ imported, onImport, onClear }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLoad = () => {
+    try {
+      onImport(parseNativeDump(text));
+      setError(null);
+      setIsOpen(false);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  // Imported controls in dashboard order, with their native ranges
+  const rows = imported
+    ? CAMERA_CONTROLS.filter(c => imported.capabilities[c.key] !== undefined).map(c => {
+        const range = c.kind === 'range' ? imported.capabilities[c.key] : undefined;
+        return {
+          key: c.key,
+          label: c.label,
+          value: String(imported.settings[c.key]),
+          range: range ? `${range.min}..${range.max}` : '',
+        };
+      })
+    : [];
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-4 border border-gray-700 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={() => setIsOpen(o => !o)}
+          className="flex items-center gap-2 font-bold text-white"
+        >
+          {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          <ClipboardPaste className="w-4 h-4 text-amber-400" />
+          Import Native State
+        </button>
+        {imported && (
+          <button
+            onClick={onClear}
+            className="px-2 py-1 rounded bg-gray-900 hover:bg-gray-700 text-xs text-gray-300 flex items-center gap-1 transition-colors"
+            title="Generate scripts from the live camera again"
+          >
+            <X className="w-3 h-3" />
+            Use live camera
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={PLACEHOLDER}
+            rows={6}
+            spellCheck={false}
+            className="w-full bg-gray-900 border border-gray-700 rounded p-2 font-mono text-xs text-gray-200 scrollbar-thin"
+          />
+          {error && <p className="text-xs text-red-300">{error}</p>}
+          <button
+            onClick={handleLoad}
+            disabled={!text.trim()}
+            className="w-full bg-amber-600 hover:bg-amber-500 text-white font-medium py-1.5 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Load into Script Generator
+          </button>
+        </div>
+      )}
+
+      {imported && (
+        <div className="mt-3 text-xs text-gray-400">
+          <p className="mb-2">
+            Scripts below are generated from{' '}
+            <span className="text-amber-300">{imported.cameraName ?? 'the imported camera'}</span>
+            {imported.usbId && <span className="font-mono"> ({formatUsbId(imported.usbId)})</span>}
+            {' '}as read by {imported.source}, in native units.
+          </p>
+          <div className="grid grid-cols-3 gap-x-3 gap-y-0.5 font-mono">
+            {rows.map(row => (
+              <React.Fragment key={row.key}>
+                <span className="text-gray-300 truncate" title={row.key}>{row.label}</span>
+                <span className="text-white">{row.value}</span>
+                <span className="text-gray-500">{row.range}</span>
+              </React.Fragment>
+            ))}
+          </div>
+          {imported.unmapped.length > 0 && (
+            <p className="mt-2" title={imported.unmapped.join(', ')}>
+              Ignored {imported.unmapped.length} control(s) FocusLock doesn't manage: {imported.unmapped.join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
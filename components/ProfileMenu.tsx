@@ -0,0 +1,108 @@
+import React, { useRef, useState } from 'react';
+import { BookmarkPlus, Download, Trash2, Upload } from 'lucide-react';
+import { SettingsProfile } from '../types';
+
+interface ProfileMenuProps {
+  profiles: SettingsProfile[];
+  activeProfileId: string | null;
+  onSelect: (profile: SettingsProfile) => void;
+  onSave: (name: string) => void;
+  onDelete: (profile: SettingsProfile) => void;
+  onExport: () => void;
+  onImport: (text: string) => void;
+}
+
+export const ProfileMenu: React.FC<ProfileMenuProps> = ({
+  profiles,
+  activeProfileId,
+  onSelect,
+  onSave,
+  onDelete,
+  onExport,
+  onImport
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+  const active = profiles.find(p => p.id === activeProfileId);
+
+  const submitName = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim()) {
+      onSave(name.trim());
+    }
+    setIsNaming(false);
+    setName('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      onImport(await file.text());
+    }
+  };
+
+  const iconButton = 'p-1 hover:bg-gray-700 rounded-full transition-colors disabled:opacity-40 disabled:hover:bg-transparent';
+
+  return (
+    <div className="flex items-center gap-2 bg-gray-800 p-2 rounded-lg border border-gray-700 shadow-sm">
+      {isNaming ? (
+        <form onSubmit={submitName} className="flex items-center gap-2">
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={() => setIsNaming(false)}
+            placeholder="Profile name"
+            className="bg-gray-900 border border-gray-700 rounded px-2 py-0.5 text-sm text-white w-36"
+          />
+        </form>
+      ) : (
+        <select
+          value={activeProfileId ?? ''}
+          onChange={(e) => {
+            const profile = profiles.find(p => p.id === e.target.value);
+            if (profile) onSelect(profile);
+          }}
+          className="bg-transparent border-none focus:ring-0 text-sm font-medium text-white max-w-[160px] truncate"
+        >
+          <option value="" className="bg-gray-800">
+            {profiles.length ? 'Unsaved settings' : 'No profiles'}
+          </option>
+          {profiles.map(p => (
+            <option key={p.id} value={p.id} className="bg-gray-800">
+              {p.name}
+            </option>
+          ))}
+        </select>
+      )}
+      <button
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={() => {
+          setName(active?.name ?? '');
+          setIsNaming(true);
+        }}
+        className={iconButton}
+        title="Save current settings as profile"
+      >
+        <BookmarkPlus className="w-4 h-4 text-gray-400" />
+      </button>
+      <button
+        onClick={() => active && onDelete(active)}
+        disabled={!active}
+        className={iconButton}
+        title="Delete profile"
+      >
+        <Trash2 className="w-4 h-4 text-gray-400" />
+      </button>
+      <button onClick={onExport} className={iconButton} title="Export profiles (JSON)">
+        <Download className="w-4 h-4 text-gray-400" />
+      </button>
+      <button onClick={() => fileInputRef.current?.click()} className={iconButton} title="Import profiles (JSON)">
+        <Upload className="w-4 h-4 text-gray-400" />
+      </button>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+    </div>
+  );
+};
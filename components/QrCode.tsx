@@ -0,0 +1,41 @@
+import React, { useMemo } from 'react';
+import qrcode from 'qrcode-generator';
+
+interface QrCodeProps {
+  text: string;
+  size?: number;
+}
+
+// Quiet zone around the code, in modules, as scanners expect
+const MARGIN = 2;
+
+export const QrCode: React.FC<QrCodeProps> = ({ text, size = 160 }) => {
+  const { path, count } = useMemo(() => {
+    const qr = qrcode(0, 'M');
+    qr.addData(text);
+    qr.make();
+    const count = qr.getModuleCount();
+    let path = '';
+    for (let row = 0; row < count; row++) {
+      for (let col = 0; col < count; col++) {
+        if (qr.isDark(row, col)) path += `M${col + MARGIN},${row + MARGIN}h1v1h-1z`;
+      }
+    }
+    return { path, count };
+  }, [text]);
+
+  const extent = count + MARGIN * 2;
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${extent} ${extent}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code"
+    >
+      <rect width={extent} height={extent} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { Circle, FileJson, FileSpreadsheet, Square, Trash2 } from 'lucide-react';
+import { CameraSettings } from '../types';
+import { CAMERA_CONTROLS } from '../services/cameraControls';
+import {
+  MAX_RECORDING_MS,
+  RECORDER_RATES,
+  Recording,
+  focusActivity,
+  recordedKeys,
+  recordingFileName,
+  recordingToCsv,
+  recordingToJson,
+} from '../services/settingsRecorder';
+import { downloadFile } from '../services/download';
+
+interface RecorderPanelProps {
+  recording: Recording | null;
+  isRecording: boolean;
+  rateHz: number;
+  onRateChange: (rateHz: number) => void;
+  onStart: () => void;
+  onStop: () => void;
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 90;
+// More points than this are decimated; the chart is only 300 units wide
+const MAX_PLOT_POINTS = 600;
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const labelOf = (key: keyof CameraSettings) => CAMERA_CONTROLS.find(c => c.key === key)?.label ?? key;
+
+export const RecorderPanel: React.FC<RecorderPanelProps> = ({
+  recording,
+  isRecording,
+  rateHz,
+  onRateChange,
+  onStart,
+  onStop,
+  onClear,
+  disabled = false
+}) => {
+  // Third series drawn next to focus distance and sharpness
+  const [overlayKey, setOverlayKey] = useState<keyof CameraSettings | ''>('');
+
+  const samples = recording?.samples ?? [];
+  const stride = Math.max(1, Math.ceil(samples.length / MAX_PLOT_POINTS));
+  const plotted = samples.filter((_, i) => i % stride === 0 || i === samples.length - 1);
+  const duration = samples.length > 0 ? samples[samples.length - 1].t : 0;
+  const numericKeys = recording
+    ? recordedKeys(recording).filter(key => key !== 'focusDistance' && samples.some(s => typeof s.values[key] === 'number'))
+    : [];
+
+  const x = (t: number) => (duration > 0 ? (t / duration) * CHART_WIDTH : 0);
+  // Each series is scaled to its own min..max so they share the chart
+  const seriesPath = (read: (i: number) => number | undefined) => {
+    const points = plotted.map((_, i) => read(i)).filter((v): v is number => v !== undefined);
+    if (points.length === 0) return '';
+    const min = Math.min(...points);
+    const max = Math.max(...points);
+    const y = (v: number) => (max === min ? CHART_HEIGHT / 2 : CHART_HEIGHT - 2 - ((v - min) / (max - min)) * (CHART_HEIGHT - 4));
+    let d = '';
+    plotted.forEach((s, i) => {
+      const v = read(i);
+      if (v !== undefined) d += `${d ? 'L' : 'M'}${x(s.t).toFixed(1)},${y(v).toFixed(1)}`;
+    });
+    return d;
+  };
+  const numberAt = (key: keyof CameraSettings) => (i: number) => {
+    const v = plotted[i].values[key];
+    return typeof v === 'number' ? v : undefined;
+  };
+
+  // Shade the spans where continuous autofocus was on
+  const autoSpans: { from: number; to: number }[] = [];
+  plotted.forEach((s, i) => {
+    if (s.values.focusMode !== 'continuous') return;
+    const to = plotted[i + 1]?.t ?? s.t;
+    const last = autoSpans[autoSpans.length - 1];
+    if (last && last.to === s.t) last.to = to;
+    else autoSpans.push({ from: s.t, to });
+  });
+
+  const auto = focusActivity(samples, 'continuous');
+  const manual = focusActivity(samples, 'manual');
+
+  return (
+    <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-700">
+      <div className="flex items-center justify-between mb-3 gap-3">
+        <div>
+          <h3 className="font-medium text-white">Recorder</h3>
+          <p className="text-xs text-gray-400">
+            {recording
+              ? `${samples.length} samples, ${formatDuration(duration)}${isRecording ? ` of ${formatDuration(MAX_RECORDING_MS)} max (recording)` : ''}`
+              : `Samples camera settings and sharpness over time, up to ${MAX_RECORDING_MS / 60000} minutes`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={rateHz}
+            onChange={(e) => onRateChange(Number(e.target.value))}
+            disabled={isRecording}
+            className="bg-gray-800 border border-gray-700 rounded px-1 py-1 text-xs text-gray-200 disabled:opacity-50"
+            title="Samples per second"
+          >
+            {RECORDER_RATES.map(rate => <option key={rate} value={rate}>{rate} Hz</option>)}
+          </select>
+          {isRecording ? (
+            <button
+              onClick={onStop}
+              className="px-3 py-2 rounded-lg text-sm font-bold bg-red-900/50 hover:bg-red-900 text-red-200 flex items-center gap-2 transition-colors"
+            >
+              <Square className="w-4 h-4" />
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={onStart}
+              disabled={disabled}
+              className="px-3 py-2 rounded-lg text-sm font-bold bg-primary-600 hover:bg-primary-500 text-white flex items-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Circle className="w-4 h-4 text-red-400 fill-red-400" />
+              Record
+            </button>
+          )}
+        </div>
+      </div>
+
+      {samples.length > 1 && (
+        <>
+          <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-24 bg-gray-950 rounded">
+            {autoSpans.map(span => (
+              <rect key={span.from} x={x(span.from)} y={0} width={Math.max(0.5, x(span.to) - x(span.from))} height={CHART_HEIGHT} fill="#0ea5e9" opacity={0.12} />
+            ))}
+            <path d={seriesPath(i => plotted[i].sharpness)} fill="none" stroke="#e879f9" strokeWidth={1} />
+            {overlayKey && <path d={seriesPath(numberAt(overlayKey))} fill="none" stroke="#facc15" strokeWidth={1} />}
+            <path d={seriesPath(numberAt('focusDistance'))} fill="none" stroke="#0ea5e9" strokeWidth={1.5} />
+          </svg>
+          <div className="flex items-center justify-between mt-2 text-xs text-gray-400 gap-2">
+            <span className="flex items-center gap-3">
+              <span className="text-primary-500">Focus</span>
+              <span className="text-fuchsia-400">Sharpness</span>
+              <select
+                value={overlayKey}
+                onChange={(e) => setOverlayKey(e.target.value as keyof CameraSettings | '')}
+                className="bg-gray-800 border border-gray-700 rounded px-1 text-yellow-400"
+              >
+                <option value="">+ series</option>
+                {numericKeys.map(key => <option key={key} value={key}>{labelOf(key)}</option>)}
+              </select>
+            </span>
+            <span className="text-gray-500">Shaded: autofocus on</span>
+          </div>
+          <table className="w-full mt-2 text-xs font-mono text-gray-300">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-normal"></th>
+                <th className="text-right font-normal">Time</th>
+                <th className="text-right font-normal" title="Changes of focus direction">Reversals/min</th>
+                <th className="text-right font-normal" title="Total focus distance moved">Travel</th>
+              </tr>
+            </thead>
+            <tbody>
+              {([['AUTO', auto], ['MANUAL', manual]] as const).filter(([, a]) => a.durationMs > 0).map(([mode, a]) => (
+                <tr key={mode}>
+                  <td>{mode}</td>
+                  <td className="text-right">{formatDuration(a.durationMs)}</td>
+                  <td className="text-right">{a.reversalsPerMinute.toFixed(1)}</td>
+                  <td className="text-right">{parseFloat(a.travel.toFixed(2))}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {recording && !isRecording && (
+        <div className="flex items-center gap-2 mt-3">
+          <button
+            onClick={() => downloadFile(recordingToCsv(recording), 'text/csv', recordingFileName(recording, 'csv'))}
+            className="px-2 py-1 rounded bg-gray-800 hover:bg-gray-700 text-gray-200 text-xs flex items-center gap-1 transition-colors"
+          >
+            <FileSpreadsheet className="w-3 h-3" />
+            CSV
+          </button>
+          <button
+            onClick={() => downloadFile(recordingToJson(recording), 'application/json', recordingFileName(recording, 'json'))}
+            className="px-2 py-1 rounded bg-gray-800 hover:bg-gray-700 text-gray-200 text-xs flex items-center gap-1 transition-colors"
+          >
+            <FileJson className="w-3 h-3" />
+            JSON
+          </button>
+          <button
+            onClick={onClear}
+            className="ml-auto p-1 text-gray-500 hover:text-red-400 transition-colors"
+            title="Discard recording"
+          >
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
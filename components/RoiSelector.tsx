@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RegionOfInterest } from '../types';
+
+interface RoiSelectorProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  regionOfInterest?: RegionOfInterest;
+  isDrawing: boolean;
+  onChange: (roi: RegionOfInterest) => void;
+}
+
+interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Selections smaller than this (normalized) are treated as a stray click
+const MIN_SIZE = 0.02;
+
+// Where the frame is actually drawn inside an object-contain <video>
+const getContentBox = (video: HTMLVideoElement): Box => {
+  const { clientWidth, clientHeight, videoWidth, videoHeight } = video;
+  if (!videoWidth || !videoHeight) return { left: 0, top: 0, width: clientWidth, height: clientHeight };
+  const scale = Math.min(clientWidth / videoWidth, clientHeight / videoHeight);
+  const width = videoWidth * scale;
+  const height = videoHeight * scale;
+  return { left: (clientWidth - width) / 2, top: (clientHeight - height) / 2, width, height };
+};
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+export const RoiSelector: React.FC<RoiSelectorProps> = ({ videoRef, regionOfInterest, isDrawing, onChange }) => {
+  const [box, setBox] = useState<Box | null>(null);
+  const [draft, setDraft] = useState<RegionOfInterest | null>(null);
+  const anchorRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const update = () => setBox(getContentBox(video));
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(video);
+    video.addEventListener('loadedmetadata', update);
+    return () => {
+      observer.disconnect();
+      video.removeEventListener('loadedmetadata', update);
+    };
+  }, [videoRef]);
+
+  const toNormalized = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: clamp01((e.clientX - rect.left) / rect.width),
+      y: clamp01((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isDrawing) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    anchorRef.current = toNormalized(e);
+    setDraft(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const anchor = anchorRef.current;
+    if (!anchor) return;
+    const p = toNormalized(e);
+    setDraft({
+      x: Math.min(anchor.x, p.x),
+      y: Math.min(anchor.y, p.y),
+      width: Math.abs(p.x - anchor.x),
+      height: Math.abs(p.y - anchor.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    anchorRef.current = null;
+    if (draft && draft.width >= MIN_SIZE && draft.height >= MIN_SIZE) {
+      onChange(draft);
+    }
+    setDraft(null);
+  };
+
+  const shown = draft ?? regionOfInterest;
+  if (!box || (!isDrawing && !shown)) return null;
+
+  return (
+    <div
+      className={`absolute ${isDrawing ? 'cursor-crosshair' : 'pointer-events-none'}`}
+      style={{ left: box.left, top: box.top, width: box.width, height: box.height }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {shown && (
+        <div
+          className="absolute border-2 border-amber-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]"
+          style={{
+            left: `${shown.x * 100}%`,
+            top: `${shown.y * 100}%`,
+            width: `${shown.width * 100}%`,
+            height: `${shown.height * 100}%`,
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Clock, Plus, Trash2 } from 'lucide-react';
+import { ScheduleEntry, SettingsProfile, SettingsSchedule } from '../types';
+import { activeEntry, entryEnd, isStartTaken, isValidTime, sortedEntries } from '../services/scheduleStore';
+
+interface SchedulePanelProps {
+  schedule: SettingsSchedule;
+  profiles: SettingsProfile[];
+  onChange: (schedule: Pick<SettingsSchedule, 'enabled' | 'entries'>) => void;
+}
+
+export const SchedulePanel: React.FC<SchedulePanelProps> = ({ schedule, profiles, onChange }) => {
+  const { enabled, entries } = schedule;
+  const active = activeEntry(entries);
+  const activeProfile = active && profiles.find(p => p.id === active.profileId);
+  // A start time that was refused because another window has it
+  const [conflict, setConflict] = useState<string | null>(null);
+
+  const updateEntry = (id: string, patch: Partial<ScheduleEntry>) => {
+    if (patch.start !== undefined && isStartTaken(entries, patch.start, id)) {
+      setConflict(patch.start);
+      return;
+    }
+    setConflict(null);
+    onChange({ enabled, entries: entries.map(e => (e.id === id ? { ...e, ...patch } : e)) });
+  };
+
+  // Start a new window a few hours after the latest one, on the next free hour
+  const last = sortedEntries(entries).pop();
+  const firstHour = last ? Number(last.start.slice(0, 2)) + 4 : 9;
+  const nextStart = Array.from({ length: 24 }, (_, i) => `${String((firstHour + i) % 24).padStart(2, '0')}:00`)
+    .find(start => !isStartTaken(entries, start));
+
+  const addEntry = () => {
+    if (!nextStart) return;
+    const entry: ScheduleEntry = {
+      id: crypto.randomUUID(),
+      start: nextStart,
+      profileId: profiles[0].id,
+    };
+    onChange({ enabled, entries: [...entries, entry] });
+  };
+
+  return (
+    <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-700">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="font-medium text-white flex items-center gap-2">
+            <Clock className="w-4 h-4 text-gray-400" />
+            Schedule
+          </h3>
+          <p className="text-xs text-gray-400">
+            {profiles.length === 0
+              ? 'Save a profile for this camera to schedule it by time of day'
+              : enabled && active
+                ? `Now: ${activeProfile?.name ?? 'missing profile'} until ${entryEnd(entries, active)}`
+                : 'Switch profiles automatically as the lighting changes during the day'}
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={enabled}
+            disabled={entries.length === 0}
+            onChange={(e) => onChange({ enabled: e.target.checked, entries })}
+            className="accent-primary-500"
+          />
+          Active
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        {sortedEntries(entries).concat(entries.filter(e => !isValidTime(e.start))).map(entry => (
+          <div key={entry.id} className="flex items-center gap-2 text-sm">
+            <input
+              type="time"
+              value={entry.start}
+              onChange={(e) => updateEntry(entry.id, { start: e.target.value })}
+              className={`bg-gray-800 border rounded px-2 py-1 text-white font-mono ${
+                entry.id === active?.id && enabled ? 'border-primary-500' : 'border-gray-700'
+              }`}
+            />
+            <select
+              value={entry.profileId}
+              onChange={(e) => updateEntry(entry.id, { profileId: e.target.value })}
+              className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white"
+            >
+              {!profiles.some(p => p.id === entry.profileId) && <option value={entry.profileId}>(deleted profile)</option>}
+              {profiles.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange({ enabled: enabled && entries.length > 1, entries: entries.filter(e => e.id !== entry.id) })}
+              className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+              title="Remove window"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        {conflict && <p className="text-xs text-amber-300">Another window already starts at {conflict}.</p>}
+        <button
+          onClick={addEntry}
+          disabled={profiles.length === 0 || !nextStart}
+          className="w-full py-1.5 rounded border border-dashed border-gray-700 text-xs text-gray-400 hover:text-white hover:border-gray-500 flex items-center justify-center gap-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus className="w-3 h-3" />
+          Add time window
+        </button>
+      </div>
+    </div>
+  );
+};
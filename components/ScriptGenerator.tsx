@@ -1,32 +1,148 @@
-import React, { useState } from 'react';
-import { CameraSettings, OS, ScriptGenerationParams, ScriptType } from '../types';
-import { generateSystemScript } from '../services/geminiService';
-import { Terminal, Copy, Loader2, Save, FileCode, Command, AlertCircle, CheckCircle2 } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { CameraCapabilities, CameraScriptTarget, CameraSettings, GeneratorOptions, OS, ScheduleSlot, ScriptGenerationParams, ScriptType } from '../types';
+import { generateCombinedScript, generateSystemScript, listGenerators, scriptFileName } from '../services/scriptGenerators';
+import { formatUsbId, parseUsbId, parseUsbIdInput } from '../services/deviceIdentity';
+import { InstallerParams, canInstall, generateInstallerFiles } from '../services/installers';
+import { createZip } from '../services/zipArchive';
+import { dispatcherFileName, renderScheduleDispatcher, slotFileName } from '../services/scheduleScripts';
+import { SharedConfig, buildShareUrl } from '../services/shareLink';
+import { ClampResult, clampSettings } from '../services/settingsValidation';
+import { downloadFile } from '../services/download';
+import { QrCode } from './QrCode';
+import { Terminal, Copy, Loader2, Save, FileCode, Command, AlertCircle, CheckCircle2, PackageOpen, Download, Hexagon, Film, SlidersHorizontal, AlertTriangle, QrCode as QrCodeIcon } from 'lucide-react';
 
 interface ScriptGeneratorProps {
   currentSettings: CameraSettings;
   cameraLabel: string;
+  capabilities?: CameraCapabilities;
+  // Ranges of an imported native dump; its values are already in these units
+  nativeRanges?: CameraCapabilities;
+  // When set, generates one combined script for all of these cameras instead
+  cameras?: CameraScriptTarget[];
+  // Script target from a shared link, selected when it changes
+  sharedTarget?: Pick<SharedConfig, 'os' | 'scriptType' | 'options'>;
+  // Time-of-day schedule the single-camera script can follow instead of `currentSettings`
+  schedule?: ScheduleSlot[];
 }
 
-export const ScriptGenerator: React.FC<ScriptGeneratorProps> = ({ currentSettings, cameraLabel }) => {
+// Generators without an entry here get the generic file icon
+const GENERATOR_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
+  python: FileCode,
+  native: Command,
+  node: Hexagon,
+  ffmpeg: Film,
+  'v4l2-preset': SlidersHorizontal,
+};
+
+// Without capabilities (e.g. settings typed in elsewhere) there is nothing to fit to
+const fitSettings = (settings: CameraSettings, capabilities?: CameraCapabilities): ClampResult =>
+  capabilities ? clampSettings(settings, capabilities) : { settings, adjusted: [], unsupported: [] };
+
+export const ScriptGenerator: React.FC<ScriptGeneratorProps> = ({ currentSettings, cameraLabel, capabilities, nativeRanges, cameras, sharedTarget, schedule }) => {
   const [selectedOS, setSelectedOS] = useState<OS>(OS.WINDOWS);
   const [scriptType, setScriptType] = useState<ScriptType>('python');
   const [generatedScript, setGeneratedScript] = useState<string>('');
+  // File name for the script download, fixed when the script is generated
+  const [scriptFile, setScriptFile] = useState('');
+  // What the current script was generated for, so the installer matches it
+  const [installerParams, setInstallerParams] = useState<InstallerParams | null>(null);
+  // Per-window scripts when the current script is a schedule dispatcher
+  const [slotScripts, setSlotScripts] = useState<InstallerParams['schedule'] | null>(null);
+  const [followSchedule, setFollowSchedule] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Optionally pin the script to the camera's USB vendor/product ID
+  const [pinUsbId, setPinUsbId] = useState(false);
+  const [usbIdText, setUsbIdText] = useState('');
+  // Values of the selected generator's options; unset ones use their defaults
+  const [options, setOptions] = useState<GeneratorOptions>({});
+
+  const generators = listGenerators(selectedOS);
+  const generator = generators.find(g => g.id === scriptType);
+  // Schedules are run by the installed triggers, so the output must be launchable
+  const canFollowSchedule = !cameras && !!schedule?.length && !!generator && canInstall(selectedOS, scriptType);
+
+  // Settings are fitted to each camera's ranges before generating. What didn't
+  // fit is listed up front; optional controls a camera lacks are left out.
+  const following = followSchedule && canFollowSchedule && !!schedule;
+  const fits = cameras
+    ? cameras.map(camera => ({ label: camera.cameraName, ...fitSettings(camera.settings, camera.capabilities) }))
+    : following
+      ? schedule.map(slot => ({ label: `${slot.start} ${slot.name}`, ...fitSettings(slot.settings, capabilities) }))
+      : [{ label: '', ...fitSettings(currentSettings, capabilities) }];
+  const fitWarnings = fits.flatMap(fit =>
+    [...fit.unsupported, ...fit.adjusted].map(issue => (fit.label ? `${fit.label}: ${issue.message}` : issue.message)));
+
+  // Link (and QR code) that reproduces the current settings and target elsewhere
+  const [showShare, setShowShare] = useState(false);
+  const shareUrl = cameras ? '' : buildShareUrl({ cameraLabel, settings: currentSettings, os: selectedOS, scriptType, options });
+
+  useEffect(() => {
+    if (!sharedTarget) return;
+    setSelectedOS(sharedTarget.os);
+    setScriptType(sharedTarget.scriptType);
+    setOptions(sharedTarget.options ?? {});
+  }, [sharedTarget]);
+
+  // Not every generator supports every OS; fall back to the first one that does
+  useEffect(() => {
+    if (!generator && generators.length > 0) setScriptType(generators[0].id);
+  }, [selectedOS, scriptType]);
+
+  useEffect(() => {
+    const detected = parseUsbId(cameraLabel);
+    setUsbIdText(detected ? formatUsbId(detected) : '');
+  }, [cameraLabel]);
+
   const handleGenerate = async () => {
     setIsLoading(true);
     setError(null);
     try {
+      // Simulate small delay for better UX feel
+      await new Promise(resolve => setTimeout(resolve, 600));
+      if (cameras) {
+        const targets = cameras.map((camera, i) => ({
+          ...camera,
+          settings: fits[i].settings,
+          usbId: pinUsbId ? parseUsbId(camera.cameraName) ?? undefined : undefined,
+        }));
+        const script = await generateCombinedScript({ os: selectedOS, cameras: targets, scriptType, options });
+        setGeneratedScript(script);
+        setScriptFile(scriptFileName(selectedOS, scriptType));
+        setSlotScripts(null);
+        setInstallerParams(canInstall(selectedOS, scriptType) ? { os: selectedOS, scriptType, script, cameras: targets } : null);
+        return;
+      }
+      const usbId = pinUsbId ? parseUsbIdInput(usbIdText) : null;
+      if (pinUsbId && !usbId) {
+        throw new Error("USB ID must look like 046d:082d (vendor:product, hex).");
+      }
       const params: ScriptGenerationParams = {
         os: selectedOS,
         cameraName: cameraLabel || 'Default Camera',
-        settings: currentSettings,
-        scriptType: scriptType
+        settings: fits[0].settings,
+        scriptType: scriptType,
+        usbId: usbId ?? undefined,
+        capabilities,
+        nativeRanges,
+        options
       };
+      if (following) {
+        const scripts = await Promise.all(fits.map(fit => generateSystemScript({ ...params, settings: fit.settings })));
+        const slots = schedule.map((slot, i) => ({ start: slot.start, script: scripts[i] }));
+        const script = renderScheduleDispatcher(params.os, scriptType, schedule);
+        setGeneratedScript(script);
+        setScriptFile(dispatcherFileName(params.os));
+        setSlotScripts(slots);
+        setInstallerParams({ os: params.os, scriptType, script, cameras: [params], schedule: slots });
+        return;
+      }
       const script = await generateSystemScript(params);
       setGeneratedScript(script);
+      setScriptFile(scriptFileName(params.os, scriptType));
+      setSlotScripts(null);
+      setInstallerParams(canInstall(params.os, scriptType) ? { os: params.os, scriptType, script, cameras: [params] } : null);
     } catch (err) {
       setError((err as Error).message);
     } finally {
@@ -40,12 +156,38 @@ export const ScriptGenerator: React.FC<ScriptGeneratorProps> = ({ currentSetting
     }
   };
 
+  const downloadInstaller = () => {
+    if (!installerParams) return;
+    const zip = createZip(generateInstallerFiles(installerParams));
+    downloadFile(zip, 'application/zip', `focuslock-installer-${installerParams.os.toLowerCase()}.zip`);
+  };
+
+  const downloadScript = () => {
+    if (!generatedScript) return;
+    if (!slotScripts) {
+      downloadFile(generatedScript, 'text/plain', scriptFile);
+      return;
+    }
+    // The dispatcher is useless without the window scripts next to it
+    const os = installerParams?.os ?? selectedOS;
+    const zip = createZip([
+      { path: scriptFile, content: `${generatedScript}\n`, executable: os !== OS.WINDOWS },
+      ...slotScripts.map(slot => ({
+        path: slotFileName(os, scriptType, slot.start),
+        content: `${slot.script}\n`,
+        executable: os !== OS.WINDOWS,
+      })),
+    ]);
+    downloadFile(zip, 'application/zip', 'focuslock-schedule.zip');
+  };
+
   return (
     <div className="bg-gray-800 rounded-xl p-6 border border-gray-700 h-full flex flex-col">
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-xl font-bold text-white flex items-center gap-2">
           <Terminal className="w-5 h-5 text-green-400" />
           Persistence Script
+          {cameras && <span className="text-xs font-normal text-gray-400">({cameras.length} cameras)</span>}
         </h2>
         <div className="flex gap-2 bg-gray-900 p-1 rounded-lg">
           {(Object.values(OS) as OS[]).map((os) => (
@@ -65,44 +207,103 @@ export const ScriptGenerator: React.FC<ScriptGeneratorProps> = ({ currentSetting
       </div>
 
       <div className="flex bg-gray-900 p-1 rounded-lg mb-4 w-full">
-        <button
-          onClick={() => setScriptType('python')}
-          className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-md text-sm font-medium transition-all ${
-            scriptType === 'python' 
-              ? 'bg-gray-700 text-white shadow-sm' 
-              : 'text-gray-400 hover:text-gray-300'
-          }`}
-        >
-          <FileCode className="w-4 h-4" />
-          Python (Recommended)
-        </button>
-        <button
-          onClick={() => setScriptType('native')}
-          className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-md text-sm font-medium transition-all ${
-            scriptType === 'native' 
-              ? 'bg-gray-700 text-white shadow-sm' 
-              : 'text-gray-400 hover:text-gray-300'
-          }`}
-        >
-          <Command className="w-4 h-4" />
-          Shell Script
-        </button>
+        {generators.map((g) => {
+          const Icon = GENERATOR_ICONS[g.id] ?? FileCode;
+          return (
+            <button
+              key={g.id}
+              onClick={() => setScriptType(g.id)}
+              className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-md text-sm font-medium transition-all ${
+                scriptType === g.id
+                  ? 'bg-gray-700 text-white shadow-sm'
+                  : 'text-gray-400 hover:text-gray-300'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              {g.name}
+            </button>
+          );
+        })}
       </div>
 
       <p className="text-gray-400 text-xs mb-4 leading-relaxed">
-        {scriptType === 'native' 
-          ? "Generates a shell script. Good for Linux (Bash). For Windows, Python is recommended as native PowerShell lacks webcam controls."
-          : "Generates a standalone script using OpenCV. Can be compiled to .exe (Windows) or binary (Linux/Mac) and runs reliably on startup."
-        }
+        {generator?.description}
       </p>
 
+      <div className="flex items-center gap-3 mb-4 text-xs text-gray-400">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={pinUsbId}
+            onChange={(e) => setPinUsbId(e.target.checked)}
+            className="accent-primary-500"
+          />
+          Pin by USB ID
+        </label>
+        {cameras ? (
+          pinUsbId && <span>Uses the ID in each camera's label where available</span>
+        ) : (
+          <input
+            value={usbIdText}
+            onChange={(e) => setUsbIdText(e.target.value)}
+            disabled={!pinUsbId}
+            placeholder="vendor:product"
+            className="bg-gray-900 border border-gray-700 rounded px-2 py-1 font-mono text-gray-200 w-32 disabled:opacity-50"
+          />
+        )}
+        {generator?.options.map((option, i) => (
+          <label
+            key={option.key}
+            className={`flex items-center gap-2 cursor-pointer ${i === 0 ? 'ml-auto' : ''}`}
+            title={option.description}
+          >
+            <input
+              type="checkbox"
+              checked={options[option.key] ?? option.default}
+              onChange={(e) => setOptions({ ...options, [option.key]: e.target.checked })}
+              className="accent-primary-500"
+            />
+            {option.label}
+          </label>
+        ))}
+        {!cameras && !!schedule?.length && (
+          <label
+            className={`flex items-center gap-2 ${canFollowSchedule ? 'cursor-pointer' : 'opacity-50'} ${generator?.options.length ? '' : 'ml-auto'}`}
+            title={canFollowSchedule
+              ? 'One script per time window, plus a dispatcher that runs the current one at login, on plug-in and at each window start'
+              : `${generator?.name ?? 'This'} output can't be run on a schedule`}
+          >
+            <input
+              type="checkbox"
+              checked={followSchedule && canFollowSchedule}
+              disabled={!canFollowSchedule}
+              onChange={(e) => setFollowSchedule(e.target.checked)}
+              className="accent-primary-500"
+            />
+            Follow schedule ({schedule.length})
+          </label>
+        )}
+      </div>
+
+      {fitWarnings.length > 0 && (
+        <div className="bg-amber-900/30 border border-amber-800 text-amber-200 p-3 rounded-lg text-xs mb-4">
+          <div className="flex items-center gap-2 font-bold mb-1 text-amber-100">
+            <AlertTriangle className="w-4 h-4" />
+            <span>{cameras ? 'Some settings don\'t fit their camera' : 'Some settings don\'t fit this camera'}</span>
+          </div>
+          <ul className="max-h-24 overflow-y-auto scrollbar-thin space-y-0.5">
+            {fitWarnings.map(warning => <li key={warning}>{warning}</li>)}
+          </ul>
+        </div>
+      )}
+
       <button
         onClick={handleGenerate}
-        disabled={isLoading}
+        disabled={isLoading || cameras?.length === 0}
         className="w-full bg-green-600 hover:bg-green-700 text-white font-medium py-2 rounded-lg transition-colors flex items-center justify-center gap-2 mb-4 disabled:opacity-50 disabled:cursor-not-allowed"
       >
         {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
-        Generate Script
+        {cameras ? 'Generate Scripts for All' : 'Generate Script'}
       </button>
 
       {error && (
@@ -121,6 +322,22 @@ export const ScriptGenerator: React.FC<ScriptGeneratorProps> = ({ currentSetting
              <span className="text-xs text-green-500 bg-green-900/30 px-2 py-1 rounded flex items-center gap-1">
                <CheckCircle2 className="w-3 h-3" /> Ready
              </span>
+             {installerParams && (
+               <button
+                 onClick={downloadInstaller}
+                 className="p-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-md transition-colors"
+                 title={`Download Installer (runs at login and on camera plug-in, ${installerParams.os})`}
+               >
+                 <PackageOpen className="w-4 h-4" />
+               </button>
+             )}
+             <button
+               onClick={downloadScript}
+               className="p-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-md transition-colors"
+               title={slotScripts ? `Download ${scriptFile} with ${slotScripts.length} window scripts` : `Download ${scriptFile}`}
+             >
+               <Download className="w-4 h-4" />
+             </button>
              <button
               onClick={copyToClipboard}
               className="p-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-md transition-colors"
@@ -128,7 +345,32 @@ export const ScriptGenerator: React.FC<ScriptGeneratorProps> = ({ currentSetting
             >
               <Copy className="w-4 h-4" />
             </button>
+             {shareUrl && (
+               <button
+                 onClick={() => setShowShare(s => !s)}
+                 className={`p-1.5 rounded-md transition-colors ${showShare ? 'bg-primary-600 text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-300'}`}
+                 title="Share these settings as a link / QR code"
+               >
+                 <QrCodeIcon className="w-4 h-4" />
+               </button>
+             )}
           </div>
+
+          {showShare && shareUrl && (
+            <div className="absolute top-11 right-2 z-10 bg-gray-900 border border-gray-700 rounded-lg p-3 shadow-xl w-56 flex flex-col items-center gap-2">
+              <QrCode text={shareUrl} size={176} />
+              <p className="text-xs text-gray-400 text-center">
+                Opens FocusLock with these settings and this {selectedOS} script target.
+              </p>
+              <button
+                onClick={() => navigator.clipboard.writeText(shareUrl)}
+                className="w-full text-xs py-1 rounded bg-gray-800 hover:bg-gray-700 text-gray-200 flex items-center justify-center gap-1 transition-colors"
+              >
+                <Copy className="w-3 h-3" />
+                Copy link
+              </button>
+            </div>
+          )}
           
           <div className="h-full overflow-auto scrollbar-thin p-4 pt-10">
             <pre className="text-sm font-mono text-blue-300 whitespace-pre-wrap">
@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { Columns2, RotateCcw, SplitSquareHorizontal, Trash2, X } from 'lucide-react';
+import { CameraSettings, Snapshot } from '../types';
+import { CAMERA_CONTROLS } from '../services/cameraControls';
+
+interface SnapshotGalleryProps {
+  snapshots: Snapshot[];
+  onRestore: (snapshot: Snapshot) => void;
+  onDelete: (snapshot: Snapshot) => void;
+  onClose: () => void;
+}
+
+type CompareMode = 'side' | 'wipe';
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '-';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(3);
+  if (typeof value === 'object' && value !== null) return 'set';
+  return String(value);
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString();
+
+// Dashboard controls plus the ROI, in dashboard order
+const SETTING_ROWS: { key: keyof CameraSettings; label: string }[] = [
+  ...CAMERA_CONTROLS.map(c => ({ key: c.key, label: c.label })),
+  { key: 'regionOfInterest', label: 'Region of Interest' },
+];
+
+export const SnapshotGallery: React.FC<SnapshotGalleryProps> = ({ snapshots, onRestore, onDelete, onClose }) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [aId, setAId] = useState<string | null>(null);
+  const [bId, setBId] = useState<string | null>(null);
+  const [mode, setMode] = useState<CompareMode>('side');
+  const [wipe, setWipe] = useState(50);
+
+  useEffect(() => {
+    const next: Record<string, string> = {};
+    for (const s of snapshots) next[s.id] = URL.createObjectURL(s.image);
+    setUrls(next);
+    return () => Object.values(next).forEach(url => URL.revokeObjectURL(url));
+  }, [snapshots]);
+
+  // Default to comparing the two most recent captures
+  useEffect(() => {
+    const ids = snapshots.map(s => s.id);
+    if (!aId || !ids.includes(aId)) setAId(ids[ids.length - 2] ?? ids[ids.length - 1] ?? null);
+    if (!bId || !ids.includes(bId)) setBId(ids.length > 1 ? ids[ids.length - 1] : null);
+  }, [snapshots]);
+
+  const a = snapshots.find(s => s.id === aId);
+  const b = snapshots.find(s => s.id === bId);
+  const rows = SETTING_ROWS.filter(r => a?.settings[r.key] !== undefined || b?.settings[r.key] !== undefined);
+
+  const pane = (snapshot: Snapshot | undefined, tag: string) => (
+    <div className="flex-1 min-w-0 bg-black rounded-lg overflow-hidden flex items-center justify-center relative">
+      {snapshot ? (
+        <img src={urls[snapshot.id]} alt={`Capture ${tag}`} className="max-w-full max-h-full object-contain" />
+      ) : (
+        <p className="text-gray-500 text-sm">Pick a capture for {tag}</p>
+      )}
+      <span className="absolute top-2 left-2 px-2 py-0.5 bg-black/60 rounded text-xs font-mono text-white">{tag}</span>
+    </div>
+  );
+
+  const restoreButton = (snapshot: Snapshot | undefined, tag: string) => (
+    <button
+      onClick={() => snapshot && onRestore(snapshot)}
+      disabled={!snapshot}
+      className="px-3 py-1.5 rounded-lg text-xs font-bold bg-primary-600 hover:bg-primary-500 text-white flex items-center gap-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      <RotateCcw className="w-3 h-3" />
+      Restore {tag}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm p-4 md:p-8 flex flex-col">
+      <div className="bg-gray-800 rounded-xl border border-gray-700 flex flex-col flex-1 min-h-0 overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="text-lg font-bold text-white">Snapshots</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setMode('side')}
+              className={`p-1.5 rounded-md transition-colors ${mode === 'side' ? 'bg-primary-600 text-white' : 'bg-gray-900 text-gray-300 hover:bg-gray-700'}`}
+              title="Side by side"
+            >
+              <Columns2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setMode('wipe')}
+              className={`p-1.5 rounded-md transition-colors ${mode === 'wipe' ? 'bg-primary-600 text-white' : 'bg-gray-900 text-gray-300 hover:bg-gray-700'}`}
+              title="Slider wipe"
+            >
+              <SplitSquareHorizontal className="w-4 h-4" />
+            </button>
+            <button onClick={onClose} className="p-1.5 rounded-md bg-gray-900 text-gray-300 hover:bg-gray-700 transition-colors" title="Close">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {snapshots.length === 0 ? (
+          <p className="p-8 text-center text-gray-400 text-sm">No snapshots yet. Use SNAP on the preview to capture one.</p>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col lg:flex-row">
+            <div className="flex-1 min-h-0 flex flex-col gap-3 p-4">
+              {mode === 'side' ? (
+                <div className="flex-1 min-h-0 flex gap-3">
+                  {pane(a, 'A')}
+                  {pane(b, 'B')}
+                </div>
+              ) : (
+                <div className="flex-1 min-h-0 flex flex-col gap-2">
+                  <div className="flex-1 min-h-0 bg-black rounded-lg overflow-hidden relative">
+                    {b && <img src={urls[b.id]} alt="Capture B" className="absolute inset-0 w-full h-full object-contain" />}
+                    {a && (
+                      <img
+                        src={urls[a.id]}
+                        alt="Capture A"
+                        className="absolute inset-0 w-full h-full object-contain"
+                        style={{ clipPath: `inset(0 ${100 - wipe}% 0 0)` }}
+                      />
+                    )}
+                    <div className="absolute inset-y-0 w-px bg-white/80 pointer-events-none" style={{ left: `${wipe}%` }} />
+                    <span className="absolute top-2 left-2 px-2 py-0.5 bg-black/60 rounded text-xs font-mono text-white">A</span>
+                    <span className="absolute top-2 right-2 px-2 py-0.5 bg-black/60 rounded text-xs font-mono text-white">B</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={wipe}
+                    onChange={(e) => setWipe(Number(e.target.value))}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-500"
+                  />
+                </div>
+              )}
+
+              <div className="flex gap-2 overflow-x-auto scrollbar-thin pb-1">
+                {snapshots.map(s => (
+                  <div key={s.id} className="shrink-0 w-32 bg-gray-900 rounded-lg border border-gray-700 overflow-hidden">
+                    <img src={urls[s.id]} alt="" className="w-full h-20 object-cover" />
+                    <div className="p-1 flex items-center gap-1">
+                      <button
+                        onClick={() => setAId(s.id)}
+                        className={`flex-1 text-xs rounded font-mono ${s.id === aId ? 'bg-primary-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                      >
+                        A
+                      </button>
+                      <button
+                        onClick={() => setBId(s.id)}
+                        className={`flex-1 text-xs rounded font-mono ${s.id === bId ? 'bg-primary-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                      >
+                        B
+                      </button>
+                      <button onClick={() => onDelete(s)} className="p-0.5 text-gray-500 hover:text-red-400" title="Delete">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="lg:w-80 border-t lg:border-t-0 lg:border-l border-gray-700 p-4 overflow-y-auto scrollbar-thin text-xs">
+              <div className="flex gap-2 mb-3">
+                {restoreButton(a, 'A')}
+                {restoreButton(b, 'B')}
+              </div>
+              <table className="w-full font-mono">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="text-left font-normal pb-1"></th>
+                    <th className="text-right font-normal pb-1">A</th>
+                    <th className="text-right font-normal pb-1">B</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="text-gray-400">
+                    <td>Captured</td>
+                    <td className="text-right">{a ? formatTime(a.capturedAt) : '-'}</td>
+                    <td className="text-right">{b ? formatTime(b.capturedAt) : '-'}</td>
+                  </tr>
+                  <tr className="text-gray-400">
+                    <td>Size</td>
+                    <td className="text-right">{a ? `${a.width}×${a.height}` : '-'}</td>
+                    <td className="text-right">{b ? `${b.width}×${b.height}` : '-'}</td>
+                  </tr>
+                  <tr className="text-fuchsia-400">
+                    <td>Sharpness</td>
+                    <td className="text-right">{a ? a.sharpness.toFixed(0) : '-'}</td>
+                    <td className="text-right">{b ? b.sharpness.toFixed(0) : '-'}</td>
+                  </tr>
+                  {rows.map(r => {
+                    const av = formatValue(a?.settings[r.key]);
+                    const bv = formatValue(b?.settings[r.key]);
+                    return (
+                      <tr key={r.key} className={av !== bv ? 'text-amber-300' : 'text-gray-300'}>
+                        <td className="truncate pr-2" title={r.key}>{r.label}</td>
+                        <td className="text-right">{av}</td>
+                        <td className="text-right">{bv}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {(a || b) && (
+                <details className="mt-3 text-gray-400">
+                  <summary className="cursor-pointer">Track readback</summary>
+                  {[a, b].map((s, i) => s && (
+                    <pre key={s.id} className="mt-2 p-2 bg-gray-900 rounded overflow-x-auto">
+                      {`${i === 0 ? 'A' : 'B'} (${s.method})\n${JSON.stringify(s.trackSettings, null, 2)}`}
+                    </pre>
+                  ))}
+                </details>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { CameraCapabilities, CameraDevice, CameraSettings } from '../types';
+import { DEFAULT_SETTINGS, buildConstraintSet } from '../services/cameraControls';
+import { ControlStatusMap } from '../services/constraintReadback';
+import { applyConstraintSet, initialSettings, openCamera } from '../services/cameraStream';
+import { getLastProfile } from '../services/profileStore';
+import { clampSettings } from '../services/settingsValidation';
+
+// Self-contained stream + settings for one camera, used by the dashboard where
+// several cameras are open at once.
+
+// Several cameras often share one USB controller; 720p keeps bandwidth in check
+const DASHBOARD_RESOLUTION = { width: 1280, height: 720 };
+
+export interface CameraTrack {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  capabilities: CameraCapabilities;
+  settings: CameraSettings;
+  // Readback of what the camera did with each control
+  controlStatus: ControlStatusMap;
+  error: string | null;
+  updateSetting: (key: keyof CameraSettings, value: CameraSettings[keyof CameraSettings]) => void;
+}
+
+export const useCameraTrack = ({ deviceId, label }: CameraDevice): CameraTrack => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const capabilitiesRef = useRef<CameraCapabilities>({});
+  const [capabilities, setCapabilities] = useState<CameraCapabilities>({});
+  const [settings, setSettings] = useState<CameraSettings>(DEFAULT_SETTINGS);
+  const [controlStatus, setControlStatus] = useState<ControlStatusMap>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const applyConstraint = useCallback(async (constraint: Record<string, unknown>) => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return;
+    const status = await applyConstraintSet(track, constraint, capabilitiesRef.current);
+    setControlStatus(prev => ({ ...prev, ...status }));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const open = async () => {
+      try {
+        const { stream, capabilities: caps, trackSettings } = await openCamera(deviceId, DASHBOARD_RESOLUTION);
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+        }
+
+        capabilitiesRef.current = caps;
+        setCapabilities(caps);
+        setControlStatus({});
+        setSettings(initialSettings(DEFAULT_SETTINGS, trackSettings, caps));
+
+        const lastProfile = getLastProfile({ deviceId, label });
+        if (lastProfile) {
+          // The profile may have been saved with another camera of the same model
+          const fitted = clampSettings(lastProfile.settings, caps).settings;
+          setSettings(fitted);
+          await applyConstraint(buildConstraintSet(fitted, caps));
+        }
+        setError(null);
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setError("Failed to start video stream. The camera might be in use by another app.");
+      }
+    };
+
+    open();
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    };
+  }, [deviceId, label, applyConstraint]);
+
+  const updateSetting = useCallback((key: keyof CameraSettings, value: CameraSettings[keyof CameraSettings]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+    applyConstraint({ [key]: value });
+  }, [applyConstraint]);
+
+  return { videoRef, capabilities, settings, controlStatus, error, updateSetting };
+};
@@ -0,0 +1,144 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { CameraCapabilities, CameraSettings } from '../types';
+import { ControlDescriptor } from '../services/cameraControls';
+import {
+  FineControlAction,
+  GAMEPAD_AXIS,
+  GAMEPAD_BUTTONS,
+  cycleKey,
+  keyAction,
+  nudgeChanges,
+  stickRate,
+  toggleChanges,
+} from '../services/fineControl';
+
+// Keyboard shortcuts and (optionally) a gamepad driving the active control.
+// Keys are only taken while focus is inside the panel, so arrows still scroll
+// the page and operate buttons and selects everywhere else.
+
+// Every constraint is a round trip to the camera; batch stick movement
+const GAMEPAD_APPLY_MS = 60;
+
+interface FineControlOptions {
+  // Cycle order; the active control is always one of these
+  controls: ControlDescriptor[];
+  settings: CameraSettings;
+  capabilities: CameraCapabilities;
+  // Values to reset to, per control
+  defaults: Partial<CameraSettings>;
+  onChange: (key: keyof CameraSettings, value: CameraSettings[keyof CameraSettings]) => void;
+  // Off while something else owns the keyboard, e.g. a modal
+  enabled: boolean;
+  // Element keyboard shortcuts are scoped to
+  scope: RefObject<HTMLElement | null>;
+  gamepad: boolean;
+}
+
+export interface FineControl {
+  activeKey: keyof CameraSettings | null;
+  setActiveKey: (key: keyof CameraSettings) => void;
+  gamepadConnected: boolean;
+}
+
+// Typing in a text field or picking from a select must not nudge anything
+const isTextEntry = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  return target instanceof HTMLInputElement && !['range', 'checkbox', 'button'].includes(target.type);
+};
+
+export const useFineControl = (options: FineControlOptions): FineControl => {
+  const [activeKey, setActiveKey] = useState<keyof CameraSettings | null>(null);
+  const [gamepadConnected, setGamepadConnected] = useState(false);
+
+  const latest = useRef({ ...options, activeKey });
+  latest.current = { ...options, activeKey };
+
+  const keys = options.controls.map(c => c.key);
+  const current = activeKey && keys.includes(activeKey) ? activeKey : keys[0] ?? null;
+
+  const perform = useCallback((action: FineControlAction) => {
+    const { controls, settings, capabilities, defaults, onChange } = latest.current;
+    const control = controls.find(c => c.key === latest.current.activeKey) ?? controls[0];
+    if (!control) return;
+
+    if (action.type === 'cycle') {
+      const next = cycleKey(controls.map(c => c.key), control.key, action.direction);
+      if (next) setActiveKey(next);
+      return;
+    }
+    let changes: Partial<CameraSettings> = {};
+    if (action.type === 'nudge') {
+      changes = nudgeChanges(control, settings, capabilities, action.steps);
+    } else if (action.type === 'toggleAuto') {
+      changes = toggleChanges(control, settings);
+    } else if (defaults[control.key] !== undefined) {
+      changes = { [control.key]: defaults[control.key] };
+    }
+    // Keep the ref current so a burst of nudges before the next render accumulates
+    latest.current.settings = { ...settings, ...changes };
+    for (const [key, value] of Object.entries(changes)) {
+      onChange(key as keyof CameraSettings, value as CameraSettings[keyof CameraSettings]);
+    }
+  }, []);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const { enabled, scope } = latest.current;
+      if (!enabled || !(event.target instanceof Node) || !scope.current?.contains(event.target)) return;
+      if (isTextEntry(event.target)) return;
+      const action = keyAction(event);
+      if (!action) return;
+      // Also stops a focused range input from moving by its own step
+      event.preventDefault();
+      perform(action);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [perform]);
+
+  useEffect(() => {
+    const update = () => setGamepadConnected(navigator.getGamepads().some(pad => pad?.connected));
+    update();
+    window.addEventListener('gamepadconnected', update);
+    window.addEventListener('gamepaddisconnected', update);
+    return () => {
+      window.removeEventListener('gamepadconnected', update);
+      window.removeEventListener('gamepaddisconnected', update);
+    };
+  }, []);
+
+  // The Gamepad API has no events for input; poll once per frame
+  useEffect(() => {
+    if (!options.gamepad) return;
+    let frame = 0;
+    let last = performance.now();
+    let lastApplied = last;
+    let pendingSteps = 0;
+    const held = new Set<number>();
+
+    const poll = (now: number) => {
+      const pad = navigator.getGamepads().find(p => p?.connected);
+      if (pad && latest.current.enabled) {
+        pendingSteps += stickRate(pad.axes[GAMEPAD_AXIS] ?? 0) * ((now - last) / 1000);
+        for (const [index, action] of Object.entries(GAMEPAD_BUTTONS)) {
+          const pressed = pad.buttons[Number(index)]?.pressed ?? false;
+          if (pressed && !held.has(Number(index))) perform(action);
+          if (pressed) held.add(Number(index));
+          else held.delete(Number(index));
+        }
+        if (pendingSteps !== 0 && now - lastApplied >= GAMEPAD_APPLY_MS) {
+          perform({ type: 'nudge', steps: pendingSteps });
+          pendingSteps = 0;
+          lastApplied = now;
+        }
+      }
+      last = now;
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [options.gamepad, perform]);
+
+  return { activeKey: current, setActiveKey, gamepadConnected };
+};
@@ -0,0 +1,154 @@
+#!/bin/bash
+# MacOS Webcam Settings (2 cameras)
+
+# Requirements: uvc-util (https://github.com/jtfrey/uvc-util), built with the Xcode command line tools:
+#   git clone https://github.com/jtfrey/uvc-util.git && cd uvc-util/src
+#   gcc -o uvc-util -framework IOKit -framework Foundation uvc-util.m UVCController.m UVCType.m UVCValue.m
+#   sudo install -m755 uvc-util /usr/local/bin/
+
+command -v uvc-util >/dev/null || { echo "Error: uvc-util not found in PATH" >&2; exit 1; }
+
+# Resolves the uvc-util index of a camera by USB ID or name.
+# Parses the device table of `uvc-util -d`: index, vendor:product, location, UVC version, name
+find_uvc_index() {
+  local name="$1" usb_id="$2"
+  uvc-util -d 2>/dev/null | awk -v n="$name" -v id="$usb_id" '
+    $1 ~ /^[0-9]+$/ && $2 ~ /^0x/ {
+      dev = ""
+      for (i = 5; i <= NF; i++) dev = dev (i > 5 ? " " : "") $i
+      if (id != "") {
+        split(id, parts, ":")
+        if (tolower($2) == "0x" parts[1] ":0x" parts[2]) { print $1; exit }
+      } else if (index(tolower(dev), tolower(n))) { print $1; exit }
+    }' | grep .
+}
+
+# Sets one control on $INDEX; failures are reported and counted, not fatal
+FAILED=0
+set_ctrl() {
+  if uvc-util -I "$INDEX" -s "$1=$2" >/dev/null 2>&1; then
+    echo "  $1 = $2"
+  else
+    echo "  $1 = $2 FAILED (control not supported or value out of range)" >&2
+    FAILED=$((FAILED + 1))
+  fi
+}
+
+MISSING=0  # cameras not found
+
+# ---- Camera 1/2: HD Pro Webcam C920 (046d:082d)
+# Focus region (normalized x,y,w,h): 0.250,0.250,0.500,0.500
+# Value mapping (browser -> native):
+#   focusDistance: 0.5 -> 125  ([0..1] -> [0..250] step 5 (Logitech C920))
+#   zoom: 2 -> 200  ([1..5] -> [100..500] step 1)
+#   brightness: 10 -> 147  ([-64..64] -> [0..255] step 1)
+#   contrast: 32 -> 86  ([0..95] -> [0..255] step 1)
+#   saturation: 64 -> 163  ([0..100] -> [0..255] step 1)
+#   exposureTime: 250 -> 250  (same unit, clamped to native [3..2047])
+#   pan: 3600 -> 3600  (browser range matches native [-36000..36000])
+#   tilt: -7200 -> -7200  (browser range matches native [-36000..36000])
+apply_camera_1() {
+  # Camera is looked up by USB ID at runtime (see find_uvc_index above)
+  CAMERA_NAME='HD Pro Webcam C920'
+  USB_ID='046d:082d'  # vendor:product; empty = match by name
+  INDEX="$(find_uvc_index "$CAMERA_NAME" "$USB_ID")" || {
+    echo "Error: camera '$CAMERA_NAME'${USB_ID:+ ($USB_ID)} not found. Is it plugged in?" >&2
+    MISSING=$((MISSING + 1))
+    return
+  }
+
+  echo "Applying settings to $CAMERA_NAME (uvc-util device $INDEX)..."
+
+  # 1. Auto Focus
+  set_ctrl auto-focus false
+
+  # 2. Focus Distance (Only if Manual)
+  set_ctrl focus-abs 125
+
+  # 3. Zoom
+  set_ctrl zoom-abs 200
+
+  # 4. Brightness
+  set_ctrl brightness 147
+
+  # 5. Contrast
+  set_ctrl contrast 86
+
+  # 6. Saturation
+  set_ctrl saturation 163
+
+  # 7. Auto Exposure
+  set_ctrl auto-exposure-mode 1
+
+  # 8. Exposure Time
+  set_ctrl exposure-time-abs 250
+
+  # 9. Pan
+  set_ctrl pan-tilt-abs '{3600,-7200}'
+
+  # 10. Tilt
+  # Set together with Pan above
+}
+apply_camera_1
+
+# ---- Camera 2/2: FaceTime HD Camera
+# Focus region (normalized x,y,w,h): 0.250,0.250,0.500,0.500
+# Value mapping (browser -> native):
+#   focusDistance: 0.5 -> 1  (no browser range; rounded into native [0..255])
+#   zoom: 2 -> 100  (no browser range; rounded into native [100..500])
+#   brightness: 10 -> 10  (no browser range; rounded into native [0..255])
+#   contrast: 32 -> 32  (no browser range; rounded into native [0..255])
+#   saturation: 64 -> 64  (no browser range; rounded into native [0..255])
+#   exposureTime: 250 -> 250  (same unit, clamped to native [3..2047])
+#   pan: 3600 -> 3600  (no browser range; rounded into native [-36000..36000])
+#   tilt: -7200 -> -7200  (no browser range; rounded into native [-36000..36000])
+apply_camera_2() {
+  # Camera is looked up by name at runtime (see find_uvc_index above)
+  CAMERA_NAME='FaceTime HD Camera'
+  USB_ID=''  # vendor:product; empty = match by name
+  INDEX="$(find_uvc_index "$CAMERA_NAME" "$USB_ID")" || {
+    echo "Error: camera '$CAMERA_NAME'${USB_ID:+ ($USB_ID)} not found. Is it plugged in?" >&2
+    MISSING=$((MISSING + 1))
+    return
+  }
+
+  echo "Applying settings to $CAMERA_NAME (uvc-util device $INDEX)..."
+
+  # 1. Auto Focus
+  set_ctrl auto-focus true
+
+  # 2. Focus Distance (Only if Manual)
+  # Manual focus skipped (Auto is On)
+
+  # 3. Zoom
+  set_ctrl zoom-abs 100
+
+  # 4. Brightness
+  set_ctrl brightness 10
+
+  # 5. Contrast
+  set_ctrl contrast 32
+
+  # 6. Saturation
+  set_ctrl saturation 64
+
+  # 7. Auto Exposure
+  set_ctrl auto-exposure-mode 8
+
+  # 8. Pan
+  set_ctrl pan-tilt-abs '{3600,-7200}'
+
+  # 9. Tilt
+  # Set together with Pan above
+}
+apply_camera_2
+
+if [ "$MISSING" -gt 0 ]; then
+  echo "$MISSING camera(s) not found; the others were set." >&2
+  exit 1
+fi
+if [ "$FAILED" -gt 0 ]; then
+  echo "$FAILED setting(s) could not be applied." >&2
+  exit 1
+fi
+echo "Settings applied successfully."
\ No newline at end of file
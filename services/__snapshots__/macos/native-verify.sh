@@ -0,0 +1,178 @@
+#!/bin/bash
+# MacOS Webcam Settings
+# Generated for: HD Pro Webcam C920 (046d:082d)
+# Focus region (normalized x,y,w,h): 0.250,0.250,0.500,0.500
+# Value mapping (browser -> native):
+#   focusDistance: 0.5 -> 125  ([0..1] -> [0..250] step 5 (Logitech C920))
+#   zoom: 2 -> 200  ([1..5] -> [100..500] step 1)
+#   brightness: 10 -> 147  ([-64..64] -> [0..255] step 1)
+#   contrast: 32 -> 86  ([0..95] -> [0..255] step 1)
+#   saturation: 64 -> 163  ([0..100] -> [0..255] step 1)
+#   exposureTime: 250 -> 250  (same unit, clamped to native [3..2047])
+#   pan: 3600 -> 3600  (browser range matches native [-36000..36000])
+#   tilt: -7200 -> -7200  (browser range matches native [-36000..36000])
+
+# Requirements: uvc-util (https://github.com/jtfrey/uvc-util), built with the Xcode command line tools:
+#   git clone https://github.com/jtfrey/uvc-util.git && cd uvc-util/src
+#   gcc -o uvc-util -framework IOKit -framework Foundation uvc-util.m UVCController.m UVCType.m UVCValue.m
+#   sudo install -m755 uvc-util /usr/local/bin/
+
+command -v uvc-util >/dev/null || { echo "Error: uvc-util not found in PATH" >&2; exit 1; }
+
+# Resolves the uvc-util index of a camera by USB ID or name.
+# Parses the device table of `uvc-util -d`: index, vendor:product, location, UVC version, name
+find_uvc_index() {
+  local name="$1" usb_id="$2"
+  uvc-util -d 2>/dev/null | awk -v n="$name" -v id="$usb_id" '
+    $1 ~ /^[0-9]+$/ && $2 ~ /^0x/ {
+      dev = ""
+      for (i = 5; i <= NF; i++) dev = dev (i > 5 ? " " : "") $i
+      if (id != "") {
+        split(id, parts, ":")
+        if (tolower($2) == "0x" parts[1] ":0x" parts[2]) { print $1; exit }
+      } else if (index(tolower(dev), tolower(n))) { print $1; exit }
+    }' | grep .
+}
+
+# Sets one control on $INDEX; failures are reported and counted, not fatal
+FAILED=0
+set_ctrl() {
+  if uvc-util -I "$INDEX" -s "$1=$2" >/dev/null 2>&1; then
+    echo "  $1 = $2"
+  else
+    echo "  $1 = $2 FAILED (control not supported or value out of range)" >&2
+    FAILED=$((FAILED + 1))
+  fi
+}
+
+# Verify mode: progress goes to stderr, the JSON report to stdout (fd 3)
+exec 3>&1 1>&2
+VERIFY_TOLERANCE=5  # percent of the target; mode switches must match exactly
+CAMERA_REPORTS=()
+CONTROL_REPORTS=()
+ALL_OK=1
+REPORTED=0
+
+# Still report if the script exits early, e.g. when a camera isn't found
+trap '[ "$REPORTED" = 1 ] || { finish_camera "exited before this camera was verified"; print_report; }' EXIT
+
+json_value() {
+  if [ -z "$1" ]; then
+    printf 'null'
+  elif [[ "$1" =~ ^-?[0-9]+(\.[0-9]+)?$ ]]; then
+    printf '%s' "$1"
+  else
+    local s="${1//\\/\\\\}"
+    printf '"%s"' "${s//\"/\\\"}"
+  fi
+}
+
+# Compares every number in target and actual (true/false count as 1/0)
+values_match() {
+  [ -n "$2" ] || return 1
+  awk -v t="$1" -v a="$2" -v exact="$3" -v pct="$VERIFY_TOLERANCE" '
+    function nums(s, out) {
+      s = tolower(s); gsub(/true|yes/, "1", s); gsub(/false|no/, "0", s)
+      gsub(/[^-0-9.]+/, " ", s)
+      return split(s, out, " ")
+    }
+    BEGIN {
+      n = nums(t, tv)
+      if (n == 0 || n != nums(a, av)) exit 1
+      for (i = 1; i <= n; i++) {
+        tol = exact ? 0 : (tv[i] < 0 ? -tv[i] : tv[i]) * pct / 100
+        if (!exact && tol < 1) tol = 1
+        d = av[i] - tv[i]
+        if ((d < 0 ? -d : d) > tol) exit 1
+      }
+    }'
+}
+
+# record_ctrl <key> <target> <actual> <exact:0|1>
+record_ctrl() {
+  local ok=false
+  values_match "$2" "$3" "$4" && ok=true
+  echo "  verify $1: target $2, actual ${3:-unreadable} -> $ok"
+  CONTROL_REPORTS+=("{\"control\":\"$1\",\"target\":$(json_value "$2"),\"actual\":$(json_value "$3"),\"ok\":$ok}")
+}
+
+# finish_camera [error]
+finish_camera() {
+  local ok=true controls error=""
+  [[ " ${CONTROL_REPORTS[*]} " == *'"ok":false'* ]] && ok=false
+  [ -n "$1" ] && { ok=false; error=",\"error\":$(json_value "$1")"; }
+  [ "$ok" = true ] || ALL_OK=0
+  controls="$(IFS=,; echo "${CONTROL_REPORTS[*]}")"
+  CAMERA_REPORTS+=("{\"camera\":$(json_value "$CAMERA_NAME"),\"ok\":$ok${error},\"controls\":[$controls]}")
+  CONTROL_REPORTS=()
+}
+
+print_report() {
+  local ok=true cameras
+  REPORTED=1
+  [ "$ALL_OK" = 1 ] || ok=false
+  cameras="$(IFS=,; echo "${CAMERA_REPORTS[*]}")"
+  echo "{\"ok\":$ok,\"cameras\":[$cameras]}" >&3
+  [ "$ok" = true ]
+}
+
+# verify_ctrl <key> <target> <exact:0|1> <uvc-util control>
+verify_ctrl() {
+  record_ctrl "$1" "$2" "$(uvc-util -I "$INDEX" -g "$4" 2>/dev/null)" "$3"
+}
+
+# Camera is looked up by USB ID at runtime (see find_uvc_index above)
+CAMERA_NAME='HD Pro Webcam C920'
+USB_ID='046d:082d'  # vendor:product; empty = match by name
+INDEX="$(find_uvc_index "$CAMERA_NAME" "$USB_ID")" || {
+  echo "Error: camera '$CAMERA_NAME'${USB_ID:+ ($USB_ID)} not found. Is it plugged in?" >&2
+  finish_camera "Camera not found"
+  print_report
+  exit 1
+}
+
+echo "Applying settings to $CAMERA_NAME (uvc-util device $INDEX)..."
+
+# 1. Auto Focus
+set_ctrl auto-focus false
+
+# 2. Focus Distance (Only if Manual)
+set_ctrl focus-abs 125
+
+# 3. Zoom
+set_ctrl zoom-abs 200
+
+# 4. Brightness
+set_ctrl brightness 147
+
+# 5. Contrast
+set_ctrl contrast 86
+
+# 6. Saturation
+set_ctrl saturation 163
+
+# 7. Auto Exposure
+set_ctrl auto-exposure-mode 1
+
+# 8. Exposure Time
+set_ctrl exposure-time-abs 250
+
+# 9. Pan
+set_ctrl pan-tilt-abs '{3600,-7200}'
+
+# 10. Tilt
+# Set together with Pan above
+
+# Verification: read every control back and compare with its target
+verify_ctrl focusMode false 1 auto-focus
+verify_ctrl focusDistance 125 0 focus-abs
+verify_ctrl zoom 200 0 zoom-abs
+verify_ctrl brightness 147 0 brightness
+verify_ctrl contrast 86 0 contrast
+verify_ctrl saturation 163 0 saturation
+verify_ctrl exposureMode 1 1 auto-exposure-mode
+verify_ctrl exposureTime 250 0 exposure-time-abs
+verify_ctrl pan '{3600,-7200}' 0 pan-tilt-abs
+finish_camera
+
+print_report || exit 1
\ No newline at end of file
@@ -0,0 +1,144 @@
+"""
+Webcam Settings Persistence Script
+Generated by FocusLock
+---------------------------------
+Camera: HD Pro Webcam C920 (046d:082d)
+Target OS: macOS
+Focus region (normalized x,y,w,h): 0.250,0.250,0.500,0.500
+Value mapping (browser -> native):
+  focusDistance: 0.5 -> 0.5  (passed through (no native range known))
+  zoom: 2 -> 2  (passed through (no native range known))
+  brightness: 10 -> 10  (passed through (no native range known))
+  contrast: 32 -> 32  (passed through (no native range known))
+  saturation: 64 -> 64  (passed through (no native range known))
+  exposureTime: 250 -> 250  (passed through (no native range known))
+  pan: 3600 -> 3600  (passed through (no native range known))
+  tilt: -7200 -> -7200  (passed through (no native range known))
+
+Prerequisites:
+  pip install opencv-python
+
+Compilation (to .exe for portability):
+  1. pip install pyinstaller
+  2. pyinstaller --onefile --noconsole script.py
+
+Usage:
+  Run this script on startup to enforce camera settings. The installer bundle
+  from FocusLock ("Download Installer") sets that up for you.
+"""
+
+import cv2
+import time
+import json
+import subprocess
+import sys
+
+def find_camera_index(name, usb_id=None):
+    """Returns the AVFoundation index of the camera (system_profiler order)."""
+    result = subprocess.run(["system_profiler", "SPCameraDataType", "-json"], capture_output=True, text=True)
+    cameras = json.loads(result.stdout or "{}").get("SPCameraDataType", [])
+    for index, camera in enumerate(cameras):
+        if usb_id:
+            # Model ID looks like "UVC Camera VendorID_1133 ProductID_2093" (decimal)
+            vid, pid = (int(part, 16) for part in usb_id.split(":"))
+            if f"VendorID_{vid} ProductID_{pid}" in camera.get("spcamera_model-id", ""):
+                return index
+        elif name.lower() in camera.get("_name", "").lower():
+            return index
+    return None
+
+def require_camera_index(name, usb_id=None):
+    index = find_camera_index(name, usb_id)
+    if index is None:
+        what = f"{name} ({usb_id})" if usb_id else name
+        sys.exit(f"Error: camera '{what}' not found. Is it plugged in?")
+    return index
+
+def set_camera_settings():
+    # Configuration
+    # The camera is looked up by USB ID on every run, so it doesn't matter
+    # which index or port it ends up on
+    camera_name = "HD Pro Webcam C920"
+    usb_id = "046d:082d"  # vendor:product; None = match by name
+    camera_index = require_camera_index(camera_name, usb_id)
+    
+    # Desired Settings
+    FOCUS_AUTO = 0  # 1=Auto, 0=Manual
+    FOCUS_POS = 0.5
+    ZOOM = 2
+    BRIGHTNESS = 10
+    CONTRAST = 32
+
+    print(f"Initializing camera {camera_index}...")
+    
+    # Select backend based on OS
+    backend = cv2.CAP_DSHOW if "macOS" == "Windows" else cv2.CAP_ANY
+    cap = cv2.VideoCapture(camera_index, backend)
+    
+    if not cap.isOpened():
+        # Fallback to default
+        cap = cv2.VideoCapture(camera_index)
+    
+    if not cap.isOpened():
+        print("Error: Could not open camera.")
+        return
+
+    # Allow camera to warm up
+    time.sleep(0.5)
+
+    print(f"Applying settings for: {camera_name}")
+
+    # 1. Autofocus
+    # OpenCV Prop 39 = CAP_PROP_AUTOFOCUS
+    print(f"Setting Autofocus to {FOCUS_AUTO}")
+    cap.set(cv2.CAP_PROP_AUTOFOCUS, FOCUS_AUTO)
+    
+    # 2. Manual Focus
+    # OpenCV Prop 28 = CAP_PROP_FOCUS
+    if FOCUS_AUTO == 0:
+        print(f"Setting Focus Distance to {FOCUS_POS}")
+        cap.set(cv2.CAP_PROP_FOCUS, FOCUS_POS)
+
+    # 3. Zoom
+    # OpenCV Prop 27 = CAP_PROP_ZOOM
+    print(f"Setting Zoom to {ZOOM}")
+    cap.set(cv2.CAP_PROP_ZOOM, ZOOM)
+    
+    # 4. Brightness
+    # OpenCV Prop 10 = CAP_PROP_BRIGHTNESS
+    print(f"Setting Brightness to {BRIGHTNESS}")
+    cap.set(cv2.CAP_PROP_BRIGHTNESS, BRIGHTNESS)
+    
+    # 5. Contrast
+    # OpenCV Prop 11 = CAP_PROP_CONTRAST
+    print(f"Setting Contrast to {CONTRAST}")
+    cap.set(cv2.CAP_PROP_CONTRAST, CONTRAST)
+
+    # 6. Saturation
+    print("Setting Saturation to 64")
+    cap.set(cv2.CAP_PROP_SATURATION, 64)
+
+    # 7. Auto Exposure
+    print("Setting Auto Exposure to 1")
+    cap.set(cv2.CAP_PROP_AUTO_EXPOSURE, 1)
+
+    # 8. Exposure Time
+    print("Setting Exposure Time to 250")
+    cap.set(cv2.CAP_PROP_EXPOSURE, 250)
+
+    # 9. Pan
+    print("Setting Pan to 3600")
+    cap.set(cv2.CAP_PROP_PAN, 3600)
+
+    # 10. Tilt
+    print("Setting Tilt to -7200")
+    cap.set(cv2.CAP_PROP_TILT, -7200)
+
+    # Verification (Optional)
+    actual_focus = cap.get(cv2.CAP_PROP_FOCUS)
+    print(f"Settings applied. Current Focus State: {actual_focus}")
+
+    cap.release()
+
+if __name__ == "__main__":
+    set_camera_settings()
\ No newline at end of file
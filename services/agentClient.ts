@@ -0,0 +1,112 @@
+import { CameraCapabilities, CameraDevice, CameraSettings, CapabilityRange, OS } from "../types";
+import { RangeControlKey } from "./cameraControls";
+import { nativeCameraName, parseUsbId } from "./deviceIdentity";
+import { AGENT_URL, AgentCamera, AgentInfo, ApplyRequest, ApplyResult } from "./agentProtocol";
+import { toNativeParams, v4l2Controls } from "./scriptControls";
+
+// Client for the companion agent (see agentProtocol.ts).
+
+// The agent is on localhost; anything slower than this means it isn't running
+const DETECT_TIMEOUT_MS = 800;
+
+const TOKEN_KEY = 'focuslock.agentToken';
+
+// Pairing token the agent printed at start; the user enters it once per agent
+export const getAgentToken = (): string | null => localStorage.getItem(TOKEN_KEY);
+
+export const setAgentToken = (token: string): void => {
+  localStorage.setItem(TOKEN_KEY, token.trim());
+};
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const token = getAgentToken();
+  const response = await fetch(`${AGENT_URL}${path}`, {
+    ...init,
+    headers: {
+      ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error ?? `Agent returned HTTP ${response.status}.`);
+  return body as T;
+};
+
+/**
+ * Info of the running agent, or null if none answers (or it speaks a
+ * protocol this app doesn't know, or refuses this page's origin).
+ * `authorized` tells whether the stored token pairs with it.
+ */
+export const detectAgent = async (): Promise<AgentInfo | null> => {
+  try {
+    const info = await request<AgentInfo>('/v1/agent', { signal: AbortSignal.timeout(DETECT_TIMEOUT_MS) });
+    return info.protocol === 1 ? info : null;
+  } catch {
+    return null;
+  }
+};
+
+export const listAgentCameras = (): Promise<AgentCamera[]> => request<AgentCamera[]>('/v1/cameras');
+
+export const applyViaAgent = (cameraId: string, body: ApplyRequest): Promise<ApplyResult> =>
+  request<ApplyResult>(`/v1/cameras/${encodeURIComponent(cameraId)}/controls`, { method: 'PUT', body: JSON.stringify(body) });
+
+export const forgetAgentCamera = (cameraId: string): Promise<{ ok: boolean }> =>
+  request(`/v1/cameras/${encodeURIComponent(cameraId)}/persisted`, { method: 'DELETE' });
+
+// Same USB ID if both sides have one, otherwise the same model name
+export const agentCameraMatches = (camera: AgentCamera, device: CameraDevice): boolean => {
+  const deviceId = parseUsbId(device.label);
+  if (camera.usbId && deviceId) return camera.usbId === `${deviceId.vendorId}:${deviceId.productId}`;
+  return camera.name.toLowerCase() === nativeCameraName(device.label).toLowerCase();
+};
+
+// v4l2 names of each range control, as v4l2Controls sets them
+const V4L2_RANGE_CTRLS: Partial<Record<RangeControlKey, string[]>> = {
+  focusDistance: ['focus_absolute'],
+  zoom: ['zoom_absolute'],
+  brightness: ['brightness'],
+  contrast: ['contrast'],
+  saturation: ['saturation'],
+  sharpness: ['sharpness'],
+  exposureTime: ['exposure_time_absolute', 'exposure_absolute'],
+  colorTemperature: ['white_balance_temperature'],
+  pan: ['pan_absolute'],
+  tilt: ['tilt_absolute'],
+};
+
+// The ranges the agent read from the driver, by settings key
+const reportedRanges = (camera: AgentCamera): Partial<Record<RangeControlKey, CapabilityRange>> => {
+  const ranges: Partial<Record<RangeControlKey, CapabilityRange>> = {};
+  for (const [key, ctrls] of Object.entries(V4L2_RANGE_CTRLS)) {
+    const control = ctrls.map(name => camera.controls[name]).find(Boolean);
+    if (control) ranges[key as RangeControlKey] = { min: control.min, max: control.max, step: control.step };
+  }
+  return ranges;
+};
+
+/**
+ * Settings as v4l2 controls for `camera`, in native units. Values are mapped
+ * into the ranges the agent reports for the camera rather than UVC defaults.
+ * Each control uses the first of its names the camera has; controls it lacks
+ * are left out.
+ */
+export const toAgentControls = (
+  settings: CameraSettings,
+  capabilities: CameraCapabilities,
+  camera: AgentCamera
+): ApplyRequest['controls'] => {
+  const label = camera.usbId ? `${camera.name} (${camera.usbId})` : camera.name;
+  const params = toNativeParams(
+    { os: OS.LINUX, cameraName: label, settings, scriptType: 'v4l2-preset', capabilities },
+    'v4l2',
+    reportedRanges(camera)
+  );
+  return v4l2Controls(params).lines.flatMap(({ ctrls, value }) => {
+    const ctrl = ctrls.find(name => name in camera.controls);
+    if (!ctrl) return [];
+    // Mode switches too: some drivers offer fewer menu entries than UVC defines
+    const { min, max } = camera.controls[ctrl];
+    return [{ ctrl, value: Math.min(max, Math.max(min, value)) }];
+  });
+};
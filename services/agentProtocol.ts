@@ -0,0 +1,79 @@
+// FocusLock companion agent protocol, version 1.
+//
+// A small HTTP+JSON API the agent serves on localhost so the app can apply
+// settings natively, where they outlive the browser tab. The reference agent
+// (agent/focuslock-agent.mjs) implements it on top of v4l2-ctl, and
+// agent/mock-agent.mjs with simulated cameras.
+//
+//   GET    /v1/agent                       -> AgentInfo
+//   GET    /v1/cameras                     -> AgentCamera[]
+//   GET    /v1/cameras/:id/controls        -> AgentControlValues
+//   PUT    /v1/cameras/:id/controls        ApplyRequest -> ApplyResult
+//   DELETE /v1/cameras/:id/persisted       -> { ok: true }
+//
+// Errors are { error: string } with a 4xx/5xx status. The agent only answers
+// pages from its allowlisted origins (403 otherwise), with CORS headers and
+// Private Network Access preflights for those. Every endpoint but /v1/agent
+// needs "Authorization: Bearer <token>" with the pairing token the agent
+// prints at start (401 otherwise).
+
+export const AGENT_PROTOCOL_VERSION = 1;
+export const AGENT_DEFAULT_PORT = 47821;
+export const AGENT_URL = `http://127.0.0.1:${AGENT_DEFAULT_PORT}`;
+
+export interface AgentInfo {
+  name: string;
+  version: string;
+  protocol: number;
+  platform: string;
+  // What the agent drives the cameras with, e.g. "v4l2-ctl" or "mock"
+  backend: string;
+  // Whether the request carried the agent's pairing token
+  authorized: boolean;
+}
+
+// A native control as the driver reports it; values are in native units
+export interface AgentControl {
+  min: number;
+  max: number;
+  step: number;
+  default?: number;
+  value: number;
+}
+
+export interface AgentCamera {
+  // Stable while the agent runs; pass it back in camera URLs
+  id: string;
+  name: string;
+  // "vvvv:pppp", when the agent could read it
+  usbId?: string;
+  devicePath?: string;
+  // Keyed by native control name, e.g. focus_absolute
+  controls: Record<string, AgentControl>;
+  // Whether the agent re-applies saved settings to this camera
+  persisted: boolean;
+}
+
+export type AgentControlValues = Record<string, number>;
+
+export interface ApplyRequest {
+  // Applied in order: auto modes must come before the values they unlock
+  controls: { ctrl: string; value: number }[];
+  // Save the controls and re-apply them at agent start and on plug-in
+  persist?: boolean;
+}
+
+export interface ApplyControlResult {
+  ctrl: string;
+  expected: number;
+  // Read back after all controls were set; null if it couldn't be read
+  actual: number | null;
+  ok: boolean;
+  error?: string;
+}
+
+export interface ApplyResult {
+  ok: boolean;
+  results: ApplyControlResult[];
+  persisted: boolean;
+}
@@ -0,0 +1,142 @@
+import { CameraCapabilities, CameraSettings, CapabilityRange } from "../types";
+
+// Table of every camera control FocusLock knows about. The Live Adjustments
+// panel, constraint application and script generators all iterate this list
+// instead of hard-coding individual controls.
+
+export type RangeControlKey =
+  | 'focusDistance'
+  | 'zoom'
+  | 'brightness'
+  | 'contrast'
+  | 'saturation'
+  | 'sharpness'
+  | 'exposureTime'
+  | 'exposureCompensation'
+  | 'colorTemperature'
+  | 'iso'
+  | 'pan'
+  | 'tilt';
+
+export type ModeControlKey = 'focusMode' | 'exposureMode' | 'whiteBalanceMode';
+
+export type ControlGroup = 'focus' | 'image' | 'exposure' | 'color' | 'ptz';
+
+interface BaseDescriptor {
+  label: string;
+  group: ControlGroup;
+}
+
+export interface RangeControl extends BaseDescriptor {
+  kind: 'range';
+  key: RangeControlKey;
+  unit?: string;
+  // Only adjustable while this mode control is set to 'manual'
+  manualWith?: ModeControlKey;
+}
+
+export interface ModeControl extends BaseDescriptor {
+  kind: 'mode';
+  key: ModeControlKey;
+}
+
+export interface ToggleControl extends BaseDescriptor {
+  kind: 'toggle';
+  key: 'torch';
+}
+
+export type ControlDescriptor = RangeControl | ModeControl | ToggleControl;
+
+export const CAMERA_CONTROLS: ControlDescriptor[] = [
+  { kind: 'mode', key: 'focusMode', label: 'Autofocus', group: 'focus' },
+  { kind: 'range', key: 'focusDistance', label: 'Manual Focus Distance', group: 'focus', manualWith: 'focusMode' },
+  { kind: 'range', key: 'zoom', label: 'Zoom', group: 'image', unit: 'x' },
+  { kind: 'range', key: 'brightness', label: 'Brightness', group: 'image' },
+  { kind: 'range', key: 'contrast', label: 'Contrast', group: 'image' },
+  { kind: 'range', key: 'saturation', label: 'Saturation', group: 'image' },
+  { kind: 'range', key: 'sharpness', label: 'Sharpness', group: 'image' },
+  { kind: 'mode', key: 'exposureMode', label: 'Auto Exposure', group: 'exposure' },
+  { kind: 'range', key: 'exposureTime', label: 'Exposure Time', group: 'exposure', manualWith: 'exposureMode' },
+  { kind: 'range', key: 'exposureCompensation', label: 'Exposure Compensation', group: 'exposure', unit: ' EV' },
+  { kind: 'range', key: 'iso', label: 'ISO', group: 'exposure', manualWith: 'exposureMode' },
+  { kind: 'mode', key: 'whiteBalanceMode', label: 'Auto White Balance', group: 'color' },
+  { kind: 'range', key: 'colorTemperature', label: 'Color Temperature', group: 'color', unit: 'K', manualWith: 'whiteBalanceMode' },
+  { kind: 'range', key: 'pan', label: 'Pan', group: 'ptz' },
+  { kind: 'range', key: 'tilt', label: 'Tilt', group: 'ptz' },
+  { kind: 'toggle', key: 'torch', label: 'Torch', group: 'ptz' },
+];
+
+// Used until the camera reports its own values
+export const DEFAULT_SETTINGS: CameraSettings = {
+  focusMode: 'continuous',
+  focusDistance: 0,
+  zoom: 1,
+  brightness: 100,
+  contrast: 100,
+};
+
+const MODES: ReadonlyArray<string> = ['continuous', 'manual'];
+
+export const getControlRange = (control: RangeControl, caps: CameraCapabilities): CapabilityRange | undefined =>
+  caps[control.key];
+
+export const isControlSupported = (control: ControlDescriptor, caps: CameraCapabilities): boolean => {
+  switch (control.kind) {
+    case 'range':
+      return !!caps[control.key];
+    case 'mode':
+      // A mode switch is only useful if the camera can do both
+      return MODES.every(m => caps[control.key]?.includes(m));
+    case 'toggle':
+      return caps[control.key] === true;
+  }
+};
+
+export const isControlLocked = (control: ControlDescriptor, settings: CameraSettings): boolean =>
+  control.kind === 'range' && !!control.manualWith && settings[control.manualWith] === 'continuous';
+
+export const supportedControls = (caps: CameraCapabilities): ControlDescriptor[] =>
+  CAMERA_CONTROLS.filter(c => isControlSupported(c, caps));
+
+/**
+ * Picks the current hardware values of every supported control out of
+ * track.getSettings().
+ */
+export const readHardwareSettings = (
+  trackSettings: MediaTrackSettings,
+  caps: CameraCapabilities
+): Partial<CameraSettings> => {
+  const hardware = trackSettings as Record<string, unknown>;
+  const values: Record<string, unknown> = {};
+  for (const control of supportedControls(caps)) {
+    const value = hardware[control.key];
+    if (control.kind === 'mode' && typeof value === 'string' && MODES.includes(value)) {
+      values[control.key] = value;
+    } else if (control.kind === 'range' && typeof value === 'number') {
+      values[control.key] = value;
+    } else if (control.kind === 'toggle' && typeof value === 'boolean') {
+      values[control.key] = value;
+    }
+  }
+  return values as Partial<CameraSettings>;
+};
+
+/**
+ * Builds a single constraint set for applyConstraints() covering every
+ * supported control, plus the ROI centre as pointsOfInterest. Values of
+ * controls that follow an automatic mode are left out so they don't force
+ * the camera back to manual.
+ */
+export const buildConstraintSet = (settings: CameraSettings, caps: CameraCapabilities): Record<string, unknown> => {
+  const constraint: Record<string, unknown> = {};
+  for (const control of supportedControls(caps)) {
+    const value = settings[control.key];
+    if (value === undefined || isControlLocked(control, settings)) continue;
+    constraint[control.key] = value;
+  }
+  const roi = settings.regionOfInterest;
+  if (roi && caps.pointsOfInterest) {
+    constraint.pointsOfInterest = [{ x: roi.x + roi.width / 2, y: roi.y + roi.height / 2 }];
+  }
+  return constraint;
+};
@@ -0,0 +1,70 @@
+import { CameraCapabilities, CameraSettings } from "../types";
+import { readHardwareSettings } from "./cameraControls";
+import { ControlStatusMap, verifyConstraint } from "./constraintReadback";
+import { clampSettings } from "./settingsValidation";
+
+// Opening a camera and applying constraints to it, shared by the main view
+// and the dashboard tiles so both read back and clamp the same way.
+
+export interface OpenedCamera {
+  stream: MediaStream;
+  track: MediaStreamTrack;
+  capabilities: CameraCapabilities;
+  // What the camera reported right after opening
+  trackSettings: MediaTrackSettings;
+}
+
+export const openCamera = async (
+  deviceId: string,
+  resolution: { width: number; height: number },
+  // Constraints to ask for up front, e.g. continuous focus
+  advanced?: MediaTrackConstraintSet[]
+): Promise<OpenedCamera> => {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    video: {
+      deviceId: { exact: deviceId },
+      width: { ideal: resolution.width },
+      height: { ideal: resolution.height },
+      ...(advanced ? { advanced } : {}),
+    }
+  });
+  const track = stream.getVideoTracks()[0];
+  const capabilities = track.getCapabilities() as CameraCapabilities;
+  const trackSettings = track.getSettings();
+  capabilities.pointsOfInterest = 'pointsOfInterest' in trackSettings;
+  return { stream, track, capabilities, trackSettings };
+};
+
+/**
+ * Applies one constraint set and reads back what the camera did with each
+ * control. A rejected applyConstraints() is logged and reported per control
+ * rather than thrown.
+ */
+export const applyConstraintSet = async (
+  track: MediaStreamTrack,
+  constraint: Record<string, unknown>,
+  capabilities: CameraCapabilities
+): Promise<ControlStatusMap> => {
+  let failed = false;
+  try {
+    await track.applyConstraints({ advanced: [constraint] });
+  } catch (err) {
+    failed = true;
+    console.warn(`Failed to apply constraint on ${track.label}:`, constraint, err);
+  }
+  return verifyConstraint(constraint, track.getSettings(), capabilities, failed);
+};
+
+/**
+ * Settings of a freshly opened camera: the values it reports, `prev` for
+ * anything it doesn't, all fitted to its ranges.
+ */
+export const initialSettings = (
+  prev: CameraSettings,
+  trackSettings: MediaTrackSettings,
+  capabilities: CameraCapabilities
+): CameraSettings => clampSettings({
+  ...prev,
+  focusMode: (trackSettings as { focusMode?: CameraSettings['focusMode'] }).focusMode || 'continuous',
+  ...readHardwareSettings(trackSettings, capabilities),
+}, capabilities).settings;
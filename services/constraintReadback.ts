@@ -0,0 +1,106 @@
+import { CameraCapabilities, CameraSettings } from "../types";
+import { CAMERA_CONTROLS, ControlDescriptor, buildConstraintSet, getControlRange, isControlSupported } from "./cameraControls";
+
+// Compares what we asked the camera for with what track.getSettings() reports
+// back, both right after applyConstraints() and periodically to catch drift.
+
+export type ApplyStatus = 'applied' | 'clamped' | 'rejected' | 'unsupported';
+
+export interface ControlStatus {
+  status: ApplyStatus;
+  requested: unknown;
+  actual?: unknown;
+}
+
+export type ControlStatusMap = Partial<Record<keyof CameraSettings, ControlStatus>>;
+
+export interface DriftedControl {
+  key: keyof CameraSettings;
+  expected: unknown;
+  actual: unknown;
+}
+
+const findControl = (key: string): ControlDescriptor | undefined => CAMERA_CONTROLS.find(c => c.key === key);
+
+// Half a step either way still counts as the same value
+const tolerance = (control: ControlDescriptor, caps: CameraCapabilities): number => {
+  if (control.kind !== 'range') return 0;
+  const step = getControlRange(control, caps)?.step ?? 0;
+  return Math.max(step / 2, 1e-6);
+};
+
+const matches = (control: ControlDescriptor, caps: CameraCapabilities, expected: unknown, actual: unknown): boolean => {
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    return Math.abs(expected - actual) <= tolerance(control, caps);
+  }
+  return expected === actual;
+};
+
+const classify = (
+  control: ControlDescriptor,
+  caps: CameraCapabilities,
+  requested: unknown,
+  actual: unknown
+): ApplyStatus => {
+  if (matches(control, caps, requested, actual)) return 'applied';
+  if (control.kind === 'range' && typeof requested === 'number' && typeof actual === 'number') {
+    const range = getControlRange(control, caps);
+    if (range) {
+      // The driver kept the value within one step of the (range-limited) request
+      const limited = Math.min(range.max, Math.max(range.min, requested));
+      if (Math.abs(limited - actual) <= Math.max(range.step, 1e-6)) return 'clamped';
+    }
+  }
+  return 'rejected';
+};
+
+/**
+ * Status of each control in `constraint` after an applyConstraints() call.
+ * Keys that aren't camera controls (e.g. pointsOfInterest) are ignored.
+ */
+export const verifyConstraint = (
+  constraint: Record<string, unknown>,
+  actual: MediaTrackSettings,
+  caps: CameraCapabilities,
+  applyFailed: boolean
+): ControlStatusMap => {
+  const hardware = actual as Record<string, unknown>;
+  const result: ControlStatusMap = {};
+  for (const [key, requested] of Object.entries(constraint)) {
+    const control = findControl(key);
+    if (!control) continue;
+    const value = hardware[key];
+    let status: ApplyStatus;
+    if (!isControlSupported(control, caps) || value === undefined) {
+      status = 'unsupported';
+    } else if (applyFailed) {
+      status = 'rejected';
+    } else {
+      status = classify(control, caps, requested, value);
+    }
+    result[control.key] = { status, requested, actual: value };
+  }
+  return result;
+};
+
+/**
+ * Controls whose hardware value no longer matches the locked settings,
+ * e.g. because the driver or another application reset them.
+ */
+export const detectDrift = (
+  locked: CameraSettings,
+  actual: MediaTrackSettings,
+  caps: CameraCapabilities
+): DriftedControl[] => {
+  const hardware = actual as Record<string, unknown>;
+  const drifted: DriftedControl[] = [];
+  for (const [key, expected] of Object.entries(buildConstraintSet(locked, caps))) {
+    const control = findControl(key);
+    const value = hardware[key];
+    if (!control || value === undefined) continue;
+    if (!matches(control, caps, expected, value)) {
+      drifted.push({ key: control.key, expected, actual: value });
+    }
+  }
+  return drifted;
+};
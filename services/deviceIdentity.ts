@@ -0,0 +1,22 @@
+import { UsbId } from "../types";
+
+// Chrome appends the USB IDs to UVC camera labels: "HD Pro Webcam C920 (046d:082d)".
+// Native tools report the bare name, so scripts match on that.
+const USB_SUFFIX = /\s*\(([0-9a-f]{4}):([0-9a-f]{4})\)\s*$/i;
+
+export const parseUsbId = (label: string): UsbId | null => {
+  const match = label.match(USB_SUFFIX);
+  return match ? { vendorId: match[1].toLowerCase(), productId: match[2].toLowerCase() } : null;
+};
+
+export const nativeCameraName = (label: string): string => label.replace(USB_SUFFIX, '').trim();
+
+export const formatUsbId = (id: UsbId): string => `${id.vendorId}:${id.productId}`;
+
+/**
+ * Parses user input like "046d:082d" or "046D 082D". Returns null if malformed.
+ */
+export const parseUsbIdInput = (text: string): UsbId | null => {
+  const match = text.trim().match(/^([0-9a-f]{4})[\s:]([0-9a-f]{4})$/i);
+  return match ? { vendorId: match[1].toLowerCase(), productId: match[2].toLowerCase() } : null;
+};
@@ -0,0 +1,197 @@
+import { OS, UsbId } from "../types";
+import { formatUsbId } from "./deviceIdentity";
+
+// Script snippets that find a camera at runtime by name or USB ID, so a
+// generated script configures the right camera on multi-camera machines.
+
+// Python string literal. JSON escaping is valid Python for any label we'll see.
+export const pyString = (value: string): string => JSON.stringify(value);
+
+// Text inside a """docstring""": quotes and backslashes can't end or break it
+export const pyDocText = (value: string): string => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+// Single-quoted shell string
+export const shString = (value: string): string => `'${value.replace(/'/g, `'\\''`)}'`;
+
+// Single-quoted PowerShell string
+export const psString = (value: string): string => `'${value.replace(/'/g, "''")}'`;
+
+export const pyUsbId = (usbId?: UsbId): string => (usbId ? pyString(formatUsbId(usbId)) : 'None');
+
+const PY_LINUX = `def find_camera_index(name, usb_id=None):
+    """Returns the OpenCV index of the camera's capture node (/dev/videoN)."""
+    nodes = sorted(glob.glob("/sys/class/video4linux/video*"), key=lambda p: int(re.sub(r"\\D", "", os.path.basename(p))))
+    for node in nodes:
+        # UVC cameras also register a metadata node; only index 0 captures video
+        try:
+            with open(os.path.join(node, "index")) as f:
+                if f.read().strip() != "0":
+                    continue
+        except OSError:
+            pass
+        number = int(re.sub(r"\\D", "", os.path.basename(node)))
+        if usb_id:
+            usb_dev = os.path.realpath(os.path.join(node, "device", ".."))
+            try:
+                with open(os.path.join(usb_dev, "idVendor")) as f:
+                    vid = f.read().strip()
+                with open(os.path.join(usb_dev, "idProduct")) as f:
+                    pid = f.read().strip()
+            except OSError:
+                continue
+            if f"{vid}:{pid}".lower() == usb_id.lower():
+                return number
+        else:
+            with open(os.path.join(node, "name")) as f:
+                if name.lower() in f.read().strip().lower():
+                    return number
+    return None`;
+
+const PY_WINDOWS = `def find_camera_index(name, usb_id=None):
+    """Returns the DirectShow index of the camera (same order OpenCV uses)."""
+    try:
+        from pygrabber.dshow_graph import FilterGraph
+    except ImportError:
+        sys.exit("Error: pygrabber is required to find cameras by name (pip install pygrabber)")
+    if usb_id:
+        # Translate VID/PID to the friendly name DirectShow reports
+        vid, pid = usb_id.upper().split(":")
+        query = (
+            "Get-PnpDevice -Class Camera,Image -PresentOnly | "
+            f"Where-Object InstanceId -match 'VID_{vid}&PID_{pid}' | "
+            "Select-Object -First 1 -ExpandProperty FriendlyName"
+        )
+        result = subprocess.run(["powershell", "-NoProfile", "-Command", query], capture_output=True, text=True)
+        name = result.stdout.strip()
+        if not name:
+            return None
+    for index, device_name in enumerate(FilterGraph().get_input_devices()):
+        if name.lower() in device_name.lower():
+            return index
+    return None`;
+
+const PY_MACOS = `def find_camera_index(name, usb_id=None):
+    """Returns the AVFoundation index of the camera (system_profiler order)."""
+    result = subprocess.run(["system_profiler", "SPCameraDataType", "-json"], capture_output=True, text=True)
+    cameras = json.loads(result.stdout or "{}").get("SPCameraDataType", [])
+    for index, camera in enumerate(cameras):
+        if usb_id:
+            # Model ID looks like "UVC Camera VendorID_1133 ProductID_2093" (decimal)
+            vid, pid = (int(part, 16) for part in usb_id.split(":"))
+            if f"VendorID_{vid} ProductID_{pid}" in camera.get("spcamera_model-id", ""):
+                return index
+        elif name.lower() in camera.get("_name", "").lower():
+            return index
+    return None`;
+
+const PY_IMPORTS: Record<OS, string> = {
+  [OS.LINUX]: 'import glob\nimport os\nimport re',
+  [OS.WINDOWS]: 'import subprocess',
+  [OS.MACOS]: 'import json\nimport subprocess',
+};
+
+const PY_FINDERS: Record<OS, string> = {
+  [OS.LINUX]: PY_LINUX,
+  [OS.WINDOWS]: PY_WINDOWS,
+  [OS.MACOS]: PY_MACOS,
+};
+
+export const pythonLookupImports = (os: OS): string => `${PY_IMPORTS[os]}\nimport sys`;
+
+/**
+ * find_camera_index() for the target OS plus require_camera_index(), which
+ * exits with an error instead of silently falling back to another camera.
+ */
+export const pythonLookupFunctions = (os: OS): string => `${PY_FINDERS[os]}
+
+def require_camera_index(name, usb_id=None):
+    index = find_camera_index(name, usb_id)
+    if index is None:
+        what = f"{name} ({usb_id})" if usb_id else name
+        sys.exit(f"Error: camera '{what}' not found. Is it plugged in?")
+    return index`;
+
+export const SHELL_FIND_DEVICE = `# Resolves the capture node (/dev/videoN) of a camera by USB ID or name
+find_device() {
+  local name="$1" usb_id="$2" node usb link dev
+  for node in /sys/class/video4linux/video*; do
+    # UVC cameras also register a metadata node; only index 0 captures video
+    [ "$(cat "$node/index" 2>/dev/null || echo 0)" = "0" ] || continue
+    if [ -n "$usb_id" ]; then
+      usb="$(readlink -f "$node/device/..")"
+      if [ "$(cat "$usb/idVendor" 2>/dev/null):$(cat "$usb/idProduct" 2>/dev/null)" = "$usb_id" ]; then
+        echo "/dev/$(basename "$node")"
+        return 0
+      fi
+    fi
+  done
+  [ -n "$usb_id" ] && return 1
+
+  # Stable by-id symlinks, e.g. usb-046d_HD_Pro_Webcam_C920_1234ABCD-video-index0
+  for link in /dev/v4l/by-id/*-video-index0; do
+    [ -e "$link" ] || continue
+    case "$(basename "$link" | tr '_' ' ')" in
+      *"$name"*) readlink -f "$link"; return 0 ;;
+    esac
+  done
+
+  # Fall back to the first node listed under the camera in v4l2-ctl --list-devices
+  dev="$(v4l2-ctl --list-devices 2>/dev/null | awk -v n="$name" '
+    index($0, n) == 1 { found = 1; next }
+    /^[^ \\t]/ { found = 0 }
+    found && $1 ~ /^\\/dev\\/video/ { print $1; exit }')"
+  [ -n "$dev" ] && { echo "$dev"; return 0; }
+  return 1
+}`;
+
+/**
+ * Shell lines that set DEVICE for one camera, or exit non-zero if it's missing.
+ * `onMissing` runs instead of the plain exit, e.g. to record the camera and
+ * return from its function.
+ */
+export const shellResolveDevice = (cameraName: string, usbId?: UsbId, onMissing = 'exit 1'): string => `CAMERA_NAME=${shString(cameraName)}
+USB_ID=${shString(usbId ? formatUsbId(usbId) : '')}  # vendor:product; empty = match by name
+DEVICE="$(find_device "$CAMERA_NAME" "$USB_ID")" || {
+  echo "Error: camera '$CAMERA_NAME'\${USB_ID:+ ($USB_ID)} not found. Is it plugged in?" >&2
+  ${onMissing}
+}`;
+
+/**
+ * PowerShell lines that set $camera to the DirectShow filter of one camera, or
+ * exit non-zero if it's missing. Needs POWERSHELL_DIRECTSHOW to be loaded.
+ * `onMissing` runs instead of the plain exit, e.g. to write a report first.
+ */
+export const powershellResolveCamera = (cameraName: string, usbId?: UsbId, onMissing = 'exit 1'): string => `$cameraName = ${psString(cameraName)}
+$usbId = ${psString(usbId ? formatUsbId(usbId) : '')}  # vendor:product; empty = match by name
+$camera = [FocusLock.DirectShowCamera]::Find($cameraName, $usbId)
+if ($null -eq $camera) {
+    $what = if ($usbId) { "$cameraName ($usbId)" } else { $cameraName }
+    [Console]::Error.WriteLine("Error: camera '$what' not found. Is it plugged in?")
+    ${onMissing}
+}`;
+
+export const SHELL_FIND_UVC_INDEX = `# Resolves the uvc-util index of a camera by USB ID or name.
+# Parses the device table of \`uvc-util -d\`: index, vendor:product, location, UVC version, name
+find_uvc_index() {
+  local name="$1" usb_id="$2"
+  uvc-util -d 2>/dev/null | awk -v n="$name" -v id="$usb_id" '
+    $1 ~ /^[0-9]+$/ && $2 ~ /^0x/ {
+      dev = ""
+      for (i = 5; i <= NF; i++) dev = dev (i > 5 ? " " : "") $i
+      if (id != "") {
+        split(id, parts, ":")
+        if (tolower($2) == "0x" parts[1] ":0x" parts[2]) { print $1; exit }
+      } else if (index(tolower(dev), tolower(n))) { print $1; exit }
+    }' | grep .
+}`;
+
+/**
+ * Shell lines that set INDEX (the uvc-util device index) for one camera, or
+ * exit non-zero if it's missing. `onMissing` works as for shellResolveDevice.
+ */
+export const shellResolveUvcIndex = (cameraName: string, usbId?: UsbId, onMissing = 'exit 1'): string => `CAMERA_NAME=${shString(cameraName)}
+USB_ID=${shString(usbId ? formatUsbId(usbId) : '')}  # vendor:product; empty = match by name
+INDEX="$(find_uvc_index "$CAMERA_NAME" "$USB_ID")" || {
+  echo "Error: camera '$CAMERA_NAME'\${USB_ID:+ ($USB_ID)} not found. Is it plugged in?" >&2
+  ${onMissing}
+}`;
@@ -0,0 +1,182 @@
+// PowerShell building blocks for driving webcam controls on Windows without
+// Python or third-party tools. A small C# type, compiled at runtime through
+// Add-Type, talks to the camera's DirectShow filter via IAMCameraControl
+// (focus, zoom, exposure, pan, tilt) and IAMVideoProcAmp (brightness,
+// contrast, saturation, sharpness, white balance).
+
+// Property names accepted by Set/SetMode/Get, one enum per COM interface
+export type DirectShowProperty =
+  | 'Pan' | 'Tilt' | 'Zoom' | 'Exposure' | 'Focus'
+  | 'Brightness' | 'Contrast' | 'Saturation' | 'Sharpness' | 'WhiteBalance';
+
+const CSHARP_TYPE = `using System;
+using System.Runtime.InteropServices;
+using System.Runtime.InteropServices.ComTypes;
+
+namespace FocusLock
+{
+    [ComImport, Guid("29840822-5B84-11D0-BD3B-00A0C911CE86"), InterfaceType(ComInterfaceType.InterfaceIsIUnknown)]
+    interface ICreateDevEnum
+    {
+        [PreserveSig] int CreateClassEnumerator([In] ref Guid clsidDeviceClass, out IEnumMoniker enumMoniker, int flags);
+    }
+
+    [ComImport, Guid("55272A00-42CB-11CE-8135-00AA004BB851"), InterfaceType(ComInterfaceType.InterfaceIsIUnknown)]
+    interface IPropertyBag
+    {
+        [PreserveSig] int Read([MarshalAs(UnmanagedType.LPWStr)] string propName, out object value, IntPtr errorLog);
+        [PreserveSig] int Write([MarshalAs(UnmanagedType.LPWStr)] string propName, ref object value);
+    }
+
+    [ComImport, Guid("C6E13370-30AC-11d0-A18C-00A0C9118956"), InterfaceType(ComInterfaceType.InterfaceIsIUnknown)]
+    interface IAMCameraControl
+    {
+        [PreserveSig] int GetRange(int property, out int min, out int max, out int step, out int defaultValue, out int flags);
+        [PreserveSig] int Set(int property, int value, int flags);
+        [PreserveSig] int Get(int property, out int value, out int flags);
+    }
+
+    [ComImport, Guid("C6E13360-30AC-11d0-A18C-00A0C9118956"), InterfaceType(ComInterfaceType.InterfaceIsIUnknown)]
+    interface IAMVideoProcAmp
+    {
+        [PreserveSig] int GetRange(int property, out int min, out int max, out int step, out int defaultValue, out int flags);
+        [PreserveSig] int Set(int property, int value, int flags);
+        [PreserveSig] int Get(int property, out int value, out int flags);
+    }
+
+    public enum CameraControlProperty { Pan, Tilt, Roll, Zoom, Exposure, Iris, Focus }
+    public enum VideoProcAmpProperty { Brightness, Contrast, Hue, Saturation, Sharpness, Gamma, ColorEnable, WhiteBalance, BacklightCompensation, Gain }
+
+    public static class DirectShowCamera
+    {
+        const int FlagsAuto = 1;
+        const int FlagsManual = 2;
+
+        static readonly Guid SystemDeviceEnum = new Guid("62BE5D10-60EB-11d0-BD3B-00A0C911CE86");
+        static readonly Guid VideoInputDeviceCategory = new Guid("860BB310-5D01-11d0-BD3B-00A0C911CE86");
+        static readonly Guid BaseFilter = new Guid("56a86895-0ad4-11ce-b03a-0020af0ba770");
+
+        static string ReadProperty(IPropertyBag bag, string name)
+        {
+            object value;
+            return bag.Read(name, out value, IntPtr.Zero) == 0 ? value as string : null;
+        }
+
+        // Capture filter of the first camera whose USB ID (vid:pid) or friendly name matches
+        public static object Find(string name, string usbId)
+        {
+            var devEnum = (ICreateDevEnum)Activator.CreateInstance(Type.GetTypeFromCLSID(SystemDeviceEnum));
+            var category = VideoInputDeviceCategory;
+            IEnumMoniker monikers;
+            if (devEnum.CreateClassEnumerator(ref category, out monikers, 0) != 0 || monikers == null) return null;
+
+            // Device paths look like \\\\?\\usb#vid_046d&pid_082d&mi_00#...
+            string pathId = string.IsNullOrEmpty(usbId) ? null : "vid_" + usbId.Replace(":", "&pid_").ToLowerInvariant();
+            var moniker = new IMoniker[1];
+            while (monikers.Next(1, moniker, IntPtr.Zero) == 0)
+            {
+                var bagId = typeof(IPropertyBag).GUID;
+                object bagObject;
+                moniker[0].BindToStorage(null, null, ref bagId, out bagObject);
+                var bag = (IPropertyBag)bagObject;
+                string friendlyName = ReadProperty(bag, "FriendlyName") ?? "";
+                string devicePath = ReadProperty(bag, "DevicePath") ?? "";
+
+                bool match = pathId != null
+                    ? devicePath.ToLowerInvariant().Contains(pathId)
+                    : friendlyName.IndexOf(name, StringComparison.OrdinalIgnoreCase) >= 0;
+                if (match)
+                {
+                    var filterId = BaseFilter;
+                    object filter;
+                    moniker[0].BindToObject(null, null, ref filterId, out filter);
+                    return filter;
+                }
+            }
+            return null;
+        }
+
+        // Which interface a property name belongs to, and its numeric ID there
+        static bool Resolve(object filter, string property, out bool isCamera, out int prop)
+        {
+            CameraControlProperty cameraProperty;
+            VideoProcAmpProperty procAmpProperty;
+            isCamera = Enum.TryParse(property, out cameraProperty);
+            if (isCamera)
+            {
+                prop = (int)cameraProperty;
+                return filter is IAMCameraControl;
+            }
+            prop = Enum.TryParse(property, out procAmpProperty) ? (int)procAmpProperty : -1;
+            return prop >= 0 && filter is IAMVideoProcAmp;
+        }
+
+        static string Apply(object filter, string property, int? value, bool auto)
+        {
+            bool isCamera;
+            int prop, min, max, step, def, caps, current, flags, hr;
+            if (!Resolve(filter, property, out isCamera, out prop)) return "not supported";
+            var camera = filter as IAMCameraControl;
+            var procAmp = filter as IAMVideoProcAmp;
+
+            hr = isCamera ? camera.GetRange(prop, out min, out max, out step, out def, out caps)
+                          : procAmp.GetRange(prop, out min, out max, out step, out def, out caps);
+            if (hr != 0) return "not supported";
+            if (auto && (caps & FlagsAuto) == 0) return "auto mode not supported";
+
+            hr = isCamera ? camera.Get(prop, out current, out flags) : procAmp.Get(prop, out current, out flags);
+            int target = value ?? (hr == 0 ? current : def);
+            int clamped = Math.Max(min, Math.Min(max, target));
+
+            hr = isCamera ? camera.Set(prop, clamped, auto ? FlagsAuto : FlagsManual)
+                          : procAmp.Set(prop, clamped, auto ? FlagsAuto : FlagsManual);
+            if (hr != 0) return string.Format("failed (0x{0:X8})", hr);
+            return clamped != target ? string.Format("ok (clamped to {0} of {1}..{2})", clamped, min, max) : "ok";
+        }
+
+        // Sets a manual value, which also switches the property to manual
+        public static string Set(object filter, string property, int value)
+        {
+            return Apply(filter, property, value, false);
+        }
+
+        // Switches between auto and manual, keeping the current value
+        public static string SetMode(object filter, string property, bool auto)
+        {
+            return Apply(filter, property, null, auto);
+        }
+
+        // { current value, 1 if in auto mode else 0 }, or null if it can't be read
+        public static int[] Get(object filter, string property)
+        {
+            bool isCamera;
+            int prop, value, flags;
+            if (!Resolve(filter, property, out isCamera, out prop)) return null;
+            int hr = isCamera ? ((IAMCameraControl)filter).Get(prop, out value, out flags)
+                              : ((IAMVideoProcAmp)filter).Get(prop, out value, out flags);
+            return hr == 0 ? new[] { value, (flags & FlagsAuto) != 0 ? 1 : 0 } : null;
+        }
+    }
+}`;
+
+/**
+ * Compiles the DirectShow helper type (once per session) and defines the
+ * Set-Control / Set-ControlMode functions used by the camera blocks.
+ */
+export const POWERSHELL_DIRECTSHOW = `# DirectShow access through a small C# helper (compiled on first run, no installs needed)
+if (-not ([System.Management.Automation.PSTypeName]'FocusLock.DirectShowCamera').Type) {
+    Add-Type -TypeDefinition @'
+${CSHARP_TYPE}
+'@
+}
+
+function Set-Control($Camera, [string]$Property, [int]$Value) {
+    $result = [FocusLock.DirectShowCamera]::Set($Camera, $Property, $Value)
+    Write-Host "Setting $Property to $Value -> $result"
+}
+
+function Set-ControlMode($Camera, [string]$Property, [bool]$Auto) {
+    $mode = if ($Auto) { "Auto" } else { "Manual" }
+    $result = [FocusLock.DirectShowCamera]::SetMode($Camera, $Property, $Auto)
+    Write-Host "Setting $Property to $mode -> $result"
+}`;
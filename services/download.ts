@@ -0,0 +1,10 @@
+// Saves generated content (scripts, zips, exports) through a temporary link,
+// the same way for every download in the app.
+export const downloadFile = (content: BlobPart, type: string, fileName: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
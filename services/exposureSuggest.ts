@@ -0,0 +1,122 @@
+// Exposure suggestion: nudges brightness towards a mid-grey mean, then trades
+// contrast against clipping until the histogram fills the range without
+// crushing shadows or blowing highlights. Document captures under office
+// lighting mostly need the contrast step: paper sits near white and clips first.
+
+import { HistogramStats } from './frameAnalysis';
+
+export interface ControlRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface ExposureValues {
+  brightness: number;
+  contrast: number;
+}
+
+export interface ExposureStep extends ExposureValues {
+  stats: HistogramStats;
+}
+
+export interface ExposureSuggestOptions {
+  start: ExposureValues;
+  // A control the camera lacks is left where it is
+  brightnessRange?: ControlRange;
+  contrastRange?: ControlRange;
+  /** Sends the values to the camera. Resolves once the constraint is applied. */
+  apply: (values: ExposureValues) => Promise<void>;
+  /** Returns histogram statistics of the current frames. */
+  measure: () => Promise<HistogramStats>;
+  onStep?: (step: ExposureStep) => void;
+  signal?: AbortSignal;
+  maxSteps?: number;
+  /** Time for the sensor pipeline to catch up before measuring. */
+  settleMs?: number;
+}
+
+const TARGET_MEAN = 118;
+const MEAN_TOLERANCE = 10;
+// Wanted distance between the 2nd and 98th luma percentiles
+const TARGET_SPREAD = 190;
+// Fraction of clipped pixels tolerated at either end
+const CLIP_TOLERANCE = 0.005;
+
+const clampToRange = (value: number, range: ControlRange): number => {
+  const step = range.step > 0 ? range.step : (range.max - range.min) / 100;
+  const snapped = range.min + Math.round((value - range.min) / step) * step;
+  return Math.min(range.max, Math.max(range.min, parseFloat(snapped.toFixed(6))));
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+/**
+ * Lower is better: distance from the target mean plus heavy penalties for
+ * clipping and a milder one for a narrow spread.
+ */
+export const exposureScore = (stats: HistogramStats): number =>
+  Math.abs(stats.mean - TARGET_MEAN)
+  + 2000 * Math.max(0, stats.shadowClip - CLIP_TOLERANCE)
+  + 2000 * Math.max(0, stats.highlightClip - CLIP_TOLERANCE)
+  + 0.5 * Math.max(0, TARGET_SPREAD - (stats.high - stats.low));
+
+export const isWellExposed = (stats: HistogramStats): boolean =>
+  Math.abs(stats.mean - TARGET_MEAN) <= MEAN_TOLERANCE
+  && stats.shadowClip <= CLIP_TOLERANCE
+  && stats.highlightClip <= CLIP_TOLERANCE
+  && stats.high - stats.low >= TARGET_SPREAD * 0.8;
+
+/**
+ * Runs the adjustment loop and resolves with the best values seen; the
+ * caller applies them. Rejects with the signal's reason if aborted.
+ */
+export const runExposureSuggest = async (options: ExposureSuggestOptions): Promise<ExposureValues> => {
+  const { start, brightnessRange, contrastRange, apply, measure, onStep, signal, maxSteps = 10, settleMs = 400 } = options;
+  let current = { ...start };
+  let best = { ...start };
+  let bestScore = Infinity;
+
+  for (let i = 0; i < maxSteps; i++) {
+    signal?.throwIfAborted();
+    await apply(current);
+    await delay(settleMs, signal);
+    const stats = await measure();
+    signal?.throwIfAborted();
+    onStep?.({ ...current, stats });
+
+    const score = exposureScore(stats);
+    if (score < bestScore) {
+      bestScore = score;
+      best = { ...current };
+    }
+    if (isWellExposed(stats)) break;
+
+    const next = { ...current };
+    if (brightnessRange) {
+      // Proportional step: the full luma range maps to half the control range
+      const span = brightnessRange.max - brightnessRange.min;
+      next.brightness = clampToRange(current.brightness + ((TARGET_MEAN - stats.mean) / 255) * span * 0.5, brightnessRange);
+    }
+    if (contrastRange) {
+      const span = contrastRange.max - contrastRange.min;
+      const spread = stats.high - stats.low;
+      if (stats.shadowClip > CLIP_TOLERANCE || stats.highlightClip > CLIP_TOLERANCE) {
+        next.contrast = clampToRange(current.contrast - span * 0.08, contrastRange);
+      } else if (spread < TARGET_SPREAD) {
+        next.contrast = clampToRange(current.contrast + ((TARGET_SPREAD - spread) / 255) * span * 0.5, contrastRange);
+      }
+    }
+    // Nothing left to move: the controls are at their limits
+    if (next.brightness === current.brightness && next.contrast === current.contrast) break;
+    current = next;
+  }
+
+  return best;
+};
@@ -0,0 +1,102 @@
+import { OS, ScriptGeneratorPlugin } from "../types";
+import { nativeCameraName } from "./deviceIdentity";
+import { NativeScriptParams, describeCamera, extraControls, toNativeCameras, toNativeParams } from "./scriptControls";
+
+// ffmpeg's DirectShow input can't set individual controls, but it can open
+// the driver's property dialog and save or load the filter's whole property
+// state. The generated batch file records the state once ("setup") and loads
+// it on every later run. Its v4l2 and avfoundation inputs have no equivalent,
+// so this target is Windows only.
+
+// Inside a quoted batch argument only % and " need care
+const cmdString = (value: string): string => `"${value.replace(/"/g, '').replace(/%/g, '%%')}"`;
+
+// The values to set in the dialog, in DirectShow units
+const targetValues = (params: NativeScriptParams): string => {
+  const { settings } = params;
+  const focusAuto = settings.focusMode === 'continuous';
+  const lines = [
+    `Focus: ${focusAuto ? 'auto' : `manual, ${settings.focusDistance}`}`,
+    `Zoom: ${settings.zoom}`,
+    `Brightness: ${settings.brightness}`,
+    `Contrast: ${settings.contrast}`,
+    ...extraControls(settings, params.os).map(c => {
+      if (!c.dshow) return `${c.label}: ${c.value} (not in the DirectShow dialog)`;
+      return 'auto' in c.dshow ? `${c.label}: ${c.dshow.auto ? 'on' : 'off'}` : `${c.label}: ${c.dshow.value}`;
+    }),
+  ];
+  return `rem Target values (DirectShow units, set these in the dialog):\n${lines.map(line => `rem   ${line}`).join('\n')}`;
+};
+
+const cameraSection = (params: NativeScriptParams, i: number, count: number): string =>
+  `rem ---- Camera ${i + 1}/${count}: ${params.cameraName}${describeCamera(params, 'rem ')}
+${targetValues(params)}
+call :apply ${cmdString(nativeCameraName(params.cameraName))} "%STATE_DIR%\\camera-${i + 1}.state" %1`;
+
+const generateBatch = (cameras: NativeScriptParams[]): string => `@echo off
+rem FocusLock - Webcam Settings (ffmpeg + DirectShow)
+rem Generated for: ${cameras.map(c => c.cameraName).join(', ')}
+rem
+rem Requirements: ffmpeg in PATH (https://ffmpeg.org/download.html)
+rem
+rem ffmpeg has no per-control options. Instead it saves the camera's complete
+rem DirectShow property state to a file and loads it back on later runs:
+rem   focuslock-apply.cmd setup   opens the driver's property dialog; set the
+rem                               target values listed below, close it, and
+rem                               the state is saved
+rem   focuslock-apply.cmd         loads the saved state (run this at startup)
+setlocal
+set "SCRIPT=%~nx0"
+set "STATE_DIR=%LOCALAPPDATA%\\FocusLock"
+if not exist "%STATE_DIR%" mkdir "%STATE_DIR%"
+set FAILED=0
+
+${cameras.map((camera, i) => cameraSection(camera, i, cameras.length)).join('\n\n')}
+
+if %FAILED% neq 0 exit /b 1
+echo Settings applied successfully.
+exit /b 0
+
+rem call :apply <camera name> <state file> [setup]
+:apply
+if /i "%~3"=="setup" goto :setup
+if not exist "%~2" goto :missing
+echo Loading saved settings for "%~1"...
+ffmpeg -hide_banner -loglevel error -f dshow -video_device_load "%~2" -i video="%~1" -frames:v 1 -f null -
+goto :checked
+
+:setup
+echo Opening the property dialog of "%~1". Set the target values, then close it.
+ffmpeg -hide_banner -loglevel error -f dshow -show_video_device_dialog true -i video="%~1" -frames:v 1 -f null -
+if errorlevel 1 goto :checked
+rem The driver keeps what was set in the dialog, so a second open saves it
+ffmpeg -hide_banner -loglevel error -f dshow -video_device_save "%~2" -i video="%~1" -frames:v 1 -f null -
+goto :checked
+
+:missing
+echo No saved settings for "%~1" yet. Run "%SCRIPT% setup" once first. 1>&2
+set FAILED=1
+exit /b
+
+:checked
+if errorlevel 1 (
+  echo ffmpeg could not open the camera. Is it plugged in? 1>&2
+  set FAILED=1
+)
+exit /b`;
+
+// cmd.exe can miss labels in files with bare LF line endings
+const withCrlf = (script: string): string => script.replace(/\n/g, '\r\n');
+
+export const ffmpegGenerator: ScriptGeneratorPlugin = {
+  id: 'ffmpeg',
+  name: 'ffmpeg',
+  description: 'Generates a batch file that saves the camera\'s DirectShow state once through ffmpeg\'s property dialog and loads it back on every run. Needs only ffmpeg.',
+  supportedOS: [OS.WINDOWS],
+  extension: { [OS.WINDOWS]: '.cmd' },
+  launcher: { [OS.WINDOWS]: 'cmd.exe /c' },
+  requirements: { [OS.WINDOWS]: 'ffmpeg in PATH, and one run of "focuslock-apply.cmd setup" before installing.' },
+  options: [],
+  render: params => withCrlf(generateBatch([toNativeParams(params, 'dshow')])),
+  renderCombined: params => withCrlf(generateBatch(toNativeCameras(params, 'dshow'))),
+};
@@ -0,0 +1,122 @@
+import { CameraCapabilities, CameraSettings, CapabilityRange } from "../types";
+import { ControlDescriptor } from "./cameraControls";
+
+// Keyboard and gamepad fine control of the Live Adjustments. One control is
+// active at a time; nudges move it by fractions or multiples of its step.
+
+export type FineControlAction =
+  | { type: 'nudge'; steps: number }
+  | { type: 'toggleAuto' }
+  | { type: 'cycle'; direction: 1 | -1 }
+  | { type: 'reset' };
+
+// Alt gives sub-step precision, Shift coarse jumps
+export const FINE_STEP = 0.1;
+export const COARSE_STEPS = 10;
+
+export const KEYBOARD_SHORTCUTS: { keys: string; description: string }[] = [
+  { keys: '← / →', description: 'Nudge the active control one step' },
+  { keys: 'Shift + ← / →', description: `Nudge ${COARSE_STEPS} steps` },
+  { keys: 'Alt + ← / →', description: `Nudge ${FINE_STEP} step` },
+  { keys: '[ / ]', description: 'Previous / next control' },
+  { keys: 'A', description: 'Toggle AUTO / MANUAL' },
+  { keys: 'R', description: 'Reset to the value the camera started with' },
+];
+
+// Standard-mapping gamepad: left stick X, face button A, shoulder bumpers, X
+export const GAMEPAD_AXIS = 0;
+export const GAMEPAD_BUTTONS: Record<number, FineControlAction> = {
+  0: { type: 'toggleAuto' },
+  2: { type: 'reset' },
+  4: { type: 'cycle', direction: -1 },
+  5: { type: 'cycle', direction: 1 },
+};
+
+const STICK_DEADZONE = 0.15;
+// Steps per second at full deflection
+const STICK_MAX_RATE = 40;
+
+export const keyAction = (
+  event: Pick<KeyboardEvent, 'key' | 'shiftKey' | 'altKey' | 'ctrlKey' | 'metaKey'>
+): FineControlAction | null => {
+  // Leave browser and OS shortcuts alone
+  if (event.ctrlKey || event.metaKey) return null;
+  const size = event.altKey ? FINE_STEP : event.shiftKey ? COARSE_STEPS : 1;
+  switch (event.key) {
+    case 'ArrowRight':
+    case 'ArrowUp':
+      return { type: 'nudge', steps: size };
+    case 'ArrowLeft':
+    case 'ArrowDown':
+      return { type: 'nudge', steps: -size };
+    case '[':
+      return { type: 'cycle', direction: -1 };
+    case ']':
+      return { type: 'cycle', direction: 1 };
+    case 'a':
+    case 'A':
+      return { type: 'toggleAuto' };
+    case 'r':
+    case 'R':
+      return { type: 'reset' };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Steps per second for a stick deflection in [-1..1]. Quadratic past the
+ * deadzone, so small deflections give the slow, precise racking focus needs.
+ */
+export const stickRate = (axis: number): number => {
+  const magnitude = Math.abs(axis);
+  if (magnitude <= STICK_DEADZONE) return 0;
+  const t = Math.min(1, (magnitude - STICK_DEADZONE) / (1 - STICK_DEADZONE));
+  return Math.sign(axis) * t * t * STICK_MAX_RATE;
+};
+
+// Some browsers report step 0 for continuous controls; use 1% of the range
+const effectiveStep = (range: CapabilityRange): number =>
+  range.step > 0 ? range.step : (range.max - range.min) / 100;
+
+// Moves `value` by `steps` (fractional allowed) and clamps; sub-step values are kept
+export const nudgeValue = (value: number, range: CapabilityRange, steps: number): number => {
+  const next = Math.min(range.max, Math.max(range.min, value + steps * effectiveStep(range)));
+  return parseFloat(next.toFixed(6));
+};
+
+export const cycleKey = <K>(keys: K[], current: K | null, direction: 1 | -1): K | null => {
+  if (keys.length === 0) return null;
+  const index = current === null ? -1 : keys.indexOf(current);
+  if (index === -1) return keys[0];
+  return keys[(index + direction + keys.length) % keys.length];
+};
+
+/**
+ * Changes a nudge makes to a range control, in the order to apply them. A
+ * control that follows an AUTO mode is switched to MANUAL first, so racking
+ * focus with the stick takes over from autofocus.
+ */
+export const nudgeChanges = (
+  control: ControlDescriptor,
+  settings: CameraSettings,
+  capabilities: CameraCapabilities,
+  steps: number
+): Partial<CameraSettings> => {
+  if (control.kind !== 'range') return {};
+  const range = capabilities[control.key];
+  const value = settings[control.key];
+  if (!range || value === undefined) return {};
+  const next = nudgeValue(value, range, steps);
+  if (next === value) return {};
+  const unlock = control.manualWith && settings[control.manualWith] !== 'manual' ? { [control.manualWith]: 'manual' } : {};
+  return { ...unlock, [control.key]: next };
+};
+
+// The AUTO/MANUAL switch of a control (its own, or the mode it follows)
+export const toggleChanges = (control: ControlDescriptor, settings: CameraSettings): Partial<CameraSettings> => {
+  if (control.kind === 'toggle') return { [control.key]: !settings[control.key] };
+  const mode = control.kind === 'mode' ? control.key : control.manualWith;
+  if (!mode) return {};
+  return { [mode]: (settings[mode] ?? 'continuous') === 'continuous' ? 'manual' : 'continuous' };
+};
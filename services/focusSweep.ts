@@ -0,0 +1,86 @@
+// Automated focus search: a coarse pass over the full focusDistance range,
+// then a fine pass between the neighbours of the coarse peak.
+
+export interface FocusRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface SweepSample {
+  focusDistance: number;
+  score: number;
+  pass: 'coarse' | 'fine';
+}
+
+export interface FocusSweepOptions {
+  range: FocusRange;
+  /** Moves the lens to the given distance. Resolves once the constraint is applied. */
+  apply: (focusDistance: number) => Promise<void>;
+  /** Returns the sharpness of the current frame. */
+  measure: () => Promise<number>;
+  onSample?: (sample: SweepSample) => void;
+  signal?: AbortSignal;
+  coarseSteps?: number;
+  fineSteps?: number;
+  /** Time for the lens to travel before measuring. */
+  settleMs?: number;
+}
+
+const snapToStep = (value: number, range: FocusRange): number => {
+  const step = range.step > 0 ? range.step : (range.max - range.min) / 100;
+  const snapped = range.min + Math.round((value - range.min) / step) * step;
+  // Strip float noise like 0.30000000000000004
+  return Math.min(range.max, Math.max(range.min, parseFloat(snapped.toFixed(6))));
+};
+
+const spread = (from: number, to: number, count: number, range: FocusRange): number[] => {
+  const points = new Set<number>();
+  for (let i = 0; i < count; i++) {
+    const t = count === 1 ? 0.5 : i / (count - 1);
+    points.add(snapToStep(from + (to - from) * t, range));
+  }
+  return [...points];
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+/**
+ * Runs the sweep and resolves with the sharpest focusDistance found.
+ * Rejects with the signal's reason if aborted.
+ */
+export const runFocusSweep = async (options: FocusSweepOptions): Promise<number> => {
+  const { range, apply, measure, onSample, signal, coarseSteps = 12, fineSteps = 8, settleMs = 300 } = options;
+  const scored = new Map<number, number>();
+
+  const visit = async (points: number[], pass: SweepSample['pass']) => {
+    for (const focusDistance of points) {
+      signal?.throwIfAborted();
+      if (scored.has(focusDistance)) continue;
+      await apply(focusDistance);
+      await delay(settleMs, signal);
+      const score = await measure();
+      signal?.throwIfAborted();
+      scored.set(focusDistance, score);
+      onSample?.({ focusDistance, score, pass });
+    }
+  };
+
+  const best = () => [...scored.entries()].reduce((a, b) => (b[1] > a[1] ? b : a))[0];
+
+  const coarse = spread(range.min, range.max, coarseSteps, range);
+  await visit(coarse, 'coarse');
+
+  const peak = coarse.indexOf(best());
+  const lo = coarse[Math.max(0, peak - 1)];
+  const hi = coarse[Math.min(coarse.length - 1, peak + 1)];
+  await visit(spread(lo, hi, fineSteps, range), 'fine');
+
+  return best();
+};
@@ -0,0 +1,290 @@
+import { RegionOfInterest } from '../types';
+
+// Frame analysis helpers used by the focus- and exposure-assist tools.
+// Everything works on a downscaled grayscale copy of the current video frame
+// so it can run several times per second without stalling the preview.
+
+export interface GrayFrame {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+// Longest edge of the analysis frame. Enough detail for a stable sharpness
+// score while keeping the per-frame cost low.
+const ANALYSIS_WIDTH = 480;
+
+/**
+ * Draws the current video frame into the given canvas (downscaled) and returns
+ * its pixels, or null if the video has no frame yet.
+ */
+export const grabFrame = (
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  maxWidth: number = ANALYSIS_WIDTH
+): ImageData | null => {
+  if (video.readyState < video.HAVE_CURRENT_DATA || !video.videoWidth) return null;
+
+  const scale = Math.min(1, maxWidth / video.videoWidth);
+  const width = Math.round(video.videoWidth * scale);
+  const height = Math.round(video.videoHeight * scale);
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+export const toGrayscale = (image: ImageData): GrayFrame => {
+  const { width, height, data } = image;
+  const gray = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    // Rec. 601 luma
+    gray[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+  }
+  return { width, height, data: gray };
+};
+
+/**
+ * 4-neighbour Laplacian response at every interior pixel. Border pixels are 0.
+ */
+const laplacian = (frame: GrayFrame): Float32Array => {
+  const { width, height, data } = frame;
+  const out = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    const row = y * width;
+    for (let x = 1; x < width - 1; x++) {
+      const i = row + x;
+      out[i] = data[i - 1] + data[i + 1] + data[i - width] + data[i + width] - 4 * data[i];
+    }
+  }
+  return out;
+};
+
+/**
+ * Converts a normalized region to pixel bounds, clipped to the frame interior.
+ */
+const regionBounds = (frame: GrayFrame, roi?: RegionOfInterest) => {
+  const { width, height } = frame;
+  if (!roi) return { x0: 1, y0: 1, x1: width - 1, y1: height - 1 };
+  return {
+    x0: Math.max(1, Math.floor(roi.x * width)),
+    y0: Math.max(1, Math.floor(roi.y * height)),
+    x1: Math.min(width - 1, Math.ceil((roi.x + roi.width) * width)),
+    y1: Math.min(height - 1, Math.ceil((roi.y + roi.height) * height)),
+  };
+};
+
+/**
+ * Variance of the Laplacian over the frame interior, or only inside `roi`.
+ * Higher means more high-frequency detail, i.e. sharper focus. The absolute
+ * value depends on scene content, so only compare scores of the same scene.
+ */
+export const laplacianVariance = (frame: GrayFrame, roi?: RegionOfInterest): number => {
+  const { width, height } = frame;
+  if (width < 3 || height < 3) return 0;
+
+  const { x0, y0, x1, y1 } = regionBounds(frame, roi);
+  if (x1 <= x0 || y1 <= y0) return 0;
+
+  const lap = laplacian(frame);
+  let sum = 0;
+  let sumSq = 0;
+  let n = 0;
+  for (let y = y0; y < y1; y++) {
+    const row = y * width;
+    for (let x = x0; x < x1; x++) {
+      const v = lap[row + x];
+      sum += v;
+      sumSq += v * v;
+      n++;
+    }
+  }
+  const mean = sum / n;
+  return sumSq / n - mean * mean;
+};
+
+/**
+ * Paints edge pixels whose Laplacian magnitude exceeds `threshold` into `out`
+ * with the given color and leaves everything else transparent.
+ */
+export const renderPeakingMask = (
+  frame: GrayFrame,
+  out: ImageData,
+  threshold: number,
+  color: [number, number, number]
+): void => {
+  const lap = laplacian(frame);
+  const px = out.data;
+  const [r, g, b] = color;
+  for (let i = 0, p = 0; i < lap.length; i++, p += 4) {
+    if (Math.abs(lap[i]) > threshold) {
+      px[p] = r;
+      px[p + 1] = g;
+      px[p + 2] = b;
+      px[p + 3] = 255;
+    } else {
+      px[p + 3] = 0;
+    }
+  }
+};
+
+export interface Histogram {
+  // 256 bins each; luma uses the same Rec. 601 weights as toGrayscale
+  luma: Uint32Array;
+  r: Uint32Array;
+  g: Uint32Array;
+  b: Uint32Array;
+  total: number;
+}
+
+export const emptyHistogram = (): Histogram => ({
+  luma: new Uint32Array(256),
+  r: new Uint32Array(256),
+  g: new Uint32Array(256),
+  b: new Uint32Array(256),
+  total: 0,
+});
+
+/**
+ * Adds the pixels of `image` to `into` (a fresh histogram by default).
+ */
+export const computeHistogram = (image: ImageData, into: Histogram = emptyHistogram()): Histogram => {
+  const { data } = image;
+  for (let p = 0; p < data.length; p += 4) {
+    const r = data[p];
+    const g = data[p + 1];
+    const b = data[p + 2];
+    into.r[r]++;
+    into.g[g]++;
+    into.b[b]++;
+    into.luma[Math.round(0.299 * r + 0.587 * g + 0.114 * b)]++;
+  }
+  into.total += data.length / 4;
+  return into;
+};
+
+// Luma at or beyond these levels counts as clipped
+export const SHADOW_CLIP_LEVEL = 4;
+export const HIGHLIGHT_CLIP_LEVEL = 251;
+
+export interface HistogramStats {
+  mean: number;
+  // 2nd and 98th luma percentiles: the spread that ignores stray pixels
+  low: number;
+  high: number;
+  // Fraction of pixels (0..1) crushed to black / blown to white
+  shadowClip: number;
+  highlightClip: number;
+}
+
+export const histogramStats = (histogram: Histogram): HistogramStats => {
+  const { luma, total } = histogram;
+  if (total === 0) return { mean: 0, low: 0, high: 0, shadowClip: 0, highlightClip: 0 };
+
+  const percentile = (fraction: number) => {
+    const target = total * fraction;
+    let seen = 0;
+    for (let level = 0; level < 256; level++) {
+      seen += luma[level];
+      if (seen >= target) return level;
+    }
+    return 255;
+  };
+
+  let sum = 0;
+  let shadow = 0;
+  let highlight = 0;
+  for (let level = 0; level < 256; level++) {
+    sum += level * luma[level];
+    if (level <= SHADOW_CLIP_LEVEL) shadow += luma[level];
+    if (level >= HIGHLIGHT_CLIP_LEVEL) highlight += luma[level];
+  }
+  return {
+    mean: sum / total,
+    low: percentile(0.02),
+    high: percentile(0.98),
+    shadowClip: shadow / total,
+    highlightClip: highlight / total,
+  };
+};
+
+const ZEBRA_PERIOD = 8;
+
+/**
+ * Paints diagonal zebra stripes over clipped pixels into `out`: highlights in
+ * `highlightColor`, shadows in `shadowColor` (striped the other way), and
+ * leaves everything else transparent.
+ */
+export const renderClippingMask = (
+  image: ImageData,
+  out: ImageData,
+  highlightColor: [number, number, number],
+  shadowColor: [number, number, number]
+): void => {
+  const { width, height, data } = image;
+  const px = out.data;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      const luma = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+      let color: [number, number, number] | null = null;
+      if (luma >= HIGHLIGHT_CLIP_LEVEL && (x + y) % ZEBRA_PERIOD < ZEBRA_PERIOD / 2) {
+        color = highlightColor;
+      } else if (luma <= SHADOW_CLIP_LEVEL && (x - y + height) % ZEBRA_PERIOD < ZEBRA_PERIOD / 2) {
+        color = shadowColor;
+      }
+      if (color) {
+        px[p] = color[0];
+        px[p + 1] = color[1];
+        px[p + 2] = color[2];
+        px[p + 3] = 255;
+      } else {
+        px[p + 3] = 0;
+      }
+    }
+  }
+};
+
+const nextFrame = () => new Promise<number>(resolve => requestAnimationFrame(resolve));
+
+let samplingCanvas: HTMLCanvasElement | null = null;
+
+/**
+ * Averages the sharpness score over the next `frames` rendered frames.
+ * Used by the focus sweep, where a single frame can be noisy.
+ */
+export const sampleSharpness = async (
+  video: HTMLVideoElement,
+  frames: number = 3,
+  roi?: RegionOfInterest
+): Promise<number> => {
+  samplingCanvas ??= document.createElement('canvas');
+  let total = 0;
+  let count = 0;
+  for (let i = 0; i < frames; i++) {
+    await nextFrame();
+    const image = grabFrame(video, samplingCanvas);
+    if (!image) continue;
+    total += laplacianVariance(toGrayscale(image), roi);
+    count++;
+  }
+  return count > 0 ? total / count : 0;
+};
+
+/**
+ * Histogram of the next `frames` rendered frames combined, so exposure
+ * decisions aren't thrown by a single noisy frame.
+ */
+export const sampleHistogram = async (video: HTMLVideoElement, frames: number = 3): Promise<Histogram> => {
+  samplingCanvas ??= document.createElement('canvas');
+  const histogram = emptyHistogram();
+  for (let i = 0; i < frames; i++) {
+    await nextFrame();
+    const image = grabFrame(video, samplingCanvas);
+    if (image) computeHistogram(image, histogram);
+  }
+  return histogram;
+};
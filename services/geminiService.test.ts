@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { CameraCapabilities, CameraSettings, OS, ScriptGenerationParams } from '../types';
+import { nativeGenerator, pythonGenerator } from './geminiService';
+
+// Golden files for the macOS scripts: Python + OpenCV (AVFoundation) and
+// Bash + uvc-util. Review the diff of __snapshots__/ when a change is intended.
+
+// Chrome on macOS normalizes focus to 0..1 and reports its own image ranges
+const CAPABILITIES: CameraCapabilities = {
+  focusMode: ['manual', 'continuous'],
+  focusDistance: { min: 0, max: 1, step: 0.01 },
+  zoom: { min: 1, max: 5, step: 0.1 },
+  brightness: { min: -64, max: 64, step: 1 },
+  contrast: { min: 0, max: 95, step: 1 },
+  saturation: { min: 0, max: 100, step: 1 },
+  exposureMode: ['manual', 'continuous'],
+  exposureTime: { min: 3, max: 2047, step: 1 },
+  pan: { min: -36000, max: 36000, step: 3600 },
+  tilt: { min: -36000, max: 36000, step: 3600 },
+};
+
+const SETTINGS: CameraSettings = {
+  focusMode: 'manual',
+  focusDistance: 0.5,
+  zoom: 2,
+  brightness: 10,
+  contrast: 32,
+  saturation: 64,
+  exposureMode: 'manual',
+  exposureTime: 250,
+  pan: 3600,
+  tilt: -7200,
+  regionOfInterest: { x: 0.25, y: 0.25, width: 0.5, height: 0.5 },
+};
+
+const single = (options: ScriptGenerationParams['options'] = {}): ScriptGenerationParams => ({
+  os: OS.MACOS,
+  cameraName: 'HD Pro Webcam C920 (046d:082d)',
+  settings: SETTINGS,
+  scriptType: 'python',
+  usbId: { vendorId: '046d', productId: '082d' },
+  capabilities: CAPABILITIES,
+  options,
+});
+
+const combined = {
+  os: OS.MACOS,
+  scriptType: 'python',
+  cameras: [
+    { cameraName: 'HD Pro Webcam C920 (046d:082d)', settings: SETTINGS, usbId: { vendorId: '046d', productId: '082d' }, capabilities: CAPABILITIES },
+    { cameraName: 'FaceTime HD Camera', settings: { ...SETTINGS, focusMode: 'continuous' as const, exposureMode: 'continuous' as const } },
+  ],
+};
+
+describe('macOS scripts', () => {
+  describe.each([
+    ['python', pythonGenerator, 'py'],
+    ['native', nativeGenerator, 'sh'],
+  ] as const)('%s generator', (id, generator, extension) => {
+    it('renders a single camera', async () => {
+      await expect(generator.render(single())).toMatchFileSnapshot(`__snapshots__/macos/${id}.${extension}`);
+    });
+
+    it('renders a single camera with verification', async () => {
+      await expect(generator.render(single({ verify: true }))).toMatchFileSnapshot(`__snapshots__/macos/${id}-verify.${extension}`);
+    });
+
+    it('renders several cameras', async () => {
+      await expect(generator.renderCombined({ ...combined, scriptType: id }))
+        .toMatchFileSnapshot(`__snapshots__/macos/${id}-combined.${extension}`);
+    });
+  });
+});
+
+describe('Python camera names', () => {
+  it('keeps quotes and braces in the name from breaking the script', () => {
+    const script = pythonGenerator.render({ ...single(), os: OS.LINUX, cameraName: 'Cam "Pro" {1} \\', usbId: undefined });
+    expect(script).toContain('Camera: Cam \\"Pro\\" {1} \\\\\n');
+    expect(script).toContain('camera_name = "Cam \\"Pro\\" {1} \\\\"');
+    expect(script).toContain('print(f"Applying settings for: {camera_name}")');
+  });
+});
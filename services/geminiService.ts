@@ -1,49 +1,98 @@
-import { ScriptGenerationParams, OS } from "../types";
-
-// Replaced Google GenAI with local template generation
-const generateSystemScript = async (params: ScriptGenerationParams): Promise<string> => {
-  // Simulate small delay for better UX feel
-  await new Promise(resolve => setTimeout(resolve, 600));
-
-  if (params.scriptType === 'python') {
-    return generatePythonScript(params);
-  } else {
-    return generateShellScript(params);
-  }
-};
-
-const generatePythonScript = (params: ScriptGenerationParams): string => {
-  const { settings, cameraName } = params;
-  const focusModeVal = settings.focusMode === 'continuous' ? 1 : 0;
-  
-  // Note: Different backends/cameras map properties differently.
-  // We assume standard OpenCV CAP_PROP mappings.
-
-  return `"""
-Webcam Settings Persistence Script
-Generated by FocusLock
----------------------------------
-Camera: ${cameraName}
-Target OS: ${params.os}
-
-Prerequisites:
-  pip install opencv-python
+import { OS, MultiCameraScriptParams, ScriptGeneratorPlugin } from "../types";
+import { nativeCameraName } from "./deviceIdentity";
+import {
+  SHELL_FIND_DEVICE,
+  SHELL_FIND_UVC_INDEX,
+  powershellResolveCamera,
+  pyDocText,
+  pyString,
+  pyUsbId,
+  pythonLookupFunctions,
+  pythonLookupImports,
+  shString,
+  shellResolveDevice,
+  shellResolveUvcIndex,
+} from "./deviceLookup";
+import { DirectShowProperty, POWERSHELL_DIRECTSHOW } from "./directShow";
+import { POWERSHELL_VERIFY, PY_VERIFY, SHELL_VERIFY, SHELL_VERIFY_UVC, SHELL_VERIFY_V4L2, VERIFY_OPTION } from "./scriptVerify";
+import {
+  FIRST_EXTRA_STEP,
+  LINUX_AUTOFOCUS_CTRLS,
+  NativeScriptParams,
+  describeCamera,
+  extraControls,
+  toNativeCameras,
+  toNativeParams,
+  withLeadingBlankLine,
+} from "./scriptControls";
+import { NativeTarget } from "./valueMapping";
+
+const pythonExtraControls = (params: NativeScriptParams): string =>
+  extraControls(params.settings, params.os).map((c, i) => {
+    const header = `    # ${i + FIRST_EXTRA_STEP}. ${c.label}`;
+    if (!c.opencv) return `${header}\n    # Not exposed by OpenCV (wanted: ${c.value}), set it with the vendor tool`;
+    return `${header}\n    print("Setting ${c.label} to ${c.opencv.value}")\n    cap.set(${c.opencv.prop}, ${c.opencv.value})`;
+  }).join('\n\n');
+
+const shellExtraControls = (params: NativeScriptParams): string =>
+  extraControls(params.settings, params.os).map((c, i) => {
+    const header = `# ${i + FIRST_EXTRA_STEP}. ${c.label}`;
+    if (!c.v4l2) return `${header}\n# Not available through v4l2 (wanted: ${c.value})`;
+    const { ctrls, value } = c.v4l2;
+    // Older kernels use different control names; try each in turn
+    return `${header}\n${ctrls.map(ctrl => `v4l2-ctl -d $DEVICE --set-ctrl=${ctrl}=${value}`).join(' 2>/dev/null || ')}`;
+  }).join('\n\n');
+
+const powershellExtraControls = (params: NativeScriptParams): string =>
+  extraControls(params.settings, params.os).map((c, i) => {
+    const header = `# ${i + FIRST_EXTRA_STEP}. ${c.label}`;
+    if (!c.dshow) return `${header}\n# Not available through DirectShow (wanted: ${c.value})`;
+    if ('auto' in c.dshow) return `${header}\nSet-ControlMode $camera "${c.dshow.prop}" $${c.dshow.auto}`;
+    return `${header}\nSet-Control $camera "${c.dshow.prop}" ${c.dshow.value}`;
+  }).join('\n\n');
+
+const uvcExtraControls = (params: NativeScriptParams): string =>
+  extraControls(params.settings, params.os).map((c, i, all) => {
+    const header = `# ${i + FIRST_EXTRA_STEP}. ${c.label}`;
+    if (!c.uvc) return `${header}\n# Not available through uvc-util (wanted: ${c.value})`;
+    const previous = all[i - 1]?.uvc;
+    if (previous && previous.ctrl === c.uvc.ctrl) return `${header}\n# Set together with ${all[i - 1].label} above`;
+    return `${header}\nset_ctrl ${c.uvc.ctrl} ${uvcArg(c.uvc.value)}`;
+  }).join('\n\n');
+
+// Quotes values like {pan,tilt} that the shell would otherwise expand
+const uvcArg = (value: string): string => (/^[\w.-]+$/.test(value) ? value : shString(value));
+
+const pythonUsage = (os: OS) => `Prerequisites:
+  pip install opencv-python${os === OS.WINDOWS ? ' pygrabber' : ''}
 
 Compilation (to .exe for portability):
   1. pip install pyinstaller
   2. pyinstaller --onefile --noconsole script.py
 
 Usage:
-  Run this script on startup (e.g., via Task Scheduler) to enforce camera settings.
-"""
+  Run this script on startup to enforce camera settings. The installer bundle
+  from FocusLock ("Download Installer") sets that up for you.`;
 
-import cv2
-import time
+// One camera's apply function. The combined script defines one per camera.
+const pythonCameraFunction = (params: NativeScriptParams, fnName: string): string => {
+  const { settings, cameraName, usbId } = params;
+  const focusModeVal = settings.focusMode === 'continuous' ? 1 : 0;
+  
+  // Note: Different backends/cameras map properties differently.
+  // We assume standard OpenCV CAP_PROP mappings.
 
-def set_camera_settings():
+  return `def ${fnName}():
     # Configuration
-    # You may need to adjust the camera_index if you have multiple cameras
-    camera_index = 0
+    # The camera is looked up ${usbId ? 'by USB ID' : 'by name'} on every run, so it doesn't matter
+    # which index or port it ends up on
+    camera_name = ${pyString(nativeCameraName(cameraName))}
+    usb_id = ${pyUsbId(usbId)}  # vendor:product; None = match by name
+${params.verify ? `    camera_index = find_camera_index(camera_name, usb_id)
+    if camera_index is None:
+        # Report the missing camera and carry on with the others
+        print(f"Error: camera '{camera_name}' not found. Is it plugged in?")
+        return camera_report(camera_name, [], "Camera not found")` : '    camera_index = require_camera_index(camera_name, usb_id)'}
     
     # Desired Settings
     FOCUS_AUTO = ${focusModeVal}  # 1=Auto, 0=Manual
@@ -64,12 +113,12 @@ def set_camera_settings():
     
     if not cap.isOpened():
         print("Error: Could not open camera.")
-        return
+        return${params.verify ? ' camera_report(camera_name, [], "Could not open camera")' : ''}
 
     # Allow camera to warm up
     time.sleep(0.5)
 
-    print(f"Applying settings for: ${cameraName}")
+    print(f"Applying settings for: {camera_name}")
 
     # 1. Autofocus
     # OpenCV Prop 39 = CAP_PROP_AUTOFOCUS
@@ -96,37 +145,116 @@ def set_camera_settings():
     # OpenCV Prop 11 = CAP_PROP_CONTRAST
     print(f"Setting Contrast to {CONTRAST}")
     cap.set(cv2.CAP_PROP_CONTRAST, CONTRAST)
-
-    # Verification (Optional)
+${withLeadingBlankLine(pythonExtraControls(params))}
+${params.verify ? pythonVerifyChecks(params) : `    # Verification (Optional)
     actual_focus = cap.get(cv2.CAP_PROP_FOCUS)
     print(f"Settings applied. Current Focus State: {actual_focus}")
 
+    cap.release()`}`;
+};
+
+// Reads every control back into a report instead of the single focus printout
+const pythonVerifyChecks = (params: NativeScriptParams): string => {
+  const check = (key: string, prop: string, target: string | number, exact = false) =>
+    `verify_control(cap, controls, "${key}", ${prop}, ${target}${exact ? ', exact=True' : ''})`;
+  const extras = extraControls(params.settings, params.os)
+    .filter(c => c.opencv)
+    .map(c => `    ${check(c.key, c.opencv!.prop, c.opencv!.value, c.exact)}`);
+
+  return `    # Verification: read every control back and compare with its target
+    controls = []
+    ${check('focusMode', 'cv2.CAP_PROP_AUTOFOCUS', 'FOCUS_AUTO', true)}
+    if FOCUS_AUTO == 0:
+        ${check('focusDistance', 'cv2.CAP_PROP_FOCUS', 'FOCUS_POS')}
+    ${check('zoom', 'cv2.CAP_PROP_ZOOM', 'ZOOM')}
+    ${check('brightness', 'cv2.CAP_PROP_BRIGHTNESS', 'BRIGHTNESS')}
+    ${check('contrast', 'cv2.CAP_PROP_CONTRAST', 'CONTRAST')}
+${extras.join('\n')}${extras.length ? '\n' : ''}
     cap.release()
+    return camera_report(camera_name, controls)`;
+};
+
+// Standard library imports of a Python script, one per line
+const pythonImports = (os: OS, verify: boolean): string => {
+  const lines = pythonLookupImports(os).split('\n');
+  if (verify) lines.push('import json');
+  return [...new Set(lines)].sort().join('\n');
+};
+
+// Entry point: apply each camera, then either exit or print the verify report
+const pythonMain = (verify: boolean, fnNames: string[]): string => {
+  if (!verify) return fnNames.map(fn => `    ${fn}()`).join('\n');
+  return `    # Progress goes to stderr; print_report writes the JSON report to the real stdout
+    sys.stdout = sys.stderr
+    print_report([${fnNames.map(fn => `${fn}()`).join(', ')}])`;
+};
+
+const generatePythonScript = (params: NativeScriptParams): string => {
+  const { cameraName } = params;
+
+  return `"""
+Webcam Settings Persistence Script
+Generated by FocusLock
+---------------------------------
+Camera: ${pyDocText(cameraName)}
+Target OS: ${params.os}${describeCamera(params, '')}
+
+${pythonUsage(params.os)}
+"""
+
+import cv2
+import time
+${pythonImports(params.os, params.verify)}
+
+${pythonLookupFunctions(params.os)}
+${params.verify ? `\n${PY_VERIFY}\n` : ''}
+${pythonCameraFunction(params, 'set_camera_settings')}
 
 if __name__ == "__main__":
-    set_camera_settings()
+${pythonMain(params.verify, ['set_camera_settings'])}
 `.trim();
 };
 
-const generateShellScript = (params: ScriptGenerationParams): string => {
-  const { settings, os, cameraName } = params;
+const generateCombinedPythonScript = (params: MultiCameraScriptParams, cameras: NativeScriptParams[]): string => {
+  const verify = !!params.options?.verify;
+  const fnName = (i: number) => `set_camera_${i}_settings`;
 
-  if (os === OS.LINUX) {
-    const focusAuto = settings.focusMode === 'continuous' ? 1 : 0;
-    return `#!/bin/bash
-# FocusLock - Webcam Settings Script
-# Generated for: ${cameraName}
+  return `"""
+Webcam Settings Persistence Script (${cameras.length} cameras)
+Generated by FocusLock
+---------------------------------
+Cameras:
+${cameras.map(c => `  - ${pyDocText(c.cameraName)}${describeCamera(c, '    ')}`).join('\n')}
+Target OS: ${params.os}
 
-# Device path (Identify using: v4l2-ctl --list-devices)
-DEVICE="/dev/video0"
+${pythonUsage(params.os)}
+"""
 
-# Dependency: v4l-utils (sudo apt-get install v4l-utils)
+import cv2
+import time
+${pythonImports(params.os, verify)}
+
+${pythonLookupFunctions(params.os)}
+${verify ? `\n${PY_VERIFY}\n` : ''}
+${cameras.map((camera, i) => pythonCameraFunction(camera, fnName(i))).join('\n\n')}
+
+if __name__ == "__main__":
+${pythonMain(verify, cameras.map((_, i) => fnName(i)))}
+`.trim();
+};
+
+// v4l2-ctl commands for one camera, addressed through $DEVICE
+const linuxCameraBlock = (params: NativeScriptParams, onMissing?: string): string => {
+  const { settings, cameraName, usbId } = params;
+  const focusAuto = settings.focusMode === 'continuous' ? 1 : 0;
+  return `# Device path is resolved at runtime (see find_device above)
+${shellResolveDevice(nativeCameraName(cameraName), usbId, onMissing)}
 
 echo "Applying settings to $DEVICE..."
 
 # 1. Auto Focus (0=Manual, 1=Auto)
-# Note: Control names may vary by driver (e.g., focus_auto_continuous vs focus_auto)
-v4l2-ctl -d $DEVICE --set-ctrl=focus_auto_continuous=${focusAuto} 2>/dev/null || v4l2-ctl -d $DEVICE --set-ctrl=focus_auto=${focusAuto}
+# Note: Control names vary by kernel (focus_automatic_continuous, focus_auto_continuous, focus_auto)
+${LINUX_AUTOFOCUS_CTRLS.map(ctrl => `v4l2-ctl -d $DEVICE --set-ctrl=${ctrl}=${focusAuto}`).join(' 2>/dev/null || ')}
 
 # 2. Focus Distance (Only if Manual)
 ${focusAuto === 0 ? `v4l2-ctl -d $DEVICE --set-ctrl=focus_absolute=${settings.focusDistance}` : '# Manual focus skipped (Auto is On)'}
@@ -139,47 +267,320 @@ v4l2-ctl -d $DEVICE --set-ctrl=brightness=${settings.brightness}
 
 # 5. Contrast
 v4l2-ctl -d $DEVICE --set-ctrl=contrast=${settings.contrast}
+${withLeadingBlankLine(shellExtraControls(params))}${params.verify ? `\n${linuxVerifyChecks(params)}` : ''}`.trimEnd();
+};
+
+// Shell check lines end with finish_camera, which adds the camera to the report
+const shellVerifySection = (checks: string[]): string =>
+  `# Verification: read every control back and compare with its target
+${checks.join('\n')}
+finish_camera`;
+
+const linuxVerifyChecks = (params: NativeScriptParams): string => {
+  const { settings } = params;
+  const check = (key: string, target: number, exact: boolean, ctrls: string[]) =>
+    `verify_ctrl ${key} ${target} ${exact ? 1 : 0} ${ctrls.join(' ')}`;
+  const focusAuto = settings.focusMode === 'continuous';
+  return shellVerifySection([
+    check('focusMode', focusAuto ? 1 : 0, true, LINUX_AUTOFOCUS_CTRLS),
+    ...(focusAuto ? [] : [check('focusDistance', settings.focusDistance, false, ['focus_absolute'])]),
+    check('zoom', settings.zoom, false, ['zoom_absolute']),
+    check('brightness', settings.brightness, false, ['brightness']),
+    check('contrast', settings.contrast, false, ['contrast']),
+    ...extraControls(settings, params.os)
+      .filter(c => c.v4l2)
+      .map(c => check(c.key, c.v4l2!.value, c.exact, c.v4l2!.ctrls)),
+  ]);
+};
+
+// uvc-util calls for one camera, addressed through $INDEX
+const macCameraBlock = (params: NativeScriptParams, onMissing?: string): string => {
+  const { settings, cameraName, usbId } = params;
+  const focusAuto = settings.focusMode === 'continuous';
+  return `# Camera is looked up by ${usbId ? 'USB ID' : 'name'} at runtime (see find_uvc_index above)
+${shellResolveUvcIndex(nativeCameraName(cameraName), usbId, onMissing)}
+
+echo "Applying settings to $CAMERA_NAME (uvc-util device $INDEX)..."
 
-echo "Settings applied successfully."
+# 1. Auto Focus
+set_ctrl auto-focus ${focusAuto}
+
+# 2. Focus Distance (Only if Manual)
+${focusAuto ? '# Manual focus skipped (Auto is On)' : `set_ctrl focus-abs ${settings.focusDistance}`}
+
+# 3. Zoom
+set_ctrl zoom-abs ${settings.zoom}
+
+# 4. Brightness
+set_ctrl brightness ${settings.brightness}
+
+# 5. Contrast
+set_ctrl contrast ${settings.contrast}
+${withLeadingBlankLine(uvcExtraControls(params))}${params.verify ? `\n${macVerifyChecks(params)}` : ''}`.trimEnd();
+};
+
+const macVerifyChecks = (params: NativeScriptParams): string => {
+  const { settings } = params;
+  const check = (key: string, target: string | number, exact: boolean, ctrl: string) =>
+    `verify_ctrl ${key} ${uvcArg(String(target))} ${exact ? 1 : 0} ${ctrl}`;
+  const focusAuto = settings.focusMode === 'continuous';
+  return shellVerifySection([
+    check('focusMode', String(focusAuto), true, 'auto-focus'),
+    ...(focusAuto ? [] : [check('focusDistance', settings.focusDistance, false, 'focus-abs')]),
+    check('zoom', settings.zoom, false, 'zoom-abs'),
+    check('brightness', settings.brightness, false, 'brightness'),
+    check('contrast', settings.contrast, false, 'contrast'),
+    // Pan and tilt share pan-tilt-abs, so it's checked once
+    ...extraControls(settings, params.os)
+      .filter((c, i, all) => c.uvc && all[i - 1]?.uvc?.ctrl !== c.uvc.ctrl)
+      .map(c => check(c.key, c.uvc!.value, c.exact, c.uvc!.ctrl)),
+  ]);
+};
+
+const MAC_REQUIREMENTS = `# Requirements: uvc-util (https://github.com/jtfrey/uvc-util), built with the Xcode command line tools:
+#   git clone https://github.com/jtfrey/uvc-util.git && cd uvc-util/src
+#   gcc -o uvc-util -framework IOKit -framework Foundation uvc-util.m UVCController.m UVCType.m UVCValue.m
+#   sudo install -m755 uvc-util /usr/local/bin/
+
+command -v uvc-util >/dev/null || { echo "Error: uvc-util not found in PATH" >&2; exit 1; }`;
+
+const UVC_SET_CTRL = `# Sets one control on $INDEX; failures are reported and counted, not fatal
+FAILED=0
+set_ctrl() {
+  if uvc-util -I "$INDEX" -s "$1=$2" >/dev/null 2>&1; then
+    echo "  $1 = $2"
+  else
+    echo "  $1 = $2 FAILED (control not supported or value out of range)" >&2
+    FAILED=$((FAILED + 1))
+  fi
+}`;
+
+const MAC_SUMMARY = `if [ "$FAILED" -gt 0 ]; then
+  echo "$FAILED setting(s) could not be applied." >&2
+  exit 1
+fi
+echo "Settings applied successfully."`;
+
+// DirectShow calls for one camera, addressed through $camera
+const windowsCameraBlock = (params: NativeScriptParams): string => {
+  const { settings, cameraName, usbId } = params;
+  const focusAuto = settings.focusMode === 'continuous';
+  return `# Camera is looked up by ${usbId ? 'USB ID' : 'friendly name'} at runtime
+${powershellResolveCamera(nativeCameraName(cameraName), usbId, params.verify ? 'Add-CameraReport $cameraName @() "Camera not found"\n    Write-Report' : undefined)}
+
+Write-Host "Applying settings to $cameraName..."
+
+# 1. Auto Focus
+Set-ControlMode $camera "Focus" $${focusAuto}
+
+# 2. Focus Distance (Only if Manual)
+${focusAuto ? '# Manual focus skipped (Auto is On)' : `Set-Control $camera "Focus" ${settings.focusDistance}`}
+
+# 3. Zoom
+Set-Control $camera "Zoom" ${settings.zoom}
+
+# 4. Brightness
+Set-Control $camera "Brightness" ${settings.brightness}
+
+# 5. Contrast
+Set-Control $camera "Contrast" ${settings.contrast}
+${withLeadingBlankLine(powershellExtraControls(params))}${params.verify ? `\n${windowsVerifyChecks(params)}\n` : ''}
+[void][System.Runtime.InteropServices.Marshal]::ReleaseComObject($camera)`;
+};
+
+const windowsVerifyChecks = (params: NativeScriptParams): string => {
+  const { settings } = params;
+  const check = (key: string, prop: DirectShowProperty, target: number, mode: boolean) =>
+    `Test-Control $camera $controls "${key}" "${prop}" ${target} $${mode}`;
+  const focusAuto = settings.focusMode === 'continuous';
+  const extras = extraControls(settings, params.os)
+    .filter(c => c.dshow)
+    .map(c => {
+      const dshow = c.dshow!;
+      return 'auto' in dshow ? check(c.key, dshow.prop, dshow.auto ? 1 : 0, true) : check(c.key, dshow.prop, dshow.value, false);
+    });
+  return `# Verification: read every control back and compare with its target
+$controls = [System.Collections.ArrayList]@()
+${[
+    check('focusMode', 'Focus', focusAuto ? 1 : 0, true),
+    ...(focusAuto ? [] : [check('focusDistance', 'Focus', settings.focusDistance, false)]),
+    check('zoom', 'Zoom', settings.zoom, false),
+    check('brightness', 'Brightness', settings.brightness, false),
+    check('contrast', 'Contrast', settings.contrast, false),
+    ...extras,
+  ].join('\n')}
+Add-CameraReport $cameraName $controls`;
+};
+
+const WINDOWS_REQUIREMENTS = `# Requirements: none. Uses DirectShow through Windows PowerShell 5.1 or PowerShell 7.
+# Run with: powershell -ExecutionPolicy Bypass -File focuslock-apply.ps1`;
+
+// Verify-mode helper definitions, each followed by a blank line
+const verifyHelpers = (verify: boolean, ...sections: string[]): string =>
+  verify ? `\n${sections.join('\n\n')}\n` : '';
+
+// A missing camera still gets a report entry before the script gives up
+const SHELL_VERIFY_MISSING = 'finish_camera "Camera not found"\n  print_report\n  exit 1';
+
+// Combined shell scripts run each camera in a function, so a missing camera
+// is recorded and skipped rather than stopping the others
+const shellCameraFunction = (name: string, block: string): string =>
+  `${name}() {\n${block.split('\n').map(line => (line ? `  ${line}` : line)).join('\n')}\n}\n${name}`;
+
+const shellCombinedMissing = (verify: boolean): string =>
+  verify ? 'finish_camera "Camera not found"\n  return' : 'MISSING=$((MISSING + 1))\n  return';
+
+const SHELL_MISSING_SUMMARY = `if [ "$MISSING" -gt 0 ]; then
+  echo "$MISSING camera(s) not found; the others were set." >&2
+  exit 1
+fi`;
+
+const generateShellScript = (params: NativeScriptParams): string => {
+  const { os, cameraName } = params;
+
+  if (os === OS.LINUX) {
+    return `#!/bin/bash
+# FocusLock - Webcam Settings Script
+# Generated for: ${cameraName}${describeCamera(params, '# ')}
+
+# Dependency: v4l-utils (sudo apt-get install v4l-utils)
+
+${SHELL_FIND_DEVICE}
+${verifyHelpers(params.verify, SHELL_VERIFY, SHELL_VERIFY_V4L2)}
+${linuxCameraBlock(params, params.verify ? SHELL_VERIFY_MISSING : undefined)}
+
+${params.verify ? 'print_report || exit 1' : 'echo "Settings applied successfully."'}
 `.trim();
   } 
   
   if (os === OS.MACOS) {
       return `#!/bin/bash
 # MacOS Webcam Settings
-# Generated for: ${cameraName}
+# Generated for: ${cameraName}${describeCamera(params, '# ')}
 
-# Requirements: 'uvc-control' (Install via: brew install uvc-control)
-# Note: macOS restricts direct hardware access. This script is a template.
+${MAC_REQUIREMENTS}
 
-echo "Applying settings..."
+${SHELL_FIND_UVC_INDEX}
 
-# Syntax example (may require adjustment based on camera capabilities)
-# uvc-control --set focus_auto=${settings.focusMode === 'continuous' ? 1 : 0}
-# uvc-control --set focus_absolute=${settings.focusDistance}
-# uvc-control --set zoom_absolute=${settings.zoom}
+${UVC_SET_CTRL}
+${verifyHelpers(params.verify, SHELL_VERIFY, SHELL_VERIFY_UVC)}
+${macCameraBlock(params, params.verify ? SHELL_VERIFY_MISSING : undefined)}
 
-echo "Done."
+${params.verify ? 'print_report || exit 1' : MAC_SUMMARY}
 `.trim();
   }
 
-  // Windows PowerShell Fallback
   return `# PowerShell Webcam Settings
-# Generated for: ${cameraName}
+# Generated for: ${cameraName}${describeCamera(params, '# ')}
+
+${WINDOWS_REQUIREMENTS}
+
+${POWERSHELL_DIRECTSHOW}
+${verifyHelpers(params.verify, POWERSHELL_VERIFY)}
+${windowsCameraBlock(params)}
+
+${params.verify ? 'Write-Report' : 'Write-Host "Settings applied successfully."'}
+`.trim();
+};
+
+const generateCombinedShellScript = (params: MultiCameraScriptParams, cameras: NativeScriptParams[]): string => {
+  const verify = !!params.options?.verify;
+  const section = (camera: NativeScriptParams, i: number) =>
+    `# ---- Camera ${i + 1}/${cameras.length}: ${camera.cameraName}${describeCamera(camera, '# ')}`;
+  const shellCameras = (block: (camera: NativeScriptParams, onMissing: string) => string) =>
+    `${verify ? '' : 'MISSING=0  # cameras not found\n\n'}${cameras.map((camera, i) =>
+      `${section(camera, i)}\n${shellCameraFunction(`apply_camera_${i + 1}`, block(camera, shellCombinedMissing(verify)))}`).join('\n\n')}`;
+
+  if (params.os === OS.LINUX) {
+    return `#!/bin/bash
+# FocusLock - Webcam Settings Script (${cameras.length} cameras)
+
+# Dependency: v4l-utils (sudo apt-get install v4l-utils)
+
+${SHELL_FIND_DEVICE}
+${verifyHelpers(verify, SHELL_VERIFY, SHELL_VERIFY_V4L2)}
+${shellCameras(linuxCameraBlock)}
 
-# NOTE: Windows does not provide built-in command-line tools for webcam properties.
-#
-# RECOMMENDATION: 
-# Use the "Python" option in the Script Generator. 
-# It produces a script that can be compiled to a .exe and runs reliably on Windows.
+${verify ? 'print_report || exit 1' : `${SHELL_MISSING_SUMMARY}\necho "Settings applied successfully."`}
+`.trim();
+  }
+
+  if (params.os === OS.MACOS) {
+    return `#!/bin/bash
+# MacOS Webcam Settings (${cameras.length} cameras)
+
+${MAC_REQUIREMENTS}
+
+${SHELL_FIND_UVC_INDEX}
+
+${UVC_SET_CTRL}
+${verifyHelpers(verify, SHELL_VERIFY, SHELL_VERIFY_UVC)}
+${shellCameras(macCameraBlock)}
+
+${verify ? 'print_report || exit 1' : `${SHELL_MISSING_SUMMARY}\n${MAC_SUMMARY}`}
+`.trim();
+  }
+
+  return `# PowerShell Webcam Settings (${cameras.length} cameras)
+
+${WINDOWS_REQUIREMENTS}
 
-Write-Host "For reliable persistence on Windows, please select 'Python (Standalone)'."
-Write-Host "That will generate a script using OpenCV which works natively on Windows."
-Write-Host "You can then compile it to an EXE and place it in your Startup folder."
+${POWERSHELL_DIRECTSHOW}
+${verifyHelpers(verify, POWERSHELL_VERIFY)}
+${cameras.map((camera, i) => `${section(camera, i)}\n${windowsCameraBlock(camera)}`).join('\n\n')}
 
-# If you have ffmpeg installed, you can try:
-# ffmpeg -f dshow -i video="${cameraName}" -focus_mode ${settings.focusMode === 'continuous' ? 1 : 0} -t 0.1 -f null -
+${verify ? 'Write-Report' : 'Write-Host "Settings applied successfully."'}
 `.trim();
 };
 
-export { generateSystemScript };
\ No newline at end of file
+// Which native units the OpenCV backend of each OS takes
+const pythonTarget = (os: OS): NativeTarget => {
+  if (os === OS.WINDOWS) return 'dshow';
+  return os === OS.MACOS ? 'avfoundation' : 'v4l2';
+};
+
+// OpenCV script; runs wherever Python does
+export const pythonGenerator: ScriptGeneratorPlugin = {
+  id: 'python',
+  name: 'Python (Recommended)',
+  description: 'Generates a standalone script using OpenCV. Can be compiled to .exe (Windows) or binary (Linux/Mac) and runs reliably on startup.',
+  supportedOS: [OS.WINDOWS, OS.LINUX, OS.MACOS],
+  extension: { [OS.WINDOWS]: '.py', [OS.LINUX]: '.py', [OS.MACOS]: '.py' },
+  launcher: {
+    // pythonw keeps a console window from flashing up at every logon
+    [OS.WINDOWS]: 'pythonw.exe',
+    [OS.LINUX]: '/usr/bin/env python3',
+    [OS.MACOS]: '/usr/bin/env python3',
+  },
+  requirements: {
+    [OS.WINDOWS]: 'Python 3 and opencv-python plus pygrabber (see the script header).',
+    [OS.LINUX]: 'Python 3 and opencv-python (see the script header).',
+    [OS.MACOS]: 'Python 3 and opencv-python (see the script header).',
+  },
+  options: [VERIFY_OPTION],
+  render: params => generatePythonScript(toNativeParams(params, pythonTarget(params.os))),
+  renderCombined: params => generateCombinedPythonScript(params, toNativeCameras(params, pythonTarget(params.os))),
+};
+
+// Bash + v4l2-ctl, PowerShell + DirectShow, or Bash + uvc-util
+export const nativeGenerator: ScriptGeneratorPlugin = {
+  id: 'native',
+  name: 'Shell Script',
+  description: 'Generates a native script with no Python needed: Bash + v4l2-ctl on Linux, PowerShell + DirectShow on Windows, Bash + uvc-util on macOS.',
+  supportedOS: [OS.WINDOWS, OS.LINUX, OS.MACOS],
+  extension: { [OS.WINDOWS]: '.ps1', [OS.LINUX]: '.sh', [OS.MACOS]: '.sh' },
+  launcher: {
+    [OS.WINDOWS]: 'powershell.exe -NoProfile -ExecutionPolicy Bypass -WindowStyle Hidden -File',
+    [OS.LINUX]: '/bin/bash',
+    [OS.MACOS]: '/bin/bash',
+  },
+  requirements: {
+    [OS.LINUX]: 'v4l-utils (sudo apt-get install v4l-utils).',
+    [OS.MACOS]: 'uvc-util in /usr/local/bin (see the script header).',
+    [OS.WINDOWS]: 'none, uses DirectShow through PowerShell.',
+  },
+  options: [VERIFY_OPTION],
+  // Linux and uvc-util on macOS take raw UVC values
+  render: params => generateShellScript(toNativeParams(params, params.os === OS.WINDOWS ? 'dshow' : 'v4l2')),
+  renderCombined: params => generateCombinedShellScript(params, toNativeCameras(params, params.os === OS.WINDOWS ? 'dshow' : 'v4l2')),
+};
\ No newline at end of file
@@ -0,0 +1,368 @@
+import { CameraScriptTarget, OS, ScriptType, UsbId } from "../types";
+import { nativeCameraName, parseUsbId } from "./deviceIdentity";
+import { getGenerator, scriptFileName } from "./scriptGenerators";
+import { dispatcherFileName, dispatcherLauncher, slotFileName } from "./scheduleScripts";
+import { ArchiveFile } from "./zipArchive";
+
+// Installer artifacts that run a generated script at login and whenever the
+// camera is plugged back in, so users don't have to wire up startup by hand.
+
+export interface InstallerParams {
+  os: OS;
+  scriptType: ScriptType;
+  // The generated persistence script (single or combined)
+  script: string;
+  cameras: Pick<CameraScriptTarget, 'cameraName' | 'usbId'>[];
+  // Time-of-day schedule: `script` is then the dispatcher, and each window's
+  // own settings script is listed here
+  schedule?: { start: string; script: string }[];
+}
+
+const SERVICE_NAME = 'focuslock';
+const LAUNCH_AGENT_LABEL = 'com.focuslock.apply';
+const TASK_NAME = 'FocusLock Camera Settings';
+
+// Command that runs the script, from the generator plugin
+const launcher = (params: InstallerParams): string => {
+  const command = getGenerator(params.scriptType).launcher?.[params.os];
+  if (!command) throw new Error(`${getGenerator(params.scriptType).name} output can't be installed to run at startup.`);
+  return command;
+};
+
+// What the installed triggers run: the script itself, or the schedule dispatcher
+const entryPoint = (params: InstallerParams): { file: string; command: string } =>
+  params.schedule
+    ? { file: dispatcherFileName(params.os), command: dispatcherLauncher(params.os) }
+    : { file: scriptFileName(params.os, params.scriptType), command: launcher(params) };
+
+// Every script the installer copies into place
+const installedScripts = (params: InstallerParams): string[] => [
+  entryPoint(params).file,
+  ...(params.schedule ?? []).map(slot => slotFileName(params.os, params.scriptType, slot.start)),
+];
+
+// Installers can only be built for generators that declare a launcher for the OS
+export const canInstall = (os: OS, scriptType: ScriptType): boolean =>
+  !!getGenerator(scriptType).launcher?.[os];
+
+// Installers match on the USB ID where we have one, even if the script itself matches by name
+const cameraUsbId = (camera: InstallerParams['cameras'][number]): UsbId | undefined =>
+  camera.usbId ?? parseUsbId(camera.cameraName) ?? undefined;
+
+const xmlEscape = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// ---- Linux: systemd user service + udev rule ----
+
+const systemdUnit = (params: InstallerParams): string => {
+  const { file, command } = entryPoint(params);
+  const exec = `${command} %h/.local/share/focuslock/${file}`;
+  return `[Unit]
+Description=FocusLock - apply saved webcam settings
+
+[Service]
+Type=oneshot
+# Give the driver a moment after plug-in before touching controls
+ExecStartPre=/bin/sleep 2
+ExecStart=${exec}
+
+[Install]
+WantedBy=default.target
+`;
+};
+
+// Starts the service at each window start so the schedule takes effect while logged in
+const systemdTimer = (params: InstallerParams): string => `[Unit]
+Description=FocusLock - apply scheduled webcam settings
+
+[Timer]
+${(params.schedule ?? []).map(slot => `OnCalendar=*-*-* ${slot.start}:00`).join('\n')}
+Unit=${SERVICE_NAME}.service
+
+[Install]
+WantedBy=timers.target
+`;
+
+const udevRule = (params: InstallerParams): string => {
+  const rules = params.cameras.map(camera => {
+    const usbId = cameraUsbId(camera);
+    const match = usbId
+      ? `ATTRS{idVendor}=="${usbId.vendorId}", ATTRS{idProduct}=="${usbId.productId}"`
+      : `ATTR{name}=="*${nativeCameraName(camera.cameraName).replace(/["*?[\]]/g, '')}*"`;
+    return `# ${camera.cameraName}
+ACTION=="add", SUBSYSTEM=="video4linux", ATTR{index}=="0", ${match}, TAG+="systemd", ENV{SYSTEMD_USER_WANTS}+="${SERVICE_NAME}.service"`;
+  });
+  return `# FocusLock: re-apply webcam settings whenever the camera is plugged in.
+# Starts the ${SERVICE_NAME}.service user unit of every logged-in user.
+${rules.join('\n')}
+`;
+};
+
+const linuxInstall = (params: InstallerParams): string => {
+  const scripts = installedScripts(params).map(script => `install -Dm755 ${script} ~/.local/share/focuslock/${script}`);
+  const units = params.schedule ? [`${SERVICE_NAME}.service`, `${SERVICE_NAME}.timer`] : [`${SERVICE_NAME}.service`];
+  return `#!/bin/bash
+# Installs the FocusLock startup service for the current user
+set -e
+cd "$(dirname "$0")"
+
+${scripts.join('\n')}
+${units.map(unit => `install -Dm644 ${unit} ~/.config/systemd/user/${unit}`).join('\n')}
+systemctl --user daemon-reload
+${units.map(unit => `systemctl --user enable --now ${unit}`).join('\n')}
+
+# The udev rule is system-wide and needs root
+sudo install -Dm644 99-${SERVICE_NAME}.rules /etc/udev/rules.d/99-${SERVICE_NAME}.rules
+sudo udevadm control --reload-rules
+
+echo "FocusLock installed. Settings are applied at login and when the camera is plugged in."
+`;
+};
+
+const linuxUninstall = (params: InstallerParams): string => `#!/bin/bash
+# Removes the FocusLock startup service
+${params.schedule ? `systemctl --user disable --now ${SERVICE_NAME}.timer 2>/dev/null
+rm -f ~/.config/systemd/user/${SERVICE_NAME}.timer
+` : ''}systemctl --user disable --now ${SERVICE_NAME}.service 2>/dev/null
+rm -f ~/.config/systemd/user/${SERVICE_NAME}.service
+${installedScripts(params).map(script => `rm -f ~/.local/share/focuslock/${script}`).join('\n')}
+systemctl --user daemon-reload
+
+sudo rm -f /etc/udev/rules.d/99-${SERVICE_NAME}.rules
+sudo udevadm control --reload-rules
+
+echo "FocusLock uninstalled."
+`;
+
+// ---- macOS: LaunchAgent ----
+
+const launchAgent = (params: InstallerParams): string => {
+  const { file, command: interpreter } = entryPoint(params);
+  const script = `$HOME/Library/Application Support/FocusLock/${file}`;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>Label</key>
+  <string>${LAUNCH_AGENT_LABEL}</string>
+  <key>ProgramArguments</key>
+  <array>
+    <string>/bin/sh</string>
+    <string>-c</string>
+    <string>${xmlEscape(`${interpreter} "${script}"`)}</string>
+  </array>
+  <!-- Apply at login, then every minute so a re-plugged camera is picked up -->
+  <key>RunAtLoad</key>
+  <true/>
+  <key>StartInterval</key>
+  <integer>60</integer>
+  <key>StandardErrorPath</key>
+  <string>/tmp/focuslock.log</string>
+</dict>
+</plist>
+`;
+};
+
+const macInstall = (params: InstallerParams): string => {
+  const scripts = installedScripts(params).map(script => `install -m755 ${script} ~/"Library/Application Support/FocusLock/${script}"`);
+  return `#!/bin/bash
+# Installs the FocusLock LaunchAgent for the current user
+set -e
+cd "$(dirname "$0")"
+
+mkdir -p ~/"Library/Application Support/FocusLock" ~/Library/LaunchAgents
+${scripts.join('\n')}
+install -m644 ${LAUNCH_AGENT_LABEL}.plist ~/Library/LaunchAgents/${LAUNCH_AGENT_LABEL}.plist
+launchctl bootout gui/$(id -u)/${LAUNCH_AGENT_LABEL} 2>/dev/null || true
+launchctl bootstrap gui/$(id -u) ~/Library/LaunchAgents/${LAUNCH_AGENT_LABEL}.plist
+
+echo "FocusLock installed. Settings are applied at login and re-checked every minute."
+`;
+};
+
+const macUninstall = (params: InstallerParams): string => `#!/bin/bash
+# Removes the FocusLock LaunchAgent
+launchctl bootout gui/$(id -u)/${LAUNCH_AGENT_LABEL} 2>/dev/null
+rm -f ~/Library/LaunchAgents/${LAUNCH_AGENT_LABEL}.plist
+${installedScripts(params).map(script => `rm -f ~/"Library/Application Support/FocusLock/${script}"`).join('\n')}
+
+echo "FocusLock uninstalled."
+`;
+
+// ---- Windows: Task Scheduler ----
+
+const windowsAction = (params: InstallerParams): { command: string; args: string } => {
+  const entry = entryPoint(params);
+  const script = `%LOCALAPPDATA%\\FocusLock\\${entry.file}`;
+  const [command, ...args] = entry.command.split(' ');
+  return { command, args: [...args, `"${script}"`].join(' ') };
+};
+
+const taskXml = (params: InstallerParams): string => {
+  const { command, args } = windowsAction(params);
+  // Kernel-PnP event 400 is logged when a device is configured (plugged in).
+  // Event XPath can't match on the device ID, so any arrival re-runs the script.
+  const pnpQuery = `<QueryList><Query Id="0" Path="Microsoft-Windows-Kernel-PnP/Configuration"><Select Path="Microsoft-Windows-Kernel-PnP/Configuration">*[System[EventID=400]]</Select></Query></QueryList>`;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Task version="1.2" xmlns="http://schemas.microsoft.com/windows/2004/02/mit/task">
+  <RegistrationInfo>
+    <Description>Applies saved FocusLock webcam settings at logon and when a camera is plugged in.</Description>
+  </RegistrationInfo>
+  <Triggers>
+    <LogonTrigger>
+      <Enabled>true</Enabled>
+      <Delay>PT10S</Delay>
+    </LogonTrigger>
+    <EventTrigger>
+      <Enabled>true</Enabled>
+      <Subscription>${xmlEscape(pnpQuery)}</Subscription>
+      <Delay>PT5S</Delay>
+    </EventTrigger>${(params.schedule ?? []).map(slot => `
+    <CalendarTrigger>
+      <StartBoundary>2024-01-01T${slot.start}:00</StartBoundary>
+      <Enabled>true</Enabled>
+      <ScheduleByDay>
+        <DaysInterval>1</DaysInterval>
+      </ScheduleByDay>
+    </CalendarTrigger>`).join('')}
+  </Triggers>
+  <Principals>
+    <Principal id="Author">
+      <LogonType>InteractiveToken</LogonType>
+      <RunLevel>LeastPrivilege</RunLevel>
+    </Principal>
+  </Principals>
+  <Settings>
+    <MultipleInstancesPolicy>IgnoreNew</MultipleInstancesPolicy>
+    <DisallowStartIfOnBatteries>false</DisallowStartIfOnBatteries>
+    <StopIfGoingOnBatteries>false</StopIfGoingOnBatteries>
+    <ExecutionTimeLimit>PT5M</ExecutionTimeLimit>
+    <Enabled>true</Enabled>
+  </Settings>
+  <Actions Context="Author">
+    <Exec>
+      <Command>${xmlEscape(command)}</Command>
+      <Arguments>${xmlEscape(args)}</Arguments>
+    </Exec>
+  </Actions>
+</Task>
+`;
+};
+
+const windowsInstall = (params: InstallerParams): string => {
+  const scripts = installedScripts(params).map(script => `Copy-Item "${script}" (Join-Path $target "${script}") -Force`);
+  return `# Installs the FocusLock scheduled task for the current user
+$ErrorActionPreference = "Stop"
+Set-Location $PSScriptRoot
+
+$target = Join-Path $env:LOCALAPPDATA "FocusLock"
+New-Item -ItemType Directory -Force -Path $target | Out-Null
+${scripts.join('\n')}
+
+Register-ScheduledTask -TaskName "${TASK_NAME}" -Xml (Get-Content "focuslock-task.xml" -Raw) -Force | Out-Null
+
+Write-Host "FocusLock installed. Settings are applied at logon and when a camera is plugged in."
+`;
+};
+
+const windowsUninstall = (params: InstallerParams): string => `# Removes the FocusLock scheduled task
+Unregister-ScheduledTask -TaskName "${TASK_NAME}" -Confirm:$false -ErrorAction SilentlyContinue
+${installedScripts(params).map(script => `Remove-Item (Join-Path $env:LOCALAPPDATA "FocusLock\\${script}") -ErrorAction SilentlyContinue`).join('\n')}
+
+Write-Host "FocusLock uninstalled."
+`;
+
+// ---- README ----
+
+const readme = (params: InstallerParams, files: string[]): string => {
+  const steps: Record<OS, string> = {
+    [OS.LINUX]: `Install:    ./install.sh          (asks for sudo to add the udev rule)
+Uninstall:  ./uninstall.sh
+
+The systemd user service runs the script at login. The udev rule starts the
+same service whenever the camera is plugged in.
+Check the last run with: journalctl --user -u ${SERVICE_NAME}.service`,
+    [OS.MACOS]: `Install:    ./install.sh
+Uninstall:  ./uninstall.sh
+
+The LaunchAgent runs the script at login and then every minute, so settings
+come back shortly after the camera is re-plugged. Errors go to /tmp/focuslock.log.`,
+    [OS.WINDOWS]: `Install:    powershell -ExecutionPolicy Bypass -File install.ps1
+Uninstall:  powershell -ExecutionPolicy Bypass -File uninstall.ps1
+
+The scheduled task "${TASK_NAME}" runs the script at logon and whenever a
+device is plugged in. See Task Scheduler > Task Scheduler Library for run history.`,
+  };
+  const requirements = getGenerator(params.scriptType).requirements[params.os];
+  const prerequisites = `Prerequisites: ${requirements ?? 'see the header of the script.'}`;
+  const scheduleNote: Record<OS, string> = {
+    [OS.LINUX]: `The ${SERVICE_NAME}.timer unit also starts the service at each window start.`,
+    [OS.MACOS]: 'The every-minute run switches windows within a minute of each start time.',
+    [OS.WINDOWS]: 'The task also has a daily trigger at each window start.',
+  };
+  const schedule = params.schedule
+    ? `\nSchedule: ${dispatcherFileName(params.os)} runs the script of the current time window.
+${params.schedule.map(slot => `  ${slot.start}  ${slotFileName(params.os, params.scriptType, slot.start)}`).join('\n')}
+${scheduleNote[params.os]}
+`
+    : '';
+
+  return `FocusLock startup installer (${params.os})
+=====================================
+
+Cameras:
+${params.cameras.map(c => `  - ${c.cameraName}`).join('\n')}
+
+${prerequisites}
+${schedule}
+${steps[params.os]}
+
+Files:
+${files.map(f => `  ${f}`).join('\n')}
+`;
+};
+
+/**
+ * Everything needed to run `params.script` at login and on camera plug-in,
+ * ready to be zipped. Paths are inside a single top-level folder.
+ */
+export const generateInstallerFiles = (params: InstallerParams): ArchiveFile[] => {
+  const executable = params.os !== OS.WINDOWS;
+  const scripts: ArchiveFile[] = [
+    { path: entryPoint(params).file, content: `${params.script}\n`, executable },
+    ...(params.schedule ?? []).map(slot => ({
+      path: slotFileName(params.os, params.scriptType, slot.start),
+      content: `${slot.script}\n`,
+      executable,
+    })),
+  ];
+
+  let files: ArchiveFile[];
+  if (params.os === OS.LINUX) {
+    files = [
+      ...scripts,
+      { path: `${SERVICE_NAME}.service`, content: systemdUnit(params) },
+      ...(params.schedule ? [{ path: `${SERVICE_NAME}.timer`, content: systemdTimer(params) }] : []),
+      { path: `99-${SERVICE_NAME}.rules`, content: udevRule(params) },
+      { path: 'install.sh', content: linuxInstall(params), executable: true },
+      { path: 'uninstall.sh', content: linuxUninstall(params), executable: true },
+    ];
+  } else if (params.os === OS.MACOS) {
+    files = [
+      ...scripts,
+      { path: `${LAUNCH_AGENT_LABEL}.plist`, content: launchAgent(params) },
+      { path: 'install.sh', content: macInstall(params), executable: true },
+      { path: 'uninstall.sh', content: macUninstall(params), executable: true },
+    ];
+  } else {
+    files = [
+      ...scripts,
+      { path: 'focuslock-task.xml', content: taskXml(params) },
+      { path: 'install.ps1', content: windowsInstall(params) },
+      { path: 'uninstall.ps1', content: windowsUninstall(params) },
+    ];
+  }
+
+  files.push({ path: 'README.txt', content: readme(params, files.map(f => f.path)) });
+  return files.map(file => ({ ...file, path: `focuslock-installer/${file.path}` }));
+};
@@ -0,0 +1,130 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { OS } from '../types';
+import { DEFAULT_SETTINGS } from './cameraControls';
+import { parseNativeDump } from './nativeImport';
+import { v4l2PresetGenerator } from './v4l2PresetGenerator';
+
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8');
+
+describe('parseNativeDump', () => {
+  describe('v4l2-ctl --list-ctrls (Logitech C920, current kernel names)', () => {
+    const dump = parseNativeDump(fixture('v4l2-list-ctrls-c920.txt'));
+
+    it('reads values and native ranges', () => {
+      expect(dump.source).toBe('v4l2-ctl');
+      expect(dump.cameraName).toBeUndefined();
+      expect(dump.settings).toEqual({
+        focusMode: 'manual',
+        focusDistance: 45,
+        zoom: 130,
+        brightness: 140,
+        contrast: 128,
+        saturation: 110,
+        sharpness: 128,
+        exposureMode: 'manual',
+        exposureTime: 312,
+        whiteBalanceMode: 'manual',
+        colorTemperature: 4500,
+        pan: 3600,
+        tilt: -7200,
+      });
+      expect(dump.capabilities.focusDistance).toEqual({ min: 0, max: 250, step: 5 });
+      expect(dump.capabilities.pan).toEqual({ min: -36000, max: 36000, step: 3600 });
+      expect(dump.capabilities.focusMode).toEqual(['manual', 'continuous']);
+    });
+
+    it('lists controls without a FocusLock equivalent', () => {
+      expect(dump.unmapped).toEqual(['gain', 'power_line_frequency', 'backlight_compensation', 'exposure_dynamic_framerate']);
+    });
+  });
+
+  describe('v4l2-ctl --all (LifeCam Studio, pre-5.x kernel names)', () => {
+    const dump = parseNativeDump(fixture('v4l2-all-lifecam.txt'));
+
+    it('takes the camera name from the driver info', () => {
+      expect(dump.cameraName).toBe('Microsoft® LifeCam Studio(TM)');
+    });
+
+    it('maps the old control names', () => {
+      expect(dump.settings).toMatchObject({
+        focusMode: 'manual',
+        focusDistance: 12,
+        zoom: 0,
+        exposureMode: 'continuous',
+        exposureTime: 156,
+        whiteBalanceMode: 'continuous',
+        colorTemperature: 4500,
+      });
+      expect(dump.capabilities.brightness).toEqual({ min: 30, max: 255, step: 1 });
+      expect(dump.capabilities.exposureTime).toEqual({ min: 5, max: 20000, step: 1 });
+    });
+
+    it('ignores format and streaming lines', () => {
+      expect(dump.unmapped).toEqual(['power_line_frequency', 'backlight_compensation']);
+    });
+  });
+
+  describe('uvc-util -d and -S (Logitech C920)', () => {
+    const dump = parseNativeDump(fixture('uvc-util-c920.txt'));
+
+    it('reads the device table', () => {
+      expect(dump.source).toBe('uvc-util');
+      expect(dump.cameraName).toBe('HD Pro Webcam C920');
+      expect(dump.usbId).toEqual({ vendorId: '046d', productId: '082d' });
+    });
+
+    it('reads values, booleans and the aperture priority bitmap', () => {
+      expect(dump.settings).toMatchObject({
+        focusMode: 'manual',
+        focusDistance: 60,
+        zoom: 150,
+        brightness: 128,
+        contrast: 96,
+        exposureMode: 'continuous',
+        exposureTime: 250,
+      });
+      expect(dump.capabilities.zoom).toEqual({ min: 100, max: 500, step: 1 });
+    });
+
+    it('splits the pan-tilt compound', () => {
+      expect(dump.settings.pan).toBe(7200);
+      expect(dump.settings.tilt).toBe(0);
+      expect(dump.capabilities.tilt).toEqual({ min: -36000, max: 36000, step: 3600 });
+    });
+
+    it('lists controls without a FocusLock equivalent', () => {
+      expect(dump.unmapped).toEqual(['power-line-frequency']);
+    });
+  });
+
+  it('keeps defaults for core controls missing from the dump', () => {
+    const dump = parseNativeDump('brightness 0x00980900 (int) : min=-64 max=64 step=1 default=0 value=-10');
+    expect(dump.settings).toEqual({ ...DEFAULT_SETTINGS, brightness: -10 });
+  });
+
+  it('rejects text without controls', () => {
+    expect(() => parseNativeDump('Cannot open device /dev/video0, exiting.')).toThrow(/No camera controls found/);
+  });
+});
+
+describe('scripts from an imported dump', () => {
+  const preset = (name: string) => {
+    const dump = parseNativeDump(fixture(name));
+    return v4l2PresetGenerator.render({
+      os: OS.LINUX,
+      cameraName: dump.cameraName ?? 'Imported camera',
+      settings: dump.settings,
+      scriptType: 'v4l2-preset',
+      capabilities: dump.capabilities,
+      nativeRanges: dump.capabilities,
+    }).split('\n');
+  };
+
+  it('writes back the values that were read', () => {
+    expect(preset('v4l2-all-lifecam.txt')).toEqual(expect.arrayContaining([
+      'focus_absolute=12', 'zoom_absolute=0', 'brightness=133', 'contrast=5', 'sharpness=25',
+    ]));
+    expect(preset('v4l2-list-ctrls-c920.txt')).toContain('focus_absolute=45');
+  });
+});
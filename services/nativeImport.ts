@@ -0,0 +1,229 @@
+import { CameraCapabilities, CameraSettings, CapabilityRange, UsbId } from "../types";
+import { DEFAULT_SETTINGS, ModeControlKey, RangeControlKey } from "./cameraControls";
+
+// Reads a camera's current state back from native tool output pasted by the
+// user, so a camera tuned on one machine can be reproduced elsewhere.
+// Supported: `v4l2-ctl --list-ctrls`, `v4l2-ctl --all` and uvc-util dumps
+// (`uvc-util -I 0 -S '*'`, optionally with the `uvc-util -d` device table).
+// Values and ranges stay in native units, which is what the script
+// generators expect when the capabilities come from the same driver.
+
+export type NativeDumpSource = 'v4l2-ctl' | 'uvc-util';
+
+export interface NativeImport {
+  source: NativeDumpSource;
+  // From v4l2-ctl's "Card type" or the uvc-util device table
+  cameraName?: string;
+  usbId?: UsbId;
+  capabilities: CameraCapabilities;
+  // Core controls missing from the dump keep their defaults
+  settings: CameraSettings;
+  // Native control names that have no FocusLock equivalent
+  unmapped: string[];
+}
+
+// One control as the native tool reported it
+interface NativeControl {
+  name: string;
+  // Pan/tilt come as one uvc-util control with two members
+  value: number | Record<string, number>;
+  min?: number | Record<string, number>;
+  max?: number | Record<string, number>;
+  step?: number | Record<string, number>;
+}
+
+interface ParsedDump {
+  controls: NativeControl[];
+  cameraName?: string;
+  usbId?: UsbId;
+}
+
+type ControlMapping =
+  | { kind: 'range'; key: RangeControlKey }
+  | { kind: 'mode'; key: ModeControlKey; isManual: (value: number) => boolean }
+  | { kind: 'pan-tilt' };
+
+// auto_exposure menu: 0 auto, 1 manual, 2 shutter priority, 3 aperture priority.
+// Manual and shutter priority both leave the exposure time to us.
+const V4L2_MAPPINGS: Record<string, ControlMapping> = {
+  focus_automatic_continuous: { kind: 'mode', key: 'focusMode', isManual: v => v === 0 },
+  focus_auto_continuous: { kind: 'mode', key: 'focusMode', isManual: v => v === 0 },
+  focus_auto: { kind: 'mode', key: 'focusMode', isManual: v => v === 0 },
+  focus_absolute: { kind: 'range', key: 'focusDistance' },
+  zoom_absolute: { kind: 'range', key: 'zoom' },
+  brightness: { kind: 'range', key: 'brightness' },
+  contrast: { kind: 'range', key: 'contrast' },
+  saturation: { kind: 'range', key: 'saturation' },
+  sharpness: { kind: 'range', key: 'sharpness' },
+  auto_exposure: { kind: 'mode', key: 'exposureMode', isManual: v => v === 1 || v === 2 },
+  exposure_auto: { kind: 'mode', key: 'exposureMode', isManual: v => v === 1 || v === 2 },
+  exposure_time_absolute: { kind: 'range', key: 'exposureTime' },
+  exposure_absolute: { kind: 'range', key: 'exposureTime' },
+  white_balance_automatic: { kind: 'mode', key: 'whiteBalanceMode', isManual: v => v === 0 },
+  white_balance_temperature_auto: { kind: 'mode', key: 'whiteBalanceMode', isManual: v => v === 0 },
+  white_balance_temperature: { kind: 'range', key: 'colorTemperature' },
+  pan_absolute: { kind: 'range', key: 'pan' },
+  tilt_absolute: { kind: 'range', key: 'tilt' },
+};
+
+// auto-exposure-mode is the UVC bitmap: 1 manual, 2 auto, 4 shutter priority, 8 aperture priority
+const UVC_MAPPINGS: Record<string, ControlMapping> = {
+  'auto-focus': { kind: 'mode', key: 'focusMode', isManual: v => v === 0 },
+  'focus-abs': { kind: 'range', key: 'focusDistance' },
+  'zoom-abs': { kind: 'range', key: 'zoom' },
+  brightness: { kind: 'range', key: 'brightness' },
+  contrast: { kind: 'range', key: 'contrast' },
+  saturation: { kind: 'range', key: 'saturation' },
+  sharpness: { kind: 'range', key: 'sharpness' },
+  'auto-exposure-mode': { kind: 'mode', key: 'exposureMode', isManual: v => v === 1 || v === 4 },
+  'exposure-time-abs': { kind: 'range', key: 'exposureTime' },
+  'auto-white-balance-temp': { kind: 'mode', key: 'whiteBalanceMode', isManual: v => v === 0 },
+  'white-balance-temp': { kind: 'range', key: 'colorTemperature' },
+  'pan-tilt-abs': { kind: 'pan-tilt' },
+};
+
+// "true"/"false", plain numbers and uvc-util's {pan=0,tilt=3600} compounds
+const parseValue = (text: string): number | Record<string, number> | undefined => {
+  const trimmed = text.trim();
+  if (/^(true|yes)$/i.test(trimmed)) return 1;
+  if (/^(false|no)$/i.test(trimmed)) return 0;
+  const compound = trimmed.match(/^\{(.*)\}$/);
+  if (compound) {
+    const members: Record<string, number> = {};
+    for (const part of compound[1].split(',')) {
+      const [name, value] = part.split('=').map(s => s.trim());
+      if (name && value !== undefined && !Number.isNaN(Number(value))) members[name] = Number(value);
+    }
+    return Object.keys(members).length > 0 ? members : undefined;
+  }
+  const number = parseFloat(trimmed);
+  return Number.isNaN(number) ? undefined : number;
+};
+
+// "brightness 0x00980900 (int) : min=0 max=255 ..." (newer v4l2-ctl prints the control ID, older doesn't)
+const V4L2_CONTROL_LINE = /^\s*([a-z0-9_]+)(?:\s+0x[0-9a-f]+)?\s+\((\w+)\)\s*:\s*(.*)$/i;
+
+const parseV4l2 = (text: string): ParsedDump => {
+  const controls: NativeControl[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.match(V4L2_CONTROL_LINE);
+    if (!match) continue;
+    const fields: Record<string, number> = {};
+    for (const [, key, value] of match[3].matchAll(/(\w+)=(-?\d+)/g)) {
+      fields[key] = Number(value);
+    }
+    if (fields.value === undefined) continue;
+    controls.push({ name: match[1], value: fields.value, min: fields.min, max: fields.max, step: fields.step });
+  }
+  const cameraName = text.match(/^\s*Card type\s*:\s*(.+?)\s*$/m)?.[1];
+  return { controls, cameraName };
+};
+
+// uvc-util -S prints one block per control:
+//   brightness {
+//     type-description: { ... },
+//     minimum: -64
+//     ...
+//     current-value: 0
+//   }
+const UVC_FIELDS: Record<string, 'min' | 'max' | 'step' | 'value'> = {
+  minimum: 'min',
+  maximum: 'max',
+  'step-size': 'step',
+  'current-value': 'value',
+};
+
+const parseUvcUtil = (text: string): ParsedDump => {
+  const controls: NativeControl[] = [];
+  let current: (Partial<NativeControl> & { name: string }) | null = null;
+  for (const line of text.split('\n')) {
+    const start = line.match(/^([a-z][a-z0-9-]*)\s*\{\s*$/);
+    if (start) {
+      current = { name: start[1] };
+      continue;
+    }
+    if (!current) continue;
+    const field = line.match(/^\s*(minimum|maximum|step-size|current-value)\s*:\s*(.+?),?\s*$/);
+    if (field) {
+      const value = parseValue(field[2]);
+      if (value !== undefined) current[UVC_FIELDS[field[1]]] = value;
+    } else if (/^\}\s*$/.test(line)) {
+      if (current.value !== undefined) controls.push(current as NativeControl);
+      current = null;
+    }
+  }
+
+  // Device table row: "0  0x046d:0x082d  0x14200000  1.00  HD Pro Webcam C920"
+  const device = text.match(/^\s*\d+\s+0x([0-9a-f]{4}):0x([0-9a-f]{4})\s+0x[0-9a-f]+\s+[\d.]+\s+(.+?)\s*$/im);
+  return device
+    ? { controls, cameraName: device[3], usbId: { vendorId: device[1].toLowerCase(), productId: device[2].toLowerCase() } }
+    : { controls };
+};
+
+const asNumber = (value: NativeControl['value'] | undefined, member?: string): number | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value === 'number') return value;
+  return member ? value[member] : undefined;
+};
+
+const toRange = (control: NativeControl, member?: string): CapabilityRange | undefined => {
+  const min = asNumber(control.min, member);
+  const max = asNumber(control.max, member);
+  if (min === undefined || max === undefined) return undefined;
+  return { min, max, step: asNumber(control.step, member) ?? 1 };
+};
+
+/**
+ * Parses pasted v4l2-ctl or uvc-util output into capabilities and settings.
+ * Throws if no camera controls are found.
+ */
+export const parseNativeDump = (text: string): NativeImport => {
+  const isUvcUtil = /^[a-z][a-z0-9-]*\s*\{\s*$/m.test(text) && /current-value\s*:/.test(text);
+  const source: NativeDumpSource = isUvcUtil ? 'uvc-util' : 'v4l2-ctl';
+  const parsed = isUvcUtil ? parseUvcUtil(text) : parseV4l2(text);
+  if (parsed.controls.length === 0) {
+    throw new Error("No camera controls found. Paste the output of v4l2-ctl --list-ctrls, v4l2-ctl --all or uvc-util -S '*'.");
+  }
+
+  const mappings = isUvcUtil ? UVC_MAPPINGS : V4L2_MAPPINGS;
+  const capabilities: CameraCapabilities = {};
+  const values: Record<string, unknown> = {};
+  const unmapped: string[] = [];
+  for (const control of parsed.controls) {
+    const mapping = mappings[control.name];
+    if (!mapping) {
+      unmapped.push(control.name);
+      continue;
+    }
+    if (mapping.kind === 'pan-tilt') {
+      for (const key of ['pan', 'tilt'] as const) {
+        const value = asNumber(control.value, key);
+        if (value === undefined) continue;
+        values[key] = value;
+        const range = toRange(control, key);
+        if (range) capabilities[key] = range;
+      }
+    } else if (mapping.kind === 'range') {
+      // The first name wins when a dump lists both the old and new name
+      const value = asNumber(control.value);
+      if (value === undefined || values[mapping.key] !== undefined) continue;
+      values[mapping.key] = value;
+      const range = toRange(control);
+      if (range) capabilities[mapping.key] = range;
+    } else {
+      const value = asNumber(control.value);
+      if (value === undefined || values[mapping.key] !== undefined) continue;
+      values[mapping.key] = mapping.isManual(value) ? 'manual' : 'continuous';
+      capabilities[mapping.key] = ['manual', 'continuous'];
+    }
+  }
+
+  return {
+    source,
+    cameraName: parsed.cameraName,
+    usbId: parsed.usbId,
+    capabilities,
+    settings: { ...DEFAULT_SETTINGS, ...(values as Partial<CameraSettings>) },
+    unmapped,
+  };
+};
@@ -0,0 +1,177 @@
+import { OS, ScriptGeneratorPlugin } from "../types";
+import { formatUsbId, nativeCameraName } from "./deviceIdentity";
+import { NativeScriptParams, describeCamera, extraControls, toNativeCameras, toNativeParams } from "./scriptControls";
+import { JS_VERIFY, VERIFY_OPTION } from "./scriptVerify";
+
+// Node.js script built on uvc-control (https://github.com/makenai/node-uvc-control),
+// which sends raw UVC requests over libusb. That only works while no kernel
+// driver holds the camera's control interface, which rules out Linux (uvcvideo)
+// and Windows (usbvideo.sys) in practice, so this target is macOS only.
+
+interface UsbControlEntry {
+  key: string;
+  label: string;
+  control: string;
+  value: number | [number, number];
+  exact: boolean;
+}
+
+// Controls in apply order; auto modes come before the values they unlock
+const usbControls = (params: NativeScriptParams): { controls: UsbControlEntry[]; skipped: string[] } => {
+  const { settings } = params;
+  const focusAuto = settings.focusMode === 'continuous';
+  const controls: UsbControlEntry[] = [
+    { key: 'focusMode', label: 'Auto Focus', control: 'autoFocus', value: focusAuto ? 1 : 0, exact: true },
+    ...(focusAuto ? [] : [{ key: 'focusDistance', label: 'Focus Distance', control: 'absoluteFocus', value: settings.focusDistance, exact: false }]),
+    { key: 'zoom', label: 'Zoom', control: 'absoluteZoom', value: settings.zoom, exact: false },
+    { key: 'brightness', label: 'Brightness', control: 'brightness', value: settings.brightness, exact: false },
+    { key: 'contrast', label: 'Contrast', control: 'contrast', value: settings.contrast, exact: false },
+  ];
+  const skipped: string[] = [];
+  for (const c of extraControls(settings, params.os)) {
+    if (!c.usb) {
+      skipped.push(`${c.label} (wanted: ${c.value})`);
+    } else if (controls[controls.length - 1].control !== c.usb.control) {
+      // Pan and tilt share absolutePanTilt, so it's only listed once
+      const label = c.usb.control === 'absolutePanTilt' ? 'Pan/Tilt' : c.label;
+      controls.push({ key: c.key, label, control: c.usb.control, value: c.usb.value, exact: c.exact });
+    }
+  }
+  return { controls, skipped };
+};
+
+const cameraEntry = (params: NativeScriptParams): string => {
+  const { controls, skipped } = usbControls(params);
+  const lines = [
+    ...controls.map(c => `      { key: '${c.key}', label: '${c.label}', control: '${c.control}', value: ${JSON.stringify(c.value)}, exact: ${c.exact} },`),
+    ...skipped.map(label => `      // Not available through uvc-control: ${label}`),
+  ];
+  return `  {
+    // ${params.cameraName}${describeCamera(params, '    // ')}
+    name: ${JSON.stringify(nativeCameraName(params.cameraName))},
+    usbId: ${params.usbId ? `'${formatUsbId(params.usbId)}'` : 'null'},  // vendor:product; null = match by product name
+    controls: [
+${lines.join('\n')}
+    ],
+  },`;
+};
+
+const generateNodeScript = (cameras: NativeScriptParams[]): string => {
+  const verify = cameras[0]?.verify ?? false;
+  return `#!/usr/bin/env node
+// FocusLock - Webcam Settings Script (Node.js)
+// Generated for: ${cameras.map(c => c.cameraName).join(', ')}
+//
+// Requirements: Node.js 12+ and uvc-control, installed next to this script:
+//   npm install uvc-control
+// Cameras are looked up by USB ID or product name on every run. On recent
+// macOS versions USB control requests may need sudo.
+'use strict';
+
+const { promisify } = require('util');
+const usb = require('usb');  // installed along with uvc-control
+const UVCControl = require('uvc-control');
+
+const CAMERAS = [
+${cameras.map(cameraEntry).join('\n')}
+];
+
+// Finds a connected camera by USB ID, or by a case-insensitive product name match
+async function findCamera(name, usbId) {
+  if (usbId) {
+    const [vid, pid] = usbId.split(':').map(hex => parseInt(hex, 16));
+    return usb.findByIds(vid, pid) ? { vid, pid } : null;
+  }
+  for (const device of usb.getDeviceList()) {
+    const { idVendor, idProduct, iProduct } = device.deviceDescriptor;
+    if (!iProduct) continue;
+    try {
+      device.open();
+      const product = await promisify(device.getStringDescriptor.bind(device))(iProduct);
+      if (product && product.toLowerCase().includes(name.toLowerCase())) return { vid: idVendor, pid: idProduct };
+    } catch (error) {
+      // Devices that can't be opened (no permission, busy) are skipped
+    } finally {
+      try { device.close(); } catch (error) { /* never opened */ }
+    }
+  }
+  return null;
+}
+
+// absolutePanTilt is two 32-bit values, which uvc-control can only send raw
+async function setControl(camera, control, value) {
+  if (Array.isArray(value)) {
+    const data = Buffer.alloc(8);
+    data.writeInt32LE(value[0], 0);
+    data.writeInt32LE(value[1], 4);
+    return promisify(camera.setRaw.bind(camera))(control, data);
+  }
+  return promisify(camera.set.bind(camera))(control, value);
+}
+${verify ? `\n${JS_VERIFY}\n` : ''}
+// Applies one camera's controls; failures are reported and counted, not fatal
+async function applyCamera({ name, usbId, controls }) {
+  const found = await findCamera(name, usbId);
+  if (!found) {
+    console.error(\`Error: camera '\${name}' not found. Is it plugged in?\`);
+    return { camera: name, ok: false, error: 'Camera not found', controls: [] };
+  }
+
+  console.log(\`Applying settings to \${name}...\`);
+  const camera = new UVCControl(found.vid, found.pid);
+  let ok = true;
+  for (const { label, control, value } of controls) {
+    try {
+      await setControl(camera, control, value);
+      console.log(\`  \${label} = \${value}\`);
+    } catch (error) {
+      console.error(\`  \${label} = \${value} FAILED (\${error.message})\`);
+      ok = false;
+    }
+  }
+${verify ? `
+  const results = await verifyControls(camera, controls);
+  camera.close();
+  return { camera: name, ok: results.every(r => r.ok), controls: results };` : `
+  camera.close();
+  return { camera: name, ok, controls: [] };`}
+}
+
+async function main() {
+${verify ? `  // Progress goes to stderr so stdout carries only the JSON report
+  console.log = console.error;
+  const cameras = [];
+  for (const camera of CAMERAS) cameras.push(await applyCamera(camera));
+  const ok = cameras.every(c => c.ok);
+  process.stdout.write(JSON.stringify({ ok, cameras }, null, 2) + '\\n');
+  process.exitCode = ok ? 0 : 1;` : `  let failed = 0;
+  for (const camera of CAMERAS) {
+    if (!(await applyCamera(camera)).ok) failed++;
+  }
+  if (failed > 0) {
+    console.error(\`\${failed} camera(s) could not be fully configured.\`);
+    process.exitCode = 1;
+  } else {
+    console.log('Settings applied successfully.');
+  }`}
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});`;
+};
+
+export const nodeGenerator: ScriptGeneratorPlugin = {
+  id: 'node',
+  name: 'Node.js',
+  description: 'Generates a Node.js script that talks UVC directly over USB through the uvc-control library. No Xcode build needed, just npm.',
+  supportedOS: [OS.MACOS],
+  extension: { [OS.MACOS]: '.js' },
+  launcher: { [OS.MACOS]: '/usr/bin/env node' },
+  requirements: { [OS.MACOS]: 'Node.js, and "npm install uvc-control" in the folder the script is installed to (see the script header).' },
+  options: [VERIFY_OPTION],
+  // uvc-control sends raw UVC values, the same units as V4L2
+  render: params => generateNodeScript([toNativeParams(params, 'v4l2')]),
+  renderCombined: params => generateNodeScript(toNativeCameras(params, 'v4l2')),
+};
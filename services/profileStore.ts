@@ -0,0 +1,141 @@
+import { CameraDevice, CameraSettings, SettingsProfile } from "../types";
+import { validateSettings } from "./settingsValidation";
+
+// Named settings profiles, persisted in localStorage and shareable as JSON files.
+
+const PROFILES_KEY = 'focuslock.profiles';
+const LAST_PROFILE_KEY = 'focuslock.lastProfile';
+
+export const PROFILE_FORMAT = 'focuslock-profiles';
+export const PROFILE_FORMAT_VERSION = 1;
+
+export interface ProfileExport {
+  format: typeof PROFILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  profiles: SettingsProfile[];
+}
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  localStorage.setItem(key, JSON.stringify(value));
+};
+
+export const loadProfiles = (): SettingsProfile[] => readJson<SettingsProfile[]>(PROFILES_KEY, []);
+
+const storeProfiles = (profiles: SettingsProfile[]) => writeJson(PROFILES_KEY, profiles);
+
+export const profileMatchesDevice = (profile: SettingsProfile, device: CameraDevice): boolean =>
+  profile.deviceId === device.deviceId || (!!profile.cameraLabel && profile.cameraLabel === device.label);
+
+export const profilesForDevice = (profiles: SettingsProfile[], device: CameraDevice): SettingsProfile[] =>
+  profiles.filter(p => profileMatchesDevice(p, device));
+
+/**
+ * Saves settings under `name` for the device. An existing profile with the
+ * same name for the same device is overwritten.
+ */
+export const saveProfile = (name: string, device: CameraDevice, settings: CameraSettings): SettingsProfile => {
+  const profiles = loadProfiles();
+  const existing = profilesForDevice(profiles, device).find(p => p.name === name);
+  const profile: SettingsProfile = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name,
+    deviceId: device.deviceId,
+    cameraLabel: device.label,
+    settings: { ...settings },
+    updatedAt: new Date().toISOString(),
+  };
+  storeProfiles([...profiles.filter(p => p.id !== profile.id), profile]);
+  setLastProfile(device, profile.id);
+  return profile;
+};
+
+export const deleteProfile = (id: string) => {
+  storeProfiles(loadProfiles().filter(p => p.id !== id));
+};
+
+// Last-used profile per camera; keyed by label so it survives deviceId rotation
+const deviceKey = (device: CameraDevice) => device.label || device.deviceId;
+
+export const setLastProfile = (device: CameraDevice, profileId: string | null) => {
+  const last = readJson<Record<string, string>>(LAST_PROFILE_KEY, {});
+  if (profileId) {
+    last[deviceKey(device)] = profileId;
+  } else {
+    delete last[deviceKey(device)];
+  }
+  writeJson(LAST_PROFILE_KEY, last);
+};
+
+export const getLastProfile = (device: CameraDevice): SettingsProfile | null => {
+  const id = readJson<Record<string, string>>(LAST_PROFILE_KEY, {})[deviceKey(device)];
+  return loadProfiles().find(p => p.id === id && profileMatchesDevice(p, device)) ?? null;
+};
+
+export const exportProfiles = (profiles: SettingsProfile[]): string => {
+  const payload: ProfileExport = {
+    format: PROFILE_FORMAT,
+    version: PROFILE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profiles,
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Why an imported profile can't be used, or null if it can
+const profileProblem = (p: unknown, index: number): string | null => {
+  if (!isRecord(p) || typeof p.id !== 'string' || typeof p.name !== 'string' || !isRecord(p.settings)) {
+    return `profile ${index + 1} is not a settings profile`;
+  }
+  const issues = validateSettings(p.settings);
+  return issues.length > 0 ? `"${p.name}": ${issues.map(i => i.message).join(', ')}` : null;
+};
+
+/**
+ * Parses an exported profile file. Throws with a user-facing message if the
+ * file is not a FocusLock export, was written by a newer version or holds
+ * settings that don't validate.
+ */
+export const parseProfileExport = (text: string): SettingsProfile[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON.");
+  }
+  if (!isRecord(data) || data.format !== PROFILE_FORMAT || !Array.isArray(data.profiles)) {
+    throw new Error("File is not a FocusLock profile export.");
+  }
+  if (typeof data.version !== 'number' || data.version > PROFILE_FORMAT_VERSION) {
+    throw new Error(`Unsupported profile format version ${data.version}. Please update FocusLock.`);
+  }
+  const profiles: unknown[] = data.profiles;
+  const problems = profiles.map(profileProblem).filter((problem): problem is string => problem !== null);
+  if (problems.length > 0) {
+    throw new Error(`${problems.length} profile(s) in the file are malformed (${problems.join('; ')}).`);
+  }
+  return profiles as SettingsProfile[];
+};
+
+/**
+ * Merges imported profiles into the store, replacing profiles with the same id.
+ * Returns the number of profiles imported.
+ */
+export const importProfiles = (text: string): number => {
+  const imported = parseProfileExport(text);
+  const ids = new Set(imported.map(p => p.id));
+  storeProfiles([...loadProfiles().filter(p => !ids.has(p.id)), ...imported]);
+  return imported.length;
+};
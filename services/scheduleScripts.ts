@@ -0,0 +1,73 @@
+import { OS, ScheduleSlot, ScriptType } from "../types";
+import { getGenerator } from "./scriptGenerators";
+
+// Scheduled output: one ordinary settings script per time window, plus a small
+// dispatcher that runs whichever window is current. Installers run the
+// dispatcher at login, on plug-in and at every window start, so any generator
+// with a launcher can follow a schedule without schedule logic of its own.
+
+export const slotFileName = (os: OS, scriptType: ScriptType, start: string): string =>
+  `focuslock-apply-${start.replace(':', '')}${getGenerator(scriptType).extension[os] ?? '.txt'}`;
+
+export const dispatcherFileName = (os: OS): string =>
+  os === OS.WINDOWS ? 'focuslock-schedule.ps1' : 'focuslock-schedule.sh';
+
+// Command that runs the dispatcher, as installers need it
+export const dispatcherLauncher = (os: OS): string =>
+  os === OS.WINDOWS ? 'powershell.exe -NoProfile -ExecutionPolicy Bypass -WindowStyle Hidden -File' : '/bin/bash';
+
+const minutes = (start: string): number => {
+  const [h, m] = start.split(':').map(Number);
+  return h * 60 + m;
+};
+
+const windowList = (os: OS, scriptType: ScriptType, slots: ScheduleSlot[], comment: string): string =>
+  slots.map(s => `${comment}   ${s.start}  ${s.name.padEnd(20)} ${slotFileName(os, scriptType, s.start)}`).join('\n');
+
+const bashDispatcher = (os: OS, scriptType: ScriptType, slots: ScheduleSlot[], launcher: string): string => {
+  const last = slots[slots.length - 1];
+  return `#!/bin/bash
+# FocusLock - time-of-day schedule
+# Runs the settings script of the current time window. Each window lasts
+# until the next one starts; the last one runs past midnight.
+${windowList(os, scriptType, slots, '#')}
+cd "$(dirname "$0")"
+
+now=$((10#$(date +%H) * 60 + 10#$(date +%M)))
+script="${slotFileName(os, scriptType, last.start)}"
+${slots.map(s => `[ "$now" -ge ${minutes(s.start)} ] && script="${slotFileName(os, scriptType, s.start)}"`).join('\n')}
+
+echo "FocusLock: applying $script"
+exec ${launcher} "$script"`;
+};
+
+const powershellDispatcher = (os: OS, scriptType: ScriptType, slots: ScheduleSlot[], launcher: string): string => {
+  const last = slots[slots.length - 1];
+  const [command, ...args] = launcher.split(' ');
+  return `# FocusLock - time-of-day schedule
+# Runs the settings script of the current time window. Each window lasts
+# until the next one starts; the last one runs past midnight.
+${windowList(os, scriptType, slots, '#')}
+
+$now = [int](Get-Date).TimeOfDay.TotalMinutes
+$script = "${slotFileName(os, scriptType, last.start)}"
+${slots.map(s => `if ($now -ge ${minutes(s.start)}) { $script = "${slotFileName(os, scriptType, s.start)}" }`).join('\n')}
+
+Write-Host "FocusLock: applying $script"
+& ${command}${args.length > 0 ? ` ${args.join(' ')}` : ''} (Join-Path $PSScriptRoot $script)
+exit $LASTEXITCODE`;
+};
+
+/**
+ * The dispatcher for `slots` (in start order). Throws if the generator's
+ * output can't be launched on its own, since then nothing can run it.
+ */
+export const renderScheduleDispatcher = (os: OS, scriptType: ScriptType, slots: ScheduleSlot[]): string => {
+  const plugin = getGenerator(scriptType);
+  const launcher = plugin.launcher?.[os];
+  if (!launcher) throw new Error(`${plugin.name} output can't follow a schedule: it isn't runnable on its own.`);
+  if (slots.length === 0) throw new Error('The schedule has no time windows.');
+  return os === OS.WINDOWS
+    ? powershellDispatcher(os, scriptType, slots, launcher)
+    : bashDispatcher(os, scriptType, slots, launcher);
+};
@@ -0,0 +1,80 @@
+import { CameraDevice, ScheduleEntry, ScheduleSlot, SettingsProfile, SettingsSchedule } from "../types";
+
+// Time-of-day schedules: which saved profile applies when, per camera.
+// Persisted in localStorage next to the profiles they refer to.
+
+const SCHEDULES_KEY = 'focuslock.schedules';
+
+const readSchedules = (): SettingsSchedule[] => {
+  try {
+    const raw = localStorage.getItem(SCHEDULES_KEY);
+    return raw ? (JSON.parse(raw) as SettingsSchedule[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const scheduleMatchesDevice = (schedule: SettingsSchedule, device: CameraDevice): boolean =>
+  schedule.deviceId === device.deviceId || (!!schedule.cameraLabel && schedule.cameraLabel === device.label);
+
+export const loadSchedule = (device: CameraDevice): SettingsSchedule =>
+  readSchedules().find(s => scheduleMatchesDevice(s, device))
+    ?? { deviceId: device.deviceId, cameraLabel: device.label, enabled: false, entries: [] };
+
+/**
+ * Saves the schedule of `device`. Throws if two entries start at the same
+ * time: which one applies would be ambiguous, and their generated scripts
+ * would share a file name.
+ */
+export const saveSchedule = (device: CameraDevice, schedule: Omit<SettingsSchedule, 'deviceId' | 'cameraLabel'>): SettingsSchedule => {
+  const starts = schedule.entries.map(e => e.start);
+  const duplicate = starts.find((start, i) => starts.indexOf(start) !== i);
+  if (duplicate) throw new Error(`Two time windows start at ${duplicate}.`);
+  const saved: SettingsSchedule = { ...schedule, deviceId: device.deviceId, cameraLabel: device.label };
+  localStorage.setItem(SCHEDULES_KEY, JSON.stringify([...readSchedules().filter(s => !scheduleMatchesDevice(s, device)), saved]));
+  return saved;
+};
+
+export const isValidTime = (time: string): boolean => /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
+
+// Whether an entry other than `exceptId` already starts at `start`
+export const isStartTaken = (entries: ScheduleEntry[], start: string, exceptId?: string): boolean =>
+  entries.some(e => e.id !== exceptId && e.start === start);
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Valid entries in start-time order
+export const sortedEntries = (entries: ScheduleEntry[]): ScheduleEntry[] =>
+  entries.filter(e => isValidTime(e.start)).sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+
+/**
+ * The entry in effect at `now`: the latest one that has started today, or
+ * yesterday's last entry before the first start of the day.
+ */
+export const activeEntry = (entries: ScheduleEntry[], now: Date = new Date()): ScheduleEntry | null => {
+  const sorted = sortedEntries(entries);
+  if (sorted.length === 0) return null;
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  return [...sorted].reverse().find(e => toMinutes(e.start) <= minutes) ?? sorted[sorted.length - 1];
+};
+
+// Start time of the entry that follows `entry`
+export const entryEnd = (entries: ScheduleEntry[], entry: ScheduleEntry): string => {
+  const sorted = sortedEntries(entries);
+  return sorted[(sorted.findIndex(e => e.id === entry.id) + 1) % sorted.length].start;
+};
+
+/**
+ * Resolves entries to the settings of their profiles, for the script
+ * generators. Entries whose profile no longer exists are dropped, and so are
+ * repeated start times (schedules saved before saveSchedule refused them).
+ */
+export const scheduleSlots = (entries: ScheduleEntry[], profiles: SettingsProfile[]): ScheduleSlot[] =>
+  sortedEntries(entries).flatMap((entry, i, sorted) => {
+    const profile = profiles.find(p => p.id === entry.profileId);
+    if (!profile || sorted.findIndex(e => e.start === entry.start) !== i) return [];
+    return [{ start: entry.start, name: profile.name, settings: profile.settings }];
+  });
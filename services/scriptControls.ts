@@ -0,0 +1,191 @@
+import { CameraSettings, CapabilityRange, MultiCameraScriptParams, OS, ScriptGenerationParams } from "../types";
+import { parseUsbId } from "./deviceIdentity";
+import { DirectShowProperty } from "./directShow";
+import { RangeControlKey } from "./cameraControls";
+import { MappingEntry, NativeTarget, describeMapping, mapSettingsToNative } from "./valueMapping";
+
+// Building blocks shared by the script generator plugins: settings converted
+// to native units, and how each optional control is expressed per tool.
+
+// Script params with settings already converted to native units
+export interface NativeScriptParams extends ScriptGenerationParams {
+  mapping: MappingEntry[];
+  verify: boolean;
+}
+
+export const toNativeParams = (
+  params: ScriptGenerationParams,
+  target: NativeTarget,
+  // Native ranges the driver reported, when known
+  reported: Partial<Record<RangeControlKey, CapabilityRange>> | undefined = params.nativeRanges
+): NativeScriptParams => {
+  // Driver quirks are keyed by USB ID; the browser label usually carries it even when not pinned
+  const usbId = params.usbId ?? parseUsbId(params.cameraName) ?? undefined;
+  const { settings, entries } = mapSettingsToNative(params.settings, params.capabilities, target, usbId, reported);
+  return { ...params, settings, mapping: entries, verify: !!params.options?.verify };
+};
+
+// Per-camera params of a combined script
+export const toNativeCameras = (params: MultiCameraScriptParams, target: NativeTarget): NativeScriptParams[] =>
+  params.cameras.map(camera => toNativeParams({
+    os: params.os,
+    scriptType: params.scriptType,
+    cameraName: camera.cameraName,
+    settings: camera.settings,
+    usbId: camera.usbId,
+    capabilities: camera.capabilities,
+    nativeRanges: camera.nativeRanges,
+    options: params.options,
+  }, target));
+
+// ROI and value mapping lines for a script or per-camera header
+export const describeCamera = (params: NativeScriptParams, comment: string): string => {
+  const mapping = describeMapping(params.mapping, comment);
+  return `${describeRoi(params.settings, comment)}${mapping ? `\n${mapping}` : ''}`;
+};
+
+// The focus ROI is chosen in the browser; native tools can't use it, but we
+// record it so a script carries the full configuration it was tuned with.
+const describeRoi = (settings: CameraSettings, comment: string): string => {
+  const roi = settings.regionOfInterest;
+  if (!roi) return '';
+  const f = (n: number) => n.toFixed(3);
+  return `\n${comment}Focus region (normalized x,y,w,h): ${f(roi.x)},${f(roi.y)},${f(roi.width)},${f(roi.height)}`;
+};
+
+// Optional controls beyond the core five. Each entry knows how to express
+// itself in OpenCV, v4l2-ctl, DirectShow, uvc-util and the uvc-control Node
+// library; null means that tool has no equivalent.
+export interface ExtraControl {
+  // Settings key, also the control name in verify reports
+  key: keyof CameraSettings;
+  label: string;
+  // Mode switches must read back exactly; values get a tolerance
+  exact: boolean;
+  value: number | boolean;
+  opencv: { prop: string; value: number } | null;
+  v4l2: { ctrls: string[]; value: number } | null;
+  // Either a manual value or an auto/manual switch
+  dshow: { prop: DirectShowProperty; value: number } | { prop: DirectShowProperty; auto: boolean } | null;
+  uvc: { ctrl: string; value: string } | null;
+  // uvc-control takes pan and tilt together as one [pan, tilt] value
+  usb: { control: string; value: number | [number, number] } | null;
+}
+
+export const extraControls = (settings: CameraSettings, os: OS): ExtraControl[] => {
+  const controls: ExtraControl[] = [];
+  const exposureAuto = settings.exposureMode === 'continuous';
+  const wbAuto = settings.whiteBalanceMode === 'continuous';
+  const add = (
+    key: keyof CameraSettings,
+    label: string,
+    value: number | undefined,
+    prop: string | null,
+    ctrls: string[] | null,
+    dshowProp: DirectShowProperty | null,
+    // Control name, or a ready-made uvc-util setting
+    uvc: string | ExtraControl['uvc'],
+    // Control name, or a ready-made uvc-control setting
+    usb: string | ExtraControl['usb']
+  ) => {
+    if (value === undefined) return;
+    controls.push({
+      key,
+      label,
+      exact: false,
+      value,
+      opencv: prop ? { prop, value } : null,
+      v4l2: ctrls ? { ctrls, value } : null,
+      dshow: dshowProp ? { prop: dshowProp, value } : null,
+      uvc: typeof uvc === 'string' ? { ctrl: uvc, value: String(value) } : uvc,
+      usb: typeof usb === 'string' ? { control: usb, value } : usb,
+    });
+  };
+  // uvc-util and uvc-control set pan and tilt together
+  const hasPanTilt = settings.pan !== undefined || settings.tilt !== undefined;
+  const panTilt = hasPanTilt ? { ctrl: 'pan-tilt-abs', value: `{${settings.pan ?? 0},${settings.tilt ?? 0}}` } : null;
+  const usbPanTilt = hasPanTilt
+    ? { control: 'absolutePanTilt', value: [settings.pan ?? 0, settings.tilt ?? 0] as [number, number] }
+    : null;
+
+  add('saturation', 'Saturation', settings.saturation, 'cv2.CAP_PROP_SATURATION', ['saturation'], 'Saturation', 'saturation', 'saturation');
+  add('sharpness', 'Sharpness', settings.sharpness, 'cv2.CAP_PROP_SHARPNESS', ['sharpness'], 'Sharpness', 'sharpness', 'sharpness');
+  if (settings.exposureMode) {
+    controls.push({
+      key: 'exposureMode',
+      label: 'Auto Exposure',
+      exact: true,
+      value: exposureAuto,
+      // DirectShow expects 0.75/0.25, V4L2 expects 3 (aperture priority) / 1 (manual)
+      opencv: { prop: 'cv2.CAP_PROP_AUTO_EXPOSURE', value: os === OS.WINDOWS ? (exposureAuto ? 0.75 : 0.25) : (exposureAuto ? 3 : 1) },
+      v4l2: { ctrls: ['auto_exposure', 'exposure_auto'], value: exposureAuto ? 3 : 1 },
+      dshow: { prop: 'Exposure', auto: exposureAuto },
+      // UVC bitmap: 8 = aperture priority (auto shutter), 1 = manual
+      uvc: { ctrl: 'auto-exposure-mode', value: exposureAuto ? '8' : '1' },
+      usb: { control: 'autoExposureMode', value: exposureAuto ? 8 : 1 },
+    });
+  }
+  if (!exposureAuto) {
+    add('exposureTime', 'Exposure Time', settings.exposureTime, 'cv2.CAP_PROP_EXPOSURE', ['exposure_time_absolute', 'exposure_absolute'], 'Exposure', 'exposure-time-abs', 'absoluteExposureTime');
+    add('iso', 'ISO', settings.iso, 'cv2.CAP_PROP_ISO_SPEED', null, null, null, null);
+  }
+  add('exposureCompensation', 'Exposure Compensation', settings.exposureCompensation, null, null, null, null, null);
+  if (settings.whiteBalanceMode) {
+    const value = wbAuto ? 1 : 0;
+    controls.push({
+      key: 'whiteBalanceMode',
+      label: 'Auto White Balance',
+      exact: true,
+      value,
+      opencv: { prop: 'cv2.CAP_PROP_AUTO_WB', value },
+      v4l2: { ctrls: ['white_balance_automatic', 'white_balance_temperature_auto'], value },
+      dshow: { prop: 'WhiteBalance', auto: wbAuto },
+      uvc: { ctrl: 'auto-white-balance-temp', value: String(wbAuto) },
+      usb: { control: 'autoWhiteBalance', value },
+    });
+  }
+  if (!wbAuto) {
+    add('colorTemperature', 'Color Temperature', settings.colorTemperature, 'cv2.CAP_PROP_WB_TEMPERATURE', ['white_balance_temperature'], 'WhiteBalance', 'white-balance-temp', 'whiteBalanceTemperature');
+  }
+  add('pan', 'Pan', settings.pan, 'cv2.CAP_PROP_PAN', ['pan_absolute'], 'Pan', panTilt, usbPanTilt);
+  add('tilt', 'Tilt', settings.tilt, 'cv2.CAP_PROP_TILT', ['tilt_absolute'], 'Tilt', panTilt, usbPanTilt);
+  if (settings.torch !== undefined) {
+    controls.push({ key: 'torch', label: 'Torch', exact: false, value: settings.torch, opencv: null, v4l2: null, dshow: null, uvc: null, usb: null });
+  }
+  return controls;
+};
+
+// Autofocus control names, newest kernel first
+export const LINUX_AUTOFOCUS_CTRLS = ['focus_automatic_continuous', 'focus_auto_continuous', 'focus_auto'];
+
+// A v4l2 control with its current name first, then the pre-5.x kernel names
+export interface V4l2Control {
+  ctrls: string[];
+  value: number;
+}
+
+// Every control as v4l2 sets it, in apply order: auto modes come before the
+// values they unlock. Controls v4l2 has no equivalent for are listed in `skipped`.
+export const v4l2Controls = (params: NativeScriptParams): { lines: V4l2Control[]; skipped: string[] } => {
+  const { settings } = params;
+  const focusAuto = settings.focusMode === 'continuous';
+  const lines: V4l2Control[] = [
+    { ctrls: LINUX_AUTOFOCUS_CTRLS, value: focusAuto ? 1 : 0 },
+    ...(focusAuto ? [] : [{ ctrls: ['focus_absolute'], value: settings.focusDistance }]),
+    { ctrls: ['zoom_absolute'], value: settings.zoom },
+    { ctrls: ['brightness'], value: settings.brightness },
+    { ctrls: ['contrast'], value: settings.contrast },
+  ];
+  const skipped: string[] = [];
+  for (const c of extraControls(settings, params.os)) {
+    if (c.v4l2) lines.push(c.v4l2);
+    else skipped.push(`${c.label} (wanted: ${c.value})`);
+  }
+  return { lines, skipped };
+};
+
+// Optional sections are separated by a blank line, or vanish when empty
+export const withLeadingBlankLine = (section: string): string => (section ? `\n${section}\n` : '');
+
+// Numbering continues after the five core controls
+export const FIRST_EXTRA_STEP = 6;
@@ -0,0 +1,65 @@
+import { GeneratorOptions, MultiCameraScriptParams, OS, ScriptGenerationParams, ScriptGeneratorPlugin, ScriptType } from "../types";
+import { ffmpegGenerator } from "./ffmpegGenerator";
+import { nativeGenerator, pythonGenerator } from "./geminiService";
+import { nodeGenerator } from "./nodeGenerator";
+import { v4l2PresetGenerator } from "./v4l2PresetGenerator";
+
+// Registry of script generator plugins. The generator UI lists whatever is
+// registered here for the selected OS, and scripts are rendered by plugin id.
+
+const generators = new Map<ScriptType, ScriptGeneratorPlugin>();
+
+export const registerGenerator = (plugin: ScriptGeneratorPlugin): void => {
+  if (generators.has(plugin.id)) {
+    console.warn(`Script generator "${plugin.id}" registered twice; keeping the latest`);
+  }
+  generators.set(plugin.id, plugin);
+};
+
+// In registration order, optionally only those that support `os`
+export const listGenerators = (os?: OS): ScriptGeneratorPlugin[] =>
+  [...generators.values()].filter(plugin => !os || plugin.supportedOS.includes(os));
+
+export const getGenerator = (id: ScriptType): ScriptGeneratorPlugin => {
+  const plugin = generators.get(id);
+  if (!plugin) throw new Error(`Unknown script type "${id}".`);
+  return plugin;
+};
+
+// File name a generated script is saved under, e.g. focuslock-apply.ps1
+export const scriptFileName = (os: OS, scriptType: ScriptType): string =>
+  `focuslock-apply${getGenerator(scriptType).extension[os] ?? '.txt'}`;
+
+// Option defaults, overridden by whatever the caller set
+export const resolveOptions = (plugin: ScriptGeneratorPlugin, options?: GeneratorOptions): GeneratorOptions =>
+  Object.fromEntries(plugin.options.map(option => [option.key, options?.[option.key] ?? option.default]));
+
+const supportedGenerator = (id: ScriptType, os: OS): ScriptGeneratorPlugin => {
+  const plugin = getGenerator(id);
+  if (!plugin.supportedOS.includes(os)) throw new Error(`${plugin.name} scripts are not available for ${os}.`);
+  return plugin;
+};
+
+[pythonGenerator, nativeGenerator, nodeGenerator, ffmpegGenerator, v4l2PresetGenerator].forEach(registerGenerator);
+
+// Replaced Google GenAI with local template generation. No browser APIs and
+// no delay, so the command-line tool (cli/focuslock.ts) shares these too.
+const generateSystemScript = async (params: ScriptGenerationParams): Promise<string> =>
+  renderSystemScript(params);
+
+// One script that applies settings to several cameras in sequence
+const generateCombinedScript = async (params: MultiCameraScriptParams): Promise<string> =>
+  renderCombinedScript(params);
+
+// Synchronous and deterministic: the same params always give the same script
+const renderSystemScript = (params: ScriptGenerationParams): string => {
+  const plugin = supportedGenerator(params.scriptType, params.os);
+  return plugin.render({ ...params, options: resolveOptions(plugin, params.options) });
+};
+
+const renderCombinedScript = (params: MultiCameraScriptParams): string => {
+  const plugin = supportedGenerator(params.scriptType, params.os);
+  return plugin.renderCombined({ ...params, options: resolveOptions(plugin, params.options) });
+};
+
+export { generateSystemScript, generateCombinedScript, renderSystemScript, renderCombinedScript };
@@ -0,0 +1,183 @@
+import { GeneratorOption } from "../types";
+
+// Helpers emitted into scripts generated in verify mode. After applying, the
+// script reads every control back, compares it with its target and prints a
+// JSON report on stdout (progress moves to stderr), exiting 1 on mismatch:
+//
+//   {"ok": false, "cameras": [{"camera": "...", "ok": false, "controls": [
+//     {"control": "focusDistance", "target": 100, "actual": 60, "ok": false}, ...]}]}
+//
+// Control names are CameraSettings keys, so reports look the same on every OS.
+
+// Allowed deviation of range controls, in percent of the target (at least 1).
+// Mode switches must match exactly.
+export const VERIFY_TOLERANCE_PERCENT = 5;
+
+// Generator option that switches a plugin's scripts into verify mode
+export const VERIFY_OPTION: GeneratorOption = {
+  key: 'verify',
+  label: 'Verify & report',
+  description: 'Read every control back after applying, print a JSON report and exit non-zero on mismatch',
+  default: false,
+};
+
+export const PY_VERIFY = `VERIFY_TOLERANCE = ${VERIFY_TOLERANCE_PERCENT / 100}  # relative; mode switches must match exactly
+
+def verify_control(cap, controls, name, prop, target, exact=False):
+    """Reads a control back and records whether it matches the target."""
+    actual = cap.get(prop)
+    tolerance = 1e-6 if exact else max(abs(target) * VERIFY_TOLERANCE, 1)
+    controls.append({"control": name, "target": target, "actual": actual, "ok": abs(actual - target) <= tolerance})
+
+
+def camera_report(camera_name, controls, error=None):
+    report = {"camera": camera_name, "ok": error is None and all(c["ok"] for c in controls), "controls": controls}
+    if error:
+        report["error"] = error
+    return report
+
+
+def print_report(cameras):
+    """Prints the JSON report on the real stdout and exits 1 if anything didn't lock."""
+    ok = all(c["ok"] for c in cameras)
+    sys.__stdout__.write(json.dumps({"ok": ok, "cameras": cameras}, indent=2) + "\\n")
+    sys.exit(0 if ok else 1)`;
+
+export const JS_VERIFY = `const VERIFY_TOLERANCE = ${VERIFY_TOLERANCE_PERCENT / 100};  // relative; mode switches must match exactly
+
+// Reads every control back and compares it with its target
+async function verifyControls(camera, controls) {
+  const get = promisify(camera.get.bind(camera));
+  const results = [];
+  for (const { key, control, value, exact } of controls) {
+    // absolutePanTilt is wider than the integers uvc-control can read back
+    if (Array.isArray(value)) continue;
+    let actual = null;
+    try {
+      actual = await get(control);
+    } catch (error) {
+      // Reported as unreadable
+    }
+    const tolerance = exact ? 0 : Math.max(Math.abs(value) * VERIFY_TOLERANCE, 1);
+    const ok = actual !== null && Math.abs(actual - value) <= tolerance;
+    console.log(\`  verify \${key}: target \${value}, actual \${actual} -> \${ok}\`);
+    results.push({ control: key, target: value, actual, ok });
+  }
+  return results;
+}`;
+
+export const SHELL_VERIFY = `# Verify mode: progress goes to stderr, the JSON report to stdout (fd 3)
+exec 3>&1 1>&2
+VERIFY_TOLERANCE=${VERIFY_TOLERANCE_PERCENT}  # percent of the target; mode switches must match exactly
+CAMERA_REPORTS=()
+CONTROL_REPORTS=()
+ALL_OK=1
+REPORTED=0
+
+# Still report if the script exits early, e.g. when a camera isn't found
+trap '[ "$REPORTED" = 1 ] || { finish_camera "exited before this camera was verified"; print_report; }' EXIT
+
+json_value() {
+  if [ -z "$1" ]; then
+    printf 'null'
+  elif [[ "$1" =~ ^-?[0-9]+(\\.[0-9]+)?$ ]]; then
+    printf '%s' "$1"
+  else
+    local s="\${1//\\\\/\\\\\\\\}"
+    printf '"%s"' "\${s//\\"/\\\\\\"}"
+  fi
+}
+
+# Compares every number in target and actual (true/false count as 1/0)
+values_match() {
+  [ -n "$2" ] || return 1
+  awk -v t="$1" -v a="$2" -v exact="$3" -v pct="$VERIFY_TOLERANCE" '
+    function nums(s, out) {
+      s = tolower(s); gsub(/true|yes/, "1", s); gsub(/false|no/, "0", s)
+      gsub(/[^-0-9.]+/, " ", s)
+      return split(s, out, " ")
+    }
+    BEGIN {
+      n = nums(t, tv)
+      if (n == 0 || n != nums(a, av)) exit 1
+      for (i = 1; i <= n; i++) {
+        tol = exact ? 0 : (tv[i] < 0 ? -tv[i] : tv[i]) * pct / 100
+        if (!exact && tol < 1) tol = 1
+        d = av[i] - tv[i]
+        if ((d < 0 ? -d : d) > tol) exit 1
+      }
+    }'
+}
+
+# record_ctrl <key> <target> <actual> <exact:0|1>
+record_ctrl() {
+  local ok=false
+  values_match "$2" "$3" "$4" && ok=true
+  echo "  verify $1: target $2, actual \${3:-unreadable} -> $ok"
+  CONTROL_REPORTS+=("{\\"control\\":\\"$1\\",\\"target\\":$(json_value "$2"),\\"actual\\":$(json_value "$3"),\\"ok\\":$ok}")
+}
+
+# finish_camera [error]
+finish_camera() {
+  local ok=true controls error=""
+  [[ " \${CONTROL_REPORTS[*]} " == *'"ok":false'* ]] && ok=false
+  [ -n "$1" ] && { ok=false; error=",\\"error\\":$(json_value "$1")"; }
+  [ "$ok" = true ] || ALL_OK=0
+  controls="$(IFS=,; echo "\${CONTROL_REPORTS[*]}")"
+  CAMERA_REPORTS+=("{\\"camera\\":$(json_value "$CAMERA_NAME"),\\"ok\\":$ok\${error},\\"controls\\":[$controls]}")
+  CONTROL_REPORTS=()
+}
+
+print_report() {
+  local ok=true cameras
+  REPORTED=1
+  [ "$ALL_OK" = 1 ] || ok=false
+  cameras="$(IFS=,; echo "\${CAMERA_REPORTS[*]}")"
+  echo "{\\"ok\\":$ok,\\"cameras\\":[$cameras]}" >&3
+  [ "$ok" = true ]
+}`;
+
+// Reads a control through v4l2-ctl, trying each name in turn (older kernels differ)
+export const SHELL_VERIFY_V4L2 = `# verify_ctrl <key> <target> <exact:0|1> <v4l2 control>...
+verify_ctrl() {
+  local key="$1" target="$2" exact="$3" ctrl actual=""
+  shift 3
+  for ctrl in "$@"; do
+    actual="$(v4l2-ctl -d "$DEVICE" --get-ctrl="$ctrl" 2>/dev/null | awk '{print $NF}')"
+    [ -n "$actual" ] && break
+  done
+  record_ctrl "$key" "$target" "$actual" "$exact"
+}`;
+
+export const SHELL_VERIFY_UVC = `# verify_ctrl <key> <target> <exact:0|1> <uvc-util control>
+verify_ctrl() {
+  record_ctrl "$1" "$2" "$(uvc-util -I "$INDEX" -g "$4" 2>/dev/null)" "$3"
+}`;
+
+export const POWERSHELL_VERIFY = `# Verify mode: progress goes to stderr so stdout carries only the JSON report
+function Write-Host { [Console]::Error.WriteLine("$args") }
+
+$VerifyTolerance = ${VERIFY_TOLERANCE_PERCENT}  # percent of the target; mode switches must match exactly
+$CameraReports = [System.Collections.ArrayList]@()
+
+function Test-Control($Camera, $Controls, [string]$Key, [string]$Property, [int]$Target, [bool]$Mode) {
+    $state = [FocusLock.DirectShowCamera]::Get($Camera, $Property)
+    $actual = if ($null -eq $state) { $null } elseif ($Mode) { $state[1] } else { $state[0] }
+    $tolerance = if ($Mode) { 0 } else { [Math]::Max(1, [Math]::Abs($Target) * $VerifyTolerance / 100) }
+    $ok = ($null -ne $actual) -and ([Math]::Abs($actual - $Target) -le $tolerance)
+    Write-Host "  verify \${Key}: target $Target, actual $actual -> $ok"
+    [void]$Controls.Add([ordered]@{ control = $Key; target = $Target; actual = $actual; ok = $ok })
+}
+
+function Add-CameraReport([string]$Name, $Controls, [string]$Problem) {
+    $ok = -not $Problem -and @($Controls | Where-Object { -not $_.ok }).Count -eq 0
+    $report = [ordered]@{ camera = $Name; ok = $ok; controls = @($Controls) }
+    if ($Problem) { $report.error = $Problem }
+    [void]$CameraReports.Add($report)
+}
+
+function Write-Report {
+    $ok = @($CameraReports | Where-Object { -not $_.ok }).Count -eq 0
+    [ordered]@{ ok = $ok; cameras = @($CameraReports) } | ConvertTo-Json -Depth 5
+    if (-not $ok) { exit 1 }
+}`;
@@ -0,0 +1,152 @@
+import { CameraSettings } from "../types";
+import { CAMERA_CONTROLS } from "./cameraControls";
+
+// Time series of what the camera reports (track.getSettings()) plus the frame
+// sharpness, so autofocus hunting can be shown over minutes instead of one
+// snapshot, and exported as evidence for vendor tickets.
+
+export const RECORDING_FORMAT = 'focuslock-recording';
+export const RECORDING_FORMAT_VERSION = 1;
+
+// Samples per second the recorder offers
+export const RECORDER_RATES = [1, 2, 5, 10, 15];
+
+// Keeps memory bounded: at most 27000 samples at 15 Hz
+export const MAX_RECORDING_MS = 30 * 60 * 1000;
+
+export type RecordedValue = number | string | boolean;
+
+export interface RecordingSample {
+  // Milliseconds since the recording started
+  t: number;
+  sharpness: number;
+  // Camera controls as the track reported them
+  values: Partial<Record<keyof CameraSettings, RecordedValue>>;
+}
+
+export interface Recording {
+  deviceId: string;
+  cameraLabel: string;
+  startedAt: string;
+  rateHz: number;
+  samples: RecordingSample[];
+}
+
+export interface RecorderOptions {
+  rateHz: number;
+  // Reads one sample; called once per tick, never concurrently
+  read: () => Promise<Omit<RecordingSample, 't'>>;
+  onSample: (sample: RecordingSample) => void;
+  signal: AbortSignal;
+  maxDurationMs?: number;
+}
+
+// What a recording reports for focus while in one focus mode
+export interface FocusActivity {
+  durationMs: number;
+  // Direction changes of focusDistance; continuous autofocus hunting shows up here
+  reversals: number;
+  reversalsPerMinute: number;
+  // Sum of absolute focusDistance changes
+  travel: number;
+}
+
+const delay = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+/**
+ * Picks the known camera controls out of track.getSettings(), including ones
+ * FocusLock can't set on this camera but the browser still reports.
+ */
+export const readTrackValues = (trackSettings: MediaTrackSettings): RecordingSample['values'] => {
+  const reported = trackSettings as Record<string, unknown>;
+  const values: RecordingSample['values'] = {};
+  for (const { key } of CAMERA_CONTROLS) {
+    const value = reported[key];
+    if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') values[key] = value;
+  }
+  return values;
+};
+
+/**
+ * Samples at `rateHz` until the signal aborts or `maxDurationMs` has passed.
+ * Ticks are scheduled from the start time, so slow reads don't make the
+ * recording drift; a read that overruns its tick skips the missed ones.
+ * Resolves (rather than rejects) when aborted, since stopping is the normal end.
+ */
+export const runRecorder = async (options: RecorderOptions): Promise<void> => {
+  const { rateHz, read, onSample, signal, maxDurationMs = MAX_RECORDING_MS } = options;
+  const interval = 1000 / rateHz;
+  const start = performance.now();
+  let tick = 0;
+  while (!signal.aborted && tick * interval < maxDurationMs) {
+    const sample = await read();
+    if (signal.aborted) break;
+    onSample({ t: Math.round(performance.now() - start), ...sample });
+    tick = Math.max(tick + 1, Math.ceil((performance.now() - start) / interval));
+    await delay(start + tick * interval - performance.now(), signal);
+  }
+};
+
+export const focusActivity = (samples: RecordingSample[], mode: 'continuous' | 'manual'): FocusActivity => {
+  let durationMs = 0;
+  let reversals = 0;
+  let travel = 0;
+  let lastDirection = 0;
+  for (let i = 1; i < samples.length; i++) {
+    const prev = samples[i - 1].values;
+    const cur = samples[i].values;
+    if (prev.focusMode !== mode || cur.focusMode !== mode) {
+      lastDirection = 0;
+      continue;
+    }
+    durationMs += samples[i].t - samples[i - 1].t;
+    if (typeof prev.focusDistance !== 'number' || typeof cur.focusDistance !== 'number') continue;
+    const delta = cur.focusDistance - prev.focusDistance;
+    if (delta === 0) continue;
+    travel += Math.abs(delta);
+    const direction = Math.sign(delta);
+    if (lastDirection !== 0 && direction !== lastDirection) reversals++;
+    lastDirection = direction;
+  }
+  return {
+    durationMs,
+    reversals,
+    reversalsPerMinute: durationMs > 0 ? reversals / (durationMs / 60000) : 0,
+    travel: parseFloat(travel.toFixed(4)),
+  };
+};
+
+// Controls that appear in any sample, in dashboard order
+export const recordedKeys = (recording: Recording): (keyof CameraSettings)[] =>
+  CAMERA_CONTROLS.map(c => c.key).filter(key => recording.samples.some(s => s.values[key] !== undefined));
+
+const csvCell = (value: RecordedValue | undefined): string => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const recordingToCsv = (recording: Recording): string => {
+  const keys = recordedKeys(recording);
+  const start = Date.parse(recording.startedAt);
+  const rows = recording.samples.map(s => [
+    String(s.t),
+    new Date(start + s.t).toISOString(),
+    s.sharpness.toFixed(2),
+    ...keys.map(key => csvCell(s.values[key])),
+  ].join(','));
+  return [['t_ms', 'time', 'sharpness', ...keys].join(','), ...rows].join('\n') + '\n';
+};
+
+export const recordingToJson = (recording: Recording): string =>
+  JSON.stringify({ format: RECORDING_FORMAT, version: RECORDING_FORMAT_VERSION, ...recording }, null, 2);
+
+// e.g. focuslock-recording-2024-05-01T10-30-00.csv
+export const recordingFileName = (recording: Recording, extension: 'csv' | 'json'): string =>
+  `focuslock-recording-${recording.startedAt.slice(0, 19).replace(/:/g, '-')}.${extension}`;
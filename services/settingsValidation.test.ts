@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { CameraCapabilities, CameraSettings } from '../types';
+import { clampSettings, snapToRange, validateCapabilities, validateSettings } from './settingsValidation';
+
+// A Chrome-on-Linux C920: V4L2 ranges passed straight through
+const C920: CameraCapabilities = {
+  focusMode: ['manual', 'single-shot', 'continuous'],
+  focusDistance: { min: 0, max: 250, step: 5 },
+  zoom: { min: 100, max: 500, step: 1 },
+  brightness: { min: 0, max: 255, step: 1 },
+  contrast: { min: 0, max: 255, step: 1 },
+  exposureMode: ['manual', 'continuous'],
+  exposureTime: { min: 3, max: 2047, step: 1 },
+};
+
+const SETTINGS: CameraSettings = {
+  focusMode: 'manual',
+  focusDistance: 40,
+  zoom: 100,
+  brightness: 128,
+  contrast: 128,
+};
+
+const keys = (issues: { key: string }[]) => issues.map(i => i.key);
+
+describe('snapToRange', () => {
+  it('clamps to min and max', () => {
+    expect(snapToRange(-10, { min: 0, max: 250, step: 5 })).toBe(0);
+    expect(snapToRange(300, { min: 0, max: 250, step: 5 })).toBe(250);
+  });
+
+  it('rounds to the nearest step counted from min', () => {
+    expect(snapToRange(42, { min: 0, max: 250, step: 5 })).toBe(40);
+    expect(snapToRange(43, { min: 0, max: 250, step: 5 })).toBe(45);
+    expect(snapToRange(-30000, { min: -36000, max: 36000, step: 3600 })).toBe(-28800);
+  });
+
+  it('does not overshoot max when the range is not a whole number of steps', () => {
+    expect(snapToRange(70, { min: 0, max: 80, step: 30 })).toBe(60);
+    expect(snapToRange(80, { min: 0, max: 80, step: 30 })).toBe(80);
+  });
+
+  it('drops float noise from fractional steps', () => {
+    expect(snapToRange(0.31, { min: 0, max: 1, step: 0.1 })).toBe(0.3);
+  });
+
+  it('only clamps when the step is zero', () => {
+    expect(snapToRange(0.123, { min: 0, max: 1, step: 0 })).toBe(0.123);
+  });
+});
+
+describe('validateSettings', () => {
+  it('accepts settings that fit the camera', () => {
+    expect(validateSettings({ ...SETTINGS, exposureMode: 'manual', exposureTime: 250 }, C920)).toEqual([]);
+  });
+
+  it('reports missing core settings and unknown keys', () => {
+    const { zoom: _zoom, ...rest } = SETTINGS;
+    expect(keys(validateSettings({ ...rest, focus: 10 }))).toEqual(['zoom', 'focus']);
+  });
+
+  it('reports values of the wrong type', () => {
+    const issues = validateSettings({ ...SETTINGS, focusMode: 'auto', brightness: '128', torch: 1 });
+    expect(keys(issues)).toEqual(['focusMode', 'brightness', 'torch']);
+  });
+
+  it('reports modes and values the camera does not have', () => {
+    const issues = validateSettings({ ...SETTINGS, focusDistance: 300, whiteBalanceMode: 'manual' }, {
+      ...C920,
+      whiteBalanceMode: ['continuous'],
+    });
+    expect(issues).toEqual([
+      { key: 'focusDistance', message: 'Manual Focus Distance 300 is out of range [0..250]' },
+      { key: 'whiteBalanceMode', message: 'Auto White Balance "manual" is not supported (camera offers continuous)' },
+    ]);
+  });
+
+  it('only type-checks controls without a capability', () => {
+    expect(validateSettings({ ...SETTINGS, saturation: 9000 }, C920)).toEqual([]);
+  });
+
+  it('checks the region of interest', () => {
+    expect(validateSettings({ ...SETTINGS, regionOfInterest: { x: 0.5, y: 0.5, width: 0.25, height: 0.25 } })).toEqual([]);
+    expect(keys(validateSettings({ ...SETTINGS, regionOfInterest: { x: 0.8, y: 0, width: 0.4, height: 0.2 } })))
+      .toEqual(['regionOfInterest']);
+    expect(keys(validateSettings({ ...SETTINGS, regionOfInterest: { x: 0, y: 0, width: 0, height: 1 } })))
+      .toEqual(['regionOfInterest']);
+  });
+});
+
+describe('validateCapabilities', () => {
+  it('accepts browser capabilities, ignoring keys that are not camera controls', () => {
+    expect(validateCapabilities({ ...C920, width: { min: 1, max: 1920 }, facingMode: [], torch: false })).toEqual([]);
+  });
+
+  it('rejects anything but an object', () => {
+    expect(keys(validateCapabilities([C920]))).toEqual(['']);
+    expect(keys(validateCapabilities(null))).toEqual(['']);
+  });
+
+  it('reports malformed ranges, modes and toggles', () => {
+    const issues = validateCapabilities({
+      focusMode: 'manual',
+      focusDistance: { min: 0, max: '250', step: 5 },
+      zoom: { min: 500, max: 100, step: 1 },
+      torch: 'yes',
+    });
+    expect(keys(issues)).toEqual(['focusMode', 'focusDistance', 'zoom', 'torch']);
+  });
+});
+
+describe('clampSettings', () => {
+  it('leaves settings that fit alone', () => {
+    expect(clampSettings(SETTINGS, C920)).toEqual({ settings: SETTINGS, adjusted: [], unsupported: [] });
+  });
+
+  it('clamps and snaps range values', () => {
+    const { settings, adjusted } = clampSettings({ ...SETTINGS, focusDistance: 42, zoom: 1 }, C920);
+    expect(settings).toMatchObject({ focusDistance: 40, zoom: 100 });
+    expect(keys(adjusted)).toEqual(['focusDistance', 'zoom']);
+  });
+
+  it('falls back to a mode the camera offers, never one settings cannot hold', () => {
+    const { settings, adjusted } = clampSettings(
+      { ...SETTINGS, whiteBalanceMode: 'manual' },
+      { ...C920, whiteBalanceMode: ['single-shot', 'continuous'] }
+    );
+    expect(settings.whiteBalanceMode).toBe('continuous');
+    expect(adjusted).toEqual([
+      { key: 'whiteBalanceMode', message: 'Auto White Balance "manual" -> "continuous" (camera offers single-shot, continuous)' },
+    ]);
+  });
+
+  it('drops optional controls the camera lacks but keeps the core ones', () => {
+    const { settings, unsupported } = clampSettings({ ...SETTINGS, saturation: 100, torch: true }, {});
+    expect(settings).toEqual(SETTINGS);
+    expect(keys(unsupported)).toEqual(['focusMode', 'focusDistance', 'zoom', 'brightness', 'contrast', 'saturation', 'torch']);
+  });
+
+  it('keeps the torch when the camera has one', () => {
+    expect(clampSettings({ ...SETTINGS, torch: true }, { ...C920, torch: true }).settings.torch).toBe(true);
+  });
+});
@@ -0,0 +1,180 @@
+import { CameraCapabilities, CameraSettings, CapabilityRange } from "../types";
+import { CAMERA_CONTROLS, isControlSupported } from "./cameraControls";
+
+// Checks settings against what a camera reports. validateSettings rejects
+// settings from outside the app (profile files, command-line flags);
+// clampSettings fits settings to a camera before they are applied or turned
+// into a script, e.g. a profile saved with another camera.
+
+export interface SettingsIssue {
+  key: string;
+  message: string;
+}
+
+const MODES: ReadonlyArray<string> = ['continuous', 'manual'];
+const REQUIRED_KEYS: (keyof CameraSettings)[] = ['focusMode', 'focusDistance', 'zoom', 'brightness', 'contrast'];
+const ROI_KEYS = ['x', 'y', 'width', 'height'] as const;
+
+const fmt = (n: number) => parseFloat(n.toFixed(4)).toString();
+
+const validateRoi = (roi: unknown): string | null => {
+  if (typeof roi !== 'object' || roi === null) return 'must be an object with x, y, width and height';
+  const r = roi as Record<string, unknown>;
+  const bad = ROI_KEYS.filter(k => typeof r[k] !== 'number' || !Number.isFinite(r[k]) || (r[k] as number) < 0 || (r[k] as number) > 1);
+  if (bad.length > 0) return `${bad.join(', ')} must be between 0 and 1`;
+  const { x, y, width, height } = r as Record<typeof ROI_KEYS[number], number>;
+  if (width === 0 || height === 0) return 'must have a non-zero width and height';
+  if (x + width > 1 || y + height > 1) return 'extends past the edge of the frame';
+  return null;
+};
+
+/**
+ * Problems with `settings`, empty if there are none: missing or unknown keys,
+ * values of the wrong type, modes `capabilities` doesn't list and values
+ * outside its ranges. Controls without a capability are only type-checked.
+ */
+export const validateSettings = (
+  settings: Record<string, unknown>,
+  capabilities: CameraCapabilities = {}
+): SettingsIssue[] => {
+  const issues: SettingsIssue[] = [];
+  const known = new Set<string>(['regionOfInterest', ...CAMERA_CONTROLS.map(c => c.key)]);
+
+  for (const key of REQUIRED_KEYS) {
+    if (settings[key] === undefined) issues.push({ key, message: `${key} is required` });
+  }
+  for (const key of Object.keys(settings)) {
+    if (!known.has(key)) issues.push({ key, message: `${key} is not a camera setting` });
+  }
+
+  for (const control of CAMERA_CONTROLS) {
+    const value = settings[control.key];
+    if (value === undefined) continue;
+    if (control.kind === 'mode') {
+      const modes = capabilities[control.key];
+      if (typeof value !== 'string' || !MODES.includes(value)) {
+        issues.push({ key: control.key, message: `${control.label} must be "continuous" or "manual", got ${JSON.stringify(value)}` });
+      } else if (modes && !modes.includes(value)) {
+        issues.push({ key: control.key, message: `${control.label} "${value}" is not supported (camera offers ${modes.join(', ') || 'no modes'})` });
+      }
+    } else if (control.kind === 'toggle') {
+      if (typeof value !== 'boolean') {
+        issues.push({ key: control.key, message: `${control.label} must be true or false, got ${JSON.stringify(value)}` });
+      }
+    } else {
+      const range = capabilities[control.key];
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ key: control.key, message: `${control.label} must be a number, got ${JSON.stringify(value)}` });
+      } else if (range && (value < range.min || value > range.max)) {
+        issues.push({ key: control.key, message: `${control.label} ${fmt(value)} is out of range [${fmt(range.min)}..${fmt(range.max)}]` });
+      }
+    }
+  }
+
+  if (settings.regionOfInterest !== undefined) {
+    const problem = validateRoi(settings.regionOfInterest);
+    if (problem) issues.push({ key: 'regionOfInterest', message: `Region of Interest ${problem}` });
+  }
+
+  return issues;
+};
+
+const isRange = (value: unknown): value is CapabilityRange => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { min, max, step } = value as Record<string, unknown>;
+  return [min, max, step].every(n => typeof n === 'number' && Number.isFinite(n))
+    && (min as number) <= (max as number) && (step as number) >= 0;
+};
+
+/**
+ * Problems with capabilities from outside the app (e.g. a JSON file), empty
+ * if there are none. Keys the browser reports that aren't camera controls,
+ * such as width or frameRate, are ignored.
+ */
+export const validateCapabilities = (capabilities: unknown): SettingsIssue[] => {
+  if (typeof capabilities !== 'object' || capabilities === null || Array.isArray(capabilities)) {
+    return [{ key: '', message: 'Capabilities must be an object, as returned by track.getCapabilities()' }];
+  }
+  const caps = capabilities as Record<string, unknown>;
+  const issues: SettingsIssue[] = [];
+  for (const control of CAMERA_CONTROLS) {
+    const value = caps[control.key];
+    if (value === undefined) continue;
+    if (control.kind === 'range' && !isRange(value)) {
+      issues.push({ key: control.key, message: `${control.key} must be { min, max, step } with min <= max and step >= 0` });
+    } else if (control.kind === 'mode' && !(Array.isArray(value) && value.every(m => typeof m === 'string'))) {
+      issues.push({ key: control.key, message: `${control.key} must be a list of modes` });
+    } else if (control.kind === 'toggle' && typeof value !== 'boolean') {
+      issues.push({ key: control.key, message: `${control.key} must be true or false` });
+    }
+  }
+  if (caps.pointsOfInterest !== undefined && typeof caps.pointsOfInterest !== 'boolean') {
+    issues.push({ key: 'pointsOfInterest', message: 'pointsOfInterest must be true or false' });
+  }
+  return issues;
+};
+
+export interface ClampResult {
+  settings: CameraSettings;
+  // Values that were changed to fit the camera
+  adjusted: SettingsIssue[];
+  // Controls with a value the camera doesn't have. Optional ones are left out
+  // of `settings`; the core five are kept since every script sets them.
+  unsupported: SettingsIssue[];
+}
+
+// Clamps to [min..max] and rounds to the nearest step from min
+export const snapToRange = (value: number, range: CapabilityRange): number => {
+  const clamped = Math.min(range.max, Math.max(range.min, value));
+  if (!(range.step > 0)) return clamped;
+  const snapped = range.min + Math.round((clamped - range.min) / range.step) * range.step;
+  // Stepping can overshoot max when the range isn't a whole number of steps;
+  // toFixed drops float noise such as 0.30000000000000004
+  return parseFloat(Math.min(range.max, snapped).toFixed(10));
+};
+
+/**
+ * Fits `settings` to `capabilities`: range values are clamped and snapped to
+ * the step, modes the camera lacks fall back to one it has, and controls it
+ * doesn't report are flagged (and dropped unless they are core settings).
+ */
+export const clampSettings = (settings: CameraSettings, capabilities: CameraCapabilities): ClampResult => {
+  const next: Record<string, unknown> = { ...settings };
+  const adjusted: SettingsIssue[] = [];
+  const unsupported: SettingsIssue[] = [];
+
+  for (const control of CAMERA_CONTROLS) {
+    const value = settings[control.key];
+    if (value === undefined) continue;
+
+    if (control.kind === 'range' && capabilities[control.key] && typeof value === 'number') {
+      const range = capabilities[control.key]!;
+      const fitted = snapToRange(value, range);
+      if (fitted !== value) {
+        next[control.key] = fitted;
+        adjusted.push({ key: control.key, message: `${control.label} ${fmt(value)} -> ${fmt(fitted)} (camera range [${fmt(range.min)}..${fmt(range.max)}] step ${fmt(range.step)})` });
+      }
+      continue;
+    }
+    // Cameras may also list modes such as single-shot that settings can't hold
+    const modes = control.kind === 'mode' ? capabilities[control.key] ?? [] : [];
+    const fallback = MODES.find(m => modes.includes(m));
+    if (fallback) {
+      if (!modes.includes(value as string)) {
+        next[control.key] = fallback;
+        adjusted.push({ key: control.key, message: `${control.label} "${value}" -> "${fallback}" (camera offers ${modes.join(', ')})` });
+      }
+      continue;
+    }
+    if (control.kind === 'toggle' && isControlSupported(control, capabilities)) continue;
+
+    if (REQUIRED_KEYS.includes(control.key)) {
+      unsupported.push({ key: control.key, message: `${control.label} is not reported by this camera` });
+    } else {
+      delete next[control.key];
+      unsupported.push({ key: control.key, message: `${control.label} is not reported by this camera and was left out` });
+    }
+  }
+
+  return { settings: next as unknown as CameraSettings, adjusted, unsupported };
+};
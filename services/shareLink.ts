@@ -0,0 +1,159 @@
+import { CameraDevice, CameraSettings, GeneratorOptions, OS, ScriptType } from "../types";
+import { nativeCameraName, parseUsbId } from "./deviceIdentity";
+
+// Settings shared as a URL fragment, e.g. https://host/#share=1.eyJs...
+// The fragment never reaches the server. The payload is versioned so links
+// made by an older FocusLock keep working after the format changes.
+
+export const SHARE_FORMAT_VERSION = 1;
+const SHARE_PARAM = 'share';
+
+export interface SharedConfig {
+  cameraLabel: string;
+  settings: CameraSettings;
+  // Script target chosen when the link was made
+  os: OS;
+  scriptType: ScriptType;
+  options?: GeneratorOptions;
+}
+
+// Short keys keep the link (and its QR code) small
+const SETTING_KEYS: Record<string, keyof CameraSettings> = {
+  fm: 'focusMode',
+  fd: 'focusDistance',
+  z: 'zoom',
+  b: 'brightness',
+  c: 'contrast',
+  sa: 'saturation',
+  sh: 'sharpness',
+  em: 'exposureMode',
+  et: 'exposureTime',
+  ec: 'exposureCompensation',
+  wm: 'whiteBalanceMode',
+  ct: 'colorTemperature',
+  p: 'pan',
+  t: 'tilt',
+  i: 'iso',
+  to: 'torch',
+  r: 'regionOfInterest',
+};
+
+const MODES: Record<string, 'continuous' | 'manual'> = { a: 'continuous', m: 'manual' };
+
+// Version 1 payload
+interface SharePayloadV1 {
+  l: string;
+  o: OS;
+  t: ScriptType;
+  op?: GeneratorOptions;
+  s: Record<string, unknown>;
+}
+
+const round = (n: number) => Math.round(n * 1e4) / 1e4;
+
+const packSettings = (settings: CameraSettings): Record<string, unknown> => {
+  const packed: Record<string, unknown> = {};
+  for (const [short, key] of Object.entries(SETTING_KEYS)) {
+    const value = settings[key];
+    if (value === undefined) continue;
+    if (key === 'regionOfInterest') {
+      const roi = settings.regionOfInterest!;
+      packed[short] = [roi.x, roi.y, roi.width, roi.height].map(round);
+    } else if (typeof value === 'number') {
+      packed[short] = round(value);
+    } else if (value === 'continuous' || value === 'manual') {
+      packed[short] = value === 'continuous' ? 'a' : 'm';
+    } else {
+      packed[short] = value;
+    }
+  }
+  return packed;
+};
+
+const unpackSettings = (packed: Record<string, unknown>): CameraSettings => {
+  const settings: Record<string, unknown> = {};
+  for (const [short, value] of Object.entries(packed)) {
+    const key = SETTING_KEYS[short];
+    if (!key) continue;
+    if (key === 'regionOfInterest' && Array.isArray(value) && value.length === 4) {
+      const [x, y, width, height] = value.map(Number);
+      settings[key] = { x, y, width, height };
+    } else if (typeof value === 'string' && MODES[value]) {
+      settings[key] = MODES[value];
+    } else if (typeof value === 'number' || typeof value === 'boolean') {
+      settings[key] = value;
+    }
+  }
+  if (!settings.focusMode || [settings.focusDistance, settings.zoom, settings.brightness, settings.contrast].some(v => typeof v !== 'number')) {
+    throw new Error('The shared link is missing required settings.');
+  }
+  return settings as unknown as CameraSettings;
+};
+
+// base64url over UTF-8, so labels with non-ASCII names survive
+const toBase64Url = (text: string): string => {
+  const binary = String.fromCharCode(...new TextEncoder().encode(text));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (data: string): string => {
+  const binary = atob(data.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0)));
+};
+
+export const encodeShareFragment = (config: SharedConfig): string => {
+  const payload: SharePayloadV1 = {
+    l: config.cameraLabel,
+    o: config.os,
+    t: config.scriptType,
+    ...(config.options && Object.keys(config.options).length > 0 ? { op: config.options } : {}),
+    s: packSettings(config.settings),
+  };
+  return `#${SHARE_PARAM}=${SHARE_FORMAT_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+};
+
+// Full link to this page carrying `config`
+export const buildShareUrl = (config: SharedConfig, location: { origin: string; pathname: string } = window.location): string =>
+  `${location.origin}${location.pathname}${encodeShareFragment(config)}`;
+
+/**
+ * Reads a shared config from a URL fragment. Returns null when the fragment
+ * carries none; throws if it does but can't be read.
+ */
+export const decodeShareFragment = (hash: string): SharedConfig | null => {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_PARAM);
+  if (!value) return null;
+  const dot = value.indexOf('.');
+  const version = Number(value.slice(0, dot));
+  if (dot < 0 || !Number.isInteger(version)) throw new Error('The shared link is malformed.');
+  if (version > SHARE_FORMAT_VERSION) {
+    throw new Error('The shared link was made by a newer version of FocusLock.');
+  }
+
+  let payload: SharePayloadV1;
+  try {
+    payload = JSON.parse(fromBase64Url(value.slice(dot + 1)));
+  } catch {
+    throw new Error('The shared link is malformed.');
+  }
+  if (!Object.values(OS).includes(payload.o) || typeof payload.t !== 'string' || typeof payload.s !== 'object') {
+    throw new Error('The shared link is malformed.');
+  }
+  return {
+    cameraLabel: String(payload.l ?? ''),
+    os: payload.o,
+    scriptType: payload.t,
+    options: payload.op,
+    settings: unpackSettings(payload.s),
+  };
+};
+
+// Same USB ID if both labels carry one, otherwise the same model name
+export const sharedConfigMatchesDevice = (config: SharedConfig, device: CameraDevice): boolean => {
+  const sharedId = parseUsbId(config.cameraLabel);
+  const deviceId = parseUsbId(device.label);
+  if (sharedId && deviceId) {
+    return sharedId.vendorId === deviceId.vendorId && sharedId.productId === deviceId.productId;
+  }
+  return nativeCameraName(config.cameraLabel).toLowerCase() === nativeCameraName(device.label).toLowerCase();
+};
@@ -0,0 +1,60 @@
+// Full-resolution stills from the live track. ImageCapture.takePhoto() asks
+// the camera for a real photo (often larger than the stream); browsers
+// without it (Firefox, Safari) get the current video frame at stream size.
+
+// Not in TypeScript's DOM lib yet
+interface ImageCaptureLike {
+  takePhoto(): Promise<Blob>;
+}
+declare const ImageCapture: { new (track: MediaStreamTrack): ImageCaptureLike } | undefined;
+
+export interface CapturedStill {
+  image: Blob;
+  width: number;
+  height: number;
+  method: 'takePhoto' | 'canvas';
+}
+
+const JPEG_QUALITY = 0.92;
+
+const imageSize = async (blob: Blob): Promise<{ width: number; height: number }> => {
+  const bitmap = await createImageBitmap(blob);
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return size;
+};
+
+const grabVideoFrame = (video: HTMLVideoElement): Promise<CapturedStill> => new Promise((resolve, reject) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || !canvas.width) {
+    reject(new Error('The preview has no frame to capture yet.'));
+    return;
+  }
+  ctx.drawImage(video, 0, 0);
+  canvas.toBlob(blob => {
+    if (blob) {
+      resolve({ image: blob, width: canvas.width, height: canvas.height, method: 'canvas' });
+    } else {
+      reject(new Error('Could not encode the captured frame.'));
+    }
+  }, 'image/jpeg', JPEG_QUALITY);
+});
+
+/**
+ * Captures a still from `track`, falling back to the frame shown in `video`
+ * when takePhoto is unavailable or the camera refuses it.
+ */
+export const captureStill = async (track: MediaStreamTrack, video: HTMLVideoElement): Promise<CapturedStill> => {
+  if (typeof ImageCapture !== 'undefined') {
+    try {
+      const image = await new ImageCapture(track).takePhoto();
+      return { image, ...(await imageSize(image)), method: 'takePhoto' };
+    } catch (err) {
+      console.warn("takePhoto failed, using the preview frame instead:", err);
+    }
+  }
+  return grabVideoFrame(video);
+};
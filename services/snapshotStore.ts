@@ -0,0 +1,48 @@
+import { Snapshot } from "../types";
+
+// Captured snapshots, persisted in IndexedDB: the images are far too large
+// for localStorage, and IndexedDB stores Blobs as-is.
+
+const DB_NAME = 'focuslock';
+const DB_VERSION = 1;
+const STORE = 'snapshots';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Oldest first
+export const loadSnapshots = async (): Promise<Snapshot[]> => {
+  const snapshots = await run<Snapshot[]>('readonly', store => store.getAll());
+  return snapshots.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+};
+
+export const saveSnapshot = async (snapshot: Snapshot): Promise<void> => {
+  await run('readwrite', store => store.put(snapshot));
+};
+
+export const deleteSnapshot = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
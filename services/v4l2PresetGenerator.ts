@@ -0,0 +1,54 @@
+import { OS, ScriptGeneratorPlugin } from "../types";
+import { formatUsbId } from "./deviceIdentity";
+import { NativeScriptParams, describeCamera, toNativeCameras, toNativeParams, v4l2Controls } from "./scriptControls";
+
+// Plain control=value preset for v4l2-ctl: no script logic, meant to be
+// checked into dotfiles or fed to whatever already manages the camera.
+
+// Lines are in apply order: auto modes come before the values they unlock
+const presetBody = (params: NativeScriptParams): string => {
+  const legacyNames = !!params.options?.legacyNames;
+  const { lines, skipped } = v4l2Controls(params);
+  return [
+    ...lines.flatMap(({ ctrls, value }) => (legacyNames ? ctrls : ctrls.slice(0, 1)).map(ctrl => `${ctrl}=${value}`)),
+    ...skipped.map(label => `# Not available through v4l2: ${label}`),
+  ].join('\n');
+};
+
+const cameraLine = (params: NativeScriptParams): string =>
+  `${params.cameraName}${params.usbId ? ` (USB ${formatUsbId(params.usbId)})` : ''}`;
+
+const APPLY_LOOP = `while read -r ctrl; do v4l2-ctl -d /dev/video0 --set-ctrl="$ctrl"; done`;
+
+const generatePreset = (params: NativeScriptParams): string => `# FocusLock v4l2-ctl preset
+# Camera: ${cameraLine(params)}${describeCamera(params, '# ')}
+#
+# One control=value per line. Apply with (find the device with v4l2-ctl --list-devices):
+#   grep -v '^#' focuslock-apply.v4l2 | ${APPLY_LOOP}
+${presetBody(params)}`;
+
+const generateCombinedPreset = (cameras: NativeScriptParams[]): string => `# FocusLock v4l2-ctl preset (${cameras.length} cameras)
+#
+# One section per camera, one control=value per line. Apply section N to its
+# device with (find the devices with v4l2-ctl --list-devices):
+#   awk -v n=N '/^# ---- Camera /{on = ($4 + 0 == n); next} on && NF && !/^#/' focuslock-apply.v4l2 | ${APPLY_LOOP}
+
+${cameras.map((camera, i) => `# ---- Camera ${i + 1}/${cameras.length}: ${cameraLine(camera)}${describeCamera(camera, '# ')}
+${presetBody(camera)}`).join('\n\n')}`;
+
+export const v4l2PresetGenerator: ScriptGeneratorPlugin = {
+  id: 'v4l2-preset',
+  name: 'v4l2-ctl Preset',
+  description: 'Generates a plain control=value preset file for v4l2-ctl, with no script logic. Apply it with the one-liner in its header.',
+  supportedOS: [OS.LINUX],
+  extension: { [OS.LINUX]: '.v4l2' },
+  requirements: { [OS.LINUX]: 'v4l-utils (sudo apt-get install v4l-utils).' },
+  options: [{
+    key: 'legacyNames',
+    label: 'Old kernel names',
+    description: 'Also write the pre-5.x control names (focus_auto, exposure_auto, ...); v4l2-ctl rejects the ones the driver lacks',
+    default: false,
+  }],
+  render: params => generatePreset(toNativeParams(params, 'v4l2')),
+  renderCombined: params => generateCombinedPreset(toNativeCameras(params, 'v4l2')),
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { CameraCapabilities, CameraSettings, UsbId } from '../types';
+import { NativeTarget, mapSettingsToNative } from './valueMapping';
+
+const C920 = { vendorId: '046d', productId: '082d' };
+
+const SETTINGS: CameraSettings = {
+  focusMode: 'manual',
+  focusDistance: 0.5,
+  zoom: 100,
+  brightness: 128,
+  contrast: 128,
+};
+
+const native = (
+  settings: Partial<CameraSettings>,
+  caps: CameraCapabilities | undefined,
+  target: NativeTarget,
+  usbId?: UsbId,
+  reported?: Parameters<typeof mapSettingsToNative>[4]
+) => mapSettingsToNative({ ...SETTINGS, ...settings }, caps, target, usbId, reported).settings;
+
+describe('mapSettingsToNative', () => {
+  const caps = { focusDistance: { min: 0, max: 1, step: 0.01 } };
+
+  it('applies driver quirks to raw UVC targets', () => {
+    expect(native({}, caps, 'v4l2', C920).focusDistance).toBe(125);
+    expect(native({}, caps, 'dshow', C920).focusDistance).toBe(125);
+  });
+
+  it('leaves AVFoundation values alone even for cameras with quirks', () => {
+    expect(native({}, caps, 'avfoundation', C920).focusDistance).toBe(0.5);
+  });
+
+  it('prefers ranges the driver reported over quirks', () => {
+    expect(native({}, caps, 'v4l2', C920, { focusDistance: { min: 0, max: 1023, step: 1 } }).focusDistance).toBe(512);
+  });
+
+  it('converts pan and tilt from arc-seconds to DirectShow degrees', () => {
+    expect(native({ pan: 3600, tilt: -36000 }, undefined, 'dshow')).toMatchObject({ pan: 1, tilt: -10 });
+    const browser = { pan: { min: -36000, max: 36000, step: 3600 } };
+    expect(native({ pan: 7200 }, browser, 'dshow').pan).toBe(2);
+    expect(native({ pan: 3600 * 200 }, undefined, 'dshow').pan).toBe(180);
+  });
+
+  it('keeps pan and tilt in arc-seconds for v4l2', () => {
+    expect(native({ pan: 3600 }, undefined, 'v4l2').pan).toBe(3600);
+  });
+});
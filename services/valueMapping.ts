@@ -0,0 +1,203 @@
+import { CameraCapabilities, CameraSettings, CapabilityRange, UsbId } from "../types";
+import { RangeControlKey } from "./cameraControls";
+import { formatUsbId } from "./deviceIdentity";
+
+// Translates browser constraint values into the units of the native tool a
+// script drives. Browsers report each control with their own min/max/step,
+// which only sometimes matches the driver (Chrome on Linux passes V4L2 ranges
+// straight through, other platforms normalize or rescale).
+
+export type NativeTarget = 'v4l2' | 'dshow' | 'avfoundation';
+
+interface NativeRange extends CapabilityRange {
+  // How the browser value relates to the native one:
+  // 'linear' rescales range to range, 'absolute' means both use the same
+  // physical unit (only clamp and round), 'log2-seconds' is DirectShow exposure,
+  // 'degrees' is DirectShow pan/tilt (the browser uses arc-seconds)
+  encoding?: 'linear' | 'absolute' | 'log2-seconds' | 'degrees';
+}
+
+export interface MappingEntry {
+  key: RangeControlKey;
+  browserValue: number;
+  nativeValue: number;
+  rule: string;
+}
+
+export interface MappedSettings {
+  settings: CameraSettings;
+  entries: MappingEntry[];
+}
+
+// Typical UVC ranges. V4L2 and DirectShow both expose the raw UVC values.
+const UVC_DEFAULTS: Partial<Record<RangeControlKey, NativeRange>> = {
+  focusDistance: { min: 0, max: 255, step: 1 },
+  zoom: { min: 100, max: 500, step: 1 },
+  brightness: { min: 0, max: 255, step: 1 },
+  contrast: { min: 0, max: 255, step: 1 },
+  saturation: { min: 0, max: 255, step: 1 },
+  sharpness: { min: 0, max: 255, step: 1 },
+  // 100 µs units, same unit Chrome uses for exposureTime
+  exposureTime: { min: 3, max: 2047, step: 1, encoding: 'absolute' },
+  // Kelvin on both sides
+  colorTemperature: { min: 2000, max: 6500, step: 1, encoding: 'absolute' },
+  // Arc-seconds
+  pan: { min: -36000, max: 36000, step: 3600 },
+  tilt: { min: -36000, max: 36000, step: 3600 },
+};
+
+const TARGET_DEFAULTS: Record<NativeTarget, Partial<Record<RangeControlKey, NativeRange>>> = {
+  v4l2: UVC_DEFAULTS,
+  dshow: {
+    ...UVC_DEFAULTS,
+    // CAP_PROP_EXPOSURE / IAMCameraControl exposure is log2(seconds), e.g. -6 = 1/64 s
+    exposureTime: { min: -13, max: -1, step: 1, encoding: 'log2-seconds' },
+    // IAMCameraControl reports pan/tilt in degrees rather than arc-seconds
+    pan: { min: -180, max: 180, step: 1, encoding: 'degrees' },
+    tilt: { min: -180, max: 180, step: 1, encoding: 'degrees' },
+  },
+  // AVFoundation takes no raw UVC values; OpenCV passes normalized values through
+  avfoundation: {},
+};
+
+interface DriverQuirk {
+  name: string;
+  ranges: Partial<Record<RangeControlKey, NativeRange>>;
+}
+
+// Known cameras whose native ranges differ from the UVC defaults. Only
+// targets that take raw UVC values use them.
+const QUIRK_TARGETS: NativeTarget[] = ['v4l2', 'dshow'];
+
+const DRIVER_QUIRKS: Record<string, DriverQuirk> = {
+  '046d:082d': { name: 'Logitech C920', ranges: { focusDistance: { min: 0, max: 250, step: 5 } } },
+  '046d:085c': { name: 'Logitech C922', ranges: { focusDistance: { min: 0, max: 250, step: 5 } } },
+  '046d:0843': { name: 'Logitech C930e', ranges: { focusDistance: { min: 0, max: 250, step: 5 } } },
+  '046d:085e': { name: 'Logitech BRIO', ranges: { focusDistance: { min: 0, max: 255, step: 5 } } },
+  '045e:0772': { name: 'Microsoft LifeCam Studio', ranges: { focusDistance: { min: 0, max: 40, step: 1 } } },
+};
+
+const MAPPED_KEYS: RangeControlKey[] = [
+  'focusDistance', 'zoom', 'brightness', 'contrast', 'saturation', 'sharpness',
+  'exposureTime', 'colorTemperature', 'pan', 'tilt',
+];
+
+const fmt = (n: number) => parseFloat(n.toFixed(4)).toString();
+const fmtRange = (r: CapabilityRange) => `[${fmt(r.min)}..${fmt(r.max)}]`;
+
+const snap = (value: number, range: CapabilityRange): number => {
+  const step = range.step > 0 ? range.step : 1;
+  const snapped = range.min + Math.round((value - range.min) / step) * step;
+  return Math.min(range.max, Math.max(range.min, Math.round(snapped)));
+};
+
+const sameRange = (a: CapabilityRange, b: CapabilityRange) => a.min === b.min && a.max === b.max;
+
+const mapValue = (
+  key: RangeControlKey,
+  value: number,
+  browser: CapabilityRange | undefined,
+  native: NativeRange | undefined,
+  // Where `native` came from when it isn't a default, e.g. a quirk's camera name
+  origin?: string
+): MappingEntry => {
+  const source = origin ? ` (${origin})` : '';
+
+  if (!native) {
+    return { key, browserValue: value, nativeValue: value, rule: 'passed through (no native range known)' };
+  }
+
+  if (native.encoding === 'log2-seconds') {
+    // Browser exposureTime is in 100 µs units
+    const seconds = Math.max(value, 1) * 1e-4;
+    const nativeValue = Math.min(native.max, Math.max(native.min, Math.round(Math.log2(seconds))));
+    return { key, browserValue: value, nativeValue, rule: `${fmt(value)} x 100us -> log2(s) = ${nativeValue}` };
+  }
+
+  if (native.encoding === 'degrees') {
+    const nativeValue = snap(value / 3600, native);
+    return { key, browserValue: value, nativeValue, rule: `${fmt(value)} arc-seconds -> degrees, clamped to native ${fmtRange(native)}` };
+  }
+
+  if (native.encoding === 'absolute') {
+    const nativeValue = snap(value, native);
+    return { key, browserValue: value, nativeValue, rule: `same unit, clamped to native ${fmtRange(native)}${source}` };
+  }
+
+  if (!browser) {
+    const nativeValue = snap(value, native);
+    return { key, browserValue: value, nativeValue, rule: `no browser range; rounded into native ${fmtRange(native)}${source}` };
+  }
+
+  if (sameRange(browser, native) || browser.max - browser.min === 0) {
+    const nativeValue = snap(value, native);
+    return { key, browserValue: value, nativeValue, rule: `browser range matches native ${fmtRange(native)}${source}` };
+  }
+
+  const t = (value - browser.min) / (browser.max - browser.min);
+  const nativeValue = snap(native.min + t * (native.max - native.min), native);
+  return {
+    key,
+    browserValue: value,
+    nativeValue,
+    rule: `${fmtRange(browser)} -> ${fmtRange(native)} step ${fmt(native.step)}${source}`,
+  };
+};
+
+/**
+ * Raw UVC ranges (what v4l2-ctl and DirectShow take) for the camera with
+ * `usbId`, including its driver quirks.
+ */
+export const uvcRanges = (usbId?: UsbId): Partial<Record<RangeControlKey, CapabilityRange>> => {
+  const quirk = usbId ? DRIVER_QUIRKS[formatUsbId(usbId)] : undefined;
+  const ranges: Partial<Record<RangeControlKey, CapabilityRange>> = {};
+  for (const key of MAPPED_KEYS) {
+    const range = quirk?.ranges[key] ?? UVC_DEFAULTS[key];
+    if (range) ranges[key] = { min: range.min, max: range.max, step: range.step };
+  }
+  return ranges;
+};
+
+/**
+ * Converts every range control in `settings` from the browser's capability
+ * range to the native range of `target`, rounding to the native step.
+ * Modes and toggles are left untouched. `reported` are native ranges read
+ * from the driver itself (e.g. by the companion agent); they beat the
+ * defaults and quirks.
+ */
+export const mapSettingsToNative = (
+  settings: CameraSettings,
+  caps: CameraCapabilities | undefined,
+  target: NativeTarget,
+  usbId?: UsbId,
+  reported?: Partial<Record<RangeControlKey, CapabilityRange>>
+): MappedSettings => {
+  const quirk = usbId && QUIRK_TARGETS.includes(target) ? DRIVER_QUIRKS[formatUsbId(usbId)] : undefined;
+  const mapped: CameraSettings = { ...settings };
+  const entries: MappingEntry[] = [];
+
+  for (const key of MAPPED_KEYS) {
+    const value = settings[key];
+    if (value === undefined) continue;
+    const fallback = TARGET_DEFAULTS[target][key];
+    const driver = reported?.[key];
+    const entry = driver
+      ? mapValue(key, value, caps?.[key], { ...driver, encoding: fallback?.encoding }, 'reported by driver')
+      : quirk?.ranges[key]
+        ? mapValue(key, value, caps?.[key], quirk.ranges[key], quirk.name)
+        : mapValue(key, value, caps?.[key], fallback);
+    mapped[key] = entry.nativeValue;
+    entries.push(entry);
+  }
+
+  return { settings: mapped, entries };
+};
+
+/**
+ * Comment block documenting how each value was translated.
+ */
+export const describeMapping = (entries: MappingEntry[], prefix: string): string => {
+  if (entries.length === 0) return '';
+  const lines = entries.map(e => `${prefix}  ${e.key}: ${fmt(e.browserValue)} -> ${fmt(e.nativeValue)}  (${e.rule})`);
+  return [`${prefix}Value mapping (browser -> native):`, ...lines].join('\n');
+};
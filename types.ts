@@ -3,14 +3,39 @@ export interface CameraDevice {
   label: string;
 }
 
+export interface CapabilityRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
 export interface CameraCapabilities {
   focusMode?: string[];
-  focusDistance?: { min: number; max: number; step: number };
-  zoom?: { min: number; max: number; step: number };
-  brightness?: { min: number; max: number; step: number };
-  contrast?: { min: number; max: number; step: number };
-  saturation?: { min: number; max: number; step: number };
-  sharpness?: { min: number; max: number; step: number };
+  focusDistance?: CapabilityRange;
+  zoom?: CapabilityRange;
+  brightness?: CapabilityRange;
+  contrast?: CapabilityRange;
+  saturation?: CapabilityRange;
+  sharpness?: CapabilityRange;
+  exposureMode?: string[];
+  exposureTime?: CapabilityRange;
+  exposureCompensation?: CapabilityRange;
+  whiteBalanceMode?: string[];
+  colorTemperature?: CapabilityRange;
+  pan?: CapabilityRange;
+  tilt?: CapabilityRange;
+  iso?: CapabilityRange;
+  torch?: boolean;
+  // Not reported by getCapabilities(); set when getSettings() exposes pointsOfInterest
+  pointsOfInterest?: boolean;
+}
+
+// Normalized (0-1) rectangle in frame coordinates, origin top-left
+export interface RegionOfInterest {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export interface CameraSettings {
@@ -19,6 +44,69 @@ export interface CameraSettings {
   zoom: number;
   brightness: number;
   contrast: number;
+  // Optional controls, present only when the camera supports them
+  saturation?: number;
+  sharpness?: number;
+  exposureMode?: 'continuous' | 'manual';
+  exposureTime?: number;
+  exposureCompensation?: number;
+  whiteBalanceMode?: 'continuous' | 'manual';
+  colorTemperature?: number;
+  pan?: number;
+  tilt?: number;
+  iso?: number;
+  torch?: boolean;
+  regionOfInterest?: RegionOfInterest;
+}
+
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  // Profiles match a camera by deviceId first, then by label (deviceIds differ per browser/origin)
+  deviceId: string;
+  cameraLabel: string;
+  settings: CameraSettings;
+  updatedAt: string;
+}
+
+// One time window of a schedule: the profile applies from `start` until the
+// next entry's start, wrapping past midnight
+export interface ScheduleEntry {
+  id: string;
+  // Local time, "HH:MM"
+  start: string;
+  profileId: string;
+}
+
+export interface SettingsSchedule {
+  // Matched to a camera the same way as profiles
+  deviceId: string;
+  cameraLabel: string;
+  enabled: boolean;
+  entries: ScheduleEntry[];
+}
+
+// A schedule entry resolved to concrete settings, as script generators take it
+export interface ScheduleSlot {
+  start: string;
+  name: string;
+  settings: CameraSettings;
+}
+
+export interface Snapshot {
+  id: string;
+  deviceId: string;
+  cameraLabel: string;
+  // What FocusLock had set, and what the track reported back at capture time
+  settings: CameraSettings;
+  trackSettings: Record<string, unknown>;
+  // Variance of the Laplacian of the preview frame (inside the ROI if one was set)
+  sharpness: number;
+  capturedAt: string;
+  width: number;
+  height: number;
+  method: 'takePhoto' | 'canvas';
+  image: Blob;
 }
 
 export enum OS {
@@ -27,11 +115,69 @@ export enum OS {
   MACOS = 'macOS'
 }
 
-export type ScriptType = 'native' | 'python';
+// Id of a registered script generator plugin, e.g. 'python' or 'native'
+export type ScriptType = string;
+
+// Values of a generator's options, by option key
+export type GeneratorOptions = Record<string, boolean>;
+
+// USB vendor/product ID as 4-digit lowercase hex, e.g. 046d:082d
+export interface UsbId {
+  vendorId: string;
+  productId: string;
+}
 
 export interface ScriptGenerationParams {
   os: OS;
   cameraName: string;
   settings: CameraSettings;
   scriptType: ScriptType;
+  // Pins the script to one physical model instead of matching by name
+  usbId?: UsbId;
+  // Browser ranges the settings were tuned in, used to convert to native units
+  capabilities?: CameraCapabilities;
+  // Native ranges the settings are already in, e.g. from an imported v4l2-ctl dump
+  nativeRanges?: CameraCapabilities;
+  // Generator options, e.g. verify (read every control back and print a JSON report)
+  options?: GeneratorOptions;
+}
+
+export interface CameraScriptTarget {
+  cameraName: string;
+  settings: CameraSettings;
+  usbId?: UsbId;
+  capabilities?: CameraCapabilities;
+  nativeRanges?: CameraCapabilities;
+}
+
+export interface MultiCameraScriptParams {
+  os: OS;
+  cameras: CameraScriptTarget[];
+  scriptType: ScriptType;
+  options?: GeneratorOptions;
+}
+
+export interface GeneratorOption {
+  key: string;
+  label: string;
+  description: string;
+  default: boolean;
+}
+
+// A script target (Python, native shell, ...) the generator UI offers
+export interface ScriptGeneratorPlugin {
+  id: ScriptType;
+  name: string;
+  description: string;
+  supportedOS: OS[];
+  // File extension per supported OS, including the dot
+  extension: Partial<Record<OS, string>>;
+  // Command that runs the script (its path is appended) for installers;
+  // omitted for outputs that aren't runnable on their own
+  launcher?: Partial<Record<OS, string>>;
+  // One-line prerequisites for the installer README
+  requirements: Partial<Record<OS, string>>;
+  options: GeneratorOption[];
+  render: (params: ScriptGenerationParams) => string;
+  renderCombined: (params: MultiCameraScriptParams) => string;
 }
\ No newline at end of file